@@ -0,0 +1,88 @@
+// --- 事件推送（Server-Sent Events）---
+// 服务器把提交、评测进度、题目变更作为事件广播给订阅的客户端（网页端、插件）。
+// 每个事件有递增的 id；客户端断线重连时通过 Last-Event-ID 头（EventSource 自动发送）
+// 或 ?since=<id> 参数从游标处补发错过的事件。最近的事件保存在内存环形缓冲区中。
+//
+// 事件类型：
+//   submission      提交状态变化（创建、进入编译 / 运行阶段、评测完成）
+//   judge-progress  单个测试用例的评测结果
+//   problem         题目新增 / 修改 / 删除（data.action 为 created / updated / deleted）
+//   reset           游标早于缓冲区中最早的事件，客户端应重新拉取完整数据
+
+const MAX_BUFFERED_EVENTS = 1000;
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+class EventBus {
+    constructor() {
+        // 以启动时间作为起始 id，服务器重启后 id 仍然递增，旧游标不会误判为"未来"的事件
+        this.nextId = Date.now();
+        this.events = [];          // { id, type, data, scope: { problemId, userId } }
+        this.clients = new Set();  // { res, filter }
+    }
+
+    // 广播事件；scope 用于按题目 / 用户过滤订阅
+    publish(type, data, scope = {}) {
+        const event = { id: this.nextId++, type, data, scope };
+        this.events.push(event);
+        if (this.events.length > MAX_BUFFERED_EVENTS) {
+            this.events.shift();
+        }
+        for (const client of this.clients) {
+            if (this._matches(event, client.filter)) {
+                this._send(client.res, event);
+            }
+        }
+        return event;
+    }
+
+    // 处理 GET /api/events 请求：filter 为 { problemId, userId }，cursor 为最后收到的事件 id
+    subscribe(req, res, filter, cursor) {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.write('retry: 3000\n\n');
+
+        // 补发游标之后错过的事件
+        if (cursor !== undefined) {
+            const oldest = this.events.length > 0 ? this.events[0].id : this.nextId;
+            if (cursor < oldest - 1) {
+                this._send(res, { id: this.nextId - 1, type: 'reset', data: { reason: '错过的事件过多，请重新加载数据' } });
+            } else {
+                for (const event of this.events) {
+                    if (event.id > cursor && this._matches(event, filter)) {
+                        this._send(res, event);
+                    }
+                }
+            }
+        }
+
+        const client = { res, filter };
+        this.clients.add(client);
+
+        // 定期发送注释行，防止代理或浏览器因空闲断开连接
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            this.clients.delete(client);
+        });
+    }
+
+    _matches(event, filter) {
+        if (filter.problemId && event.scope.problemId !== undefined && String(event.scope.problemId) !== String(filter.problemId)) {
+            return false;
+        }
+        if (filter.userId && event.scope.userId !== undefined && event.scope.userId !== filter.userId) {
+            return false;
+        }
+        return true;
+    }
+
+    _send(res, event) {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    }
+}
+
+module.exports = { EventBus };
@@ -0,0 +1,198 @@
+const path = require('path');
+
+// --- 评测队列 ---
+// /api/submit 只接收代码，创建状态为 pending 的评测任务；本进程内的 worker 依次取出任务，
+// 经过 compiling → running 两个阶段后写回结果（judged）。评测逻辑与插件共用 out/judge.js，
+// 因此启动服务器前需要先在项目根目录运行 npm run compile。
+// 重跑用例、对拍等其他会运行学生代码的任务也放进同一个队列（_schedule），与评测共享并发上限，不会绕过队列压垮评测机。
+
+const OUT_DIR = path.join(__dirname, '..', 'out');
+
+const DEFAULT_TIME_LIMIT_MS = Number(process.env.SMARTCODER_JUDGE_TIME_LIMIT) || 2000;
+const DEFAULT_MEMORY_LIMIT_MB = Number(process.env.SMARTCODER_JUDGE_MEMORY_LIMIT) || 256;
+const STRESS_TIME_BUDGET_MS = Number(process.env.SMARTCODER_STRESS_TIME_BUDGET) || 60000;
+
+const loadedModules = {};
+
+function limitsFor(problem) {
+    return {
+        timeLimitMs: (problem && problem.timeLimit) || DEFAULT_TIME_LIMIT_MS,
+        memoryLimitMb: (problem && problem.memoryLimit) || DEFAULT_MEMORY_LIMIT_MB
+    };
+}
+
+// 加载插件编译产物中的模块（judge.js / stressTest.js）
+function loadJudgeModule(fileName = 'judge.js') {
+    if (!loadedModules[fileName]) {
+        const modulePath = path.join(OUT_DIR, fileName);
+        try {
+            loadedModules[fileName] = require(modulePath);
+        } catch (error) {
+            throw new Error(`无法加载评测模块 ${modulePath}，请先在项目根目录运行 npm run compile（${error.message}）`);
+        }
+    }
+    return loadedModules[fileName];
+}
+
+class JudgeQueue {
+    // store：SubmissionStore；findProblem(problemId) 返回题目或 null；
+    // onStateChange(submission) 在 judgeState 变化时回调，onCaseResult(submission, caseResult) 在每个用例评测完成时回调，
+    // onJudged(submission) 在评测完成后、广播 judged 状态前回调
+    constructor(store, { findProblem, onStateChange, onCaseResult, onJudged, concurrency = 1, parallelism = 0 }) {
+        this.store = store;
+        this.findProblem = findProblem;
+        this.onStateChange = onStateChange;
+        this.onCaseResult = onCaseResult;
+        this.onJudged = onJudged;
+        this.concurrency = concurrency;
+        this.parallelism = parallelism;   // 每个任务内同时运行的用例数，0 表示自动
+        this.pending = [];                // 等待评测的提交 id，或 _schedule 加入的任务 { run, resolve, reject }
+        this.active = 0;
+    }
+
+    enqueue(submissionId) {
+        this.pending.push(submissionId);
+        this._next();
+    }
+
+    // 服务器重启后，把上次没评测完的任务重新放回队列
+    recover() {
+        const unfinished = this.store.query().filter(s => s.judgeState && s.judgeState !== 'judged');
+        for (const submission of unfinished) {
+            this.store.update(submission.id, { judgeState: 'pending' });
+            this.pending.push(submission.id);
+        }
+        if (unfinished.length > 0) {
+            console.log(`[Judge] 恢复了 ${unfinished.length} 个未完成的评测任务`);
+        }
+        this._next();
+    }
+
+    // 提交在队列中的位置（从 1 开始），不在队列中返回 0
+    position(submissionId) {
+        return this.pending.indexOf(submissionId) + 1;
+    }
+
+    // 重新评测提交的某一个用例（从 1 开始），与评测共用队列，不写回提交记录，返回 judgeCode 的结果
+    rerunCase(submission, caseNumber) {
+        return this._schedule(() => {
+            const { judgeCode } = loadJudgeModule();
+            const problem = this.findProblem(submission.problemId);
+            return judgeCode(
+                submission.code,
+                submission.language,
+                problem ? problem.testCases : undefined,
+                problem ? problem.checker : undefined,
+                { limits: limitsFor(problem), parallelism: 1, caseNumbers: [caseNumber] }
+            );
+        });
+    }
+
+    // 用题目的参考解校验测试用例（出题时调用，直接运行，不进入提交队列）
+    // 返回 out/judge.js 中 verifyWithReference 的结果
+    async verifyReference(problem, mode) {
+        const { verifyWithReference } = loadJudgeModule();
+        const { language, code } = problem.referenceSolution;
+        return verifyWithReference(code, language, problem.testCases, problem.checker, mode, limitsFor(problem));
+    }
+
+    // 对拍：用题目的 generator 随机生成输入，比较学生代码与参考解的输出（与评测共用队列，不写回提交记录）
+    // 返回 out/stressTest.js 中 stressTest 的结果
+    stressTest(problem, code, language, { iterations, seed }) {
+        return this._schedule(() => {
+            const { stressTest } = loadJudgeModule('stressTest.js');
+            return stressTest(code, language, problem.referenceSolution, problem.generator, problem.checker, {
+                limits: limitsFor(problem),
+                iterations,
+                seed,
+                timeBudgetMs: STRESS_TIME_BUDGET_MS
+            });
+        });
+    }
+
+    // 把一个任务排进队列，轮到时运行 run()，返回它的结果
+    _schedule(run) {
+        return new Promise((resolve, reject) => {
+            this.pending.push({ run, resolve, reject });
+            this._next();
+        });
+    }
+
+    _next() {
+        while (this.active < this.concurrency && this.pending.length > 0) {
+            const task = this.pending.shift();
+            this.active++;
+            const running = typeof task === 'object'
+                ? Promise.resolve().then(task.run).then(task.resolve, task.reject)   // 出错由调用方处理
+                : this._judge(task).catch(error => console.error(`[Judge] 评测提交 #${task} 失败:`, error));
+            running.finally(() => {
+                this.active--;
+                this._next();
+            });
+        }
+    }
+
+    async _judge(submissionId) {
+        const submission = this.store.get(submissionId);
+        if (!submission) {
+            return;
+        }
+
+        let result;
+        try {
+            const { judgeCode } = loadJudgeModule();
+            const problem = this.findProblem(submission.problemId);
+            const limits = limitsFor(problem);
+            result = await judgeCode(
+                submission.code,
+                submission.language,
+                problem ? problem.testCases : undefined,
+                problem ? problem.checker : undefined,
+                {
+                    limits,
+                    parallelism: this.parallelism,
+                    continueAfterFailure: Boolean(submission.continueAfterFailure),
+                    onPhase: phase => this._setState(submissionId, { judgeState: phase }),
+                    onCaseResult: caseResult => {
+                        if (this.onCaseResult) {
+                            this.onCaseResult(submission, caseResult);
+                        }
+                    }
+                }
+            );
+        } catch (error) {
+            // 评测模块本身不可用：记为编译错误，避免任务永远停在队列里
+            result = { output: error.message, runtime: -1, memory: -1, status: 'Compile Error', errorMessage: error.message };
+        }
+
+        const judged = this.store.update(submissionId, {
+            judgeState: 'judged',
+            status: result.status,
+            output: result.output || '',
+            runtime: result.runtime,
+            memory: result.memory,
+            failedCase: result.failedCase,
+            errorMessage: result.errorMessage,
+            caseResults: result.caseResults || [],
+            judgedAt: Date.now()
+        });
+        console.log(`[Judge] 提交 #${submissionId} 评测完成: ${result.status}`);
+        // 先计算排名等附加结果，再通知状态变化，订阅者收到的 judged 事件已是完整结果
+        if (this.onJudged) {
+            this.onJudged(judged);
+        }
+        if (this.onStateChange) {
+            this.onStateChange(judged);
+        }
+    }
+
+    _setState(submissionId, patch) {
+        const submission = this.store.update(submissionId, patch);
+        if (submission && this.onStateChange) {
+            this.onStateChange(submission);
+        }
+        return submission;
+    }
+}
+
+module.exports = { JudgeQueue };
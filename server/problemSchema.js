@@ -0,0 +1,139 @@
+const Ajv = require('ajv');
+
+// --- 题目格式（JSON Schema）---
+// 新增、修改、导入题目时都按此校验；version / updatedAt 由服务器维护，客户端传入会被忽略。
+// 这是客户端提交的格式：测试数据一律内联为字符串，较大的数据由 problemStore 保存时转成文件引用
+
+const CHECKER_TYPES = ['exact', 'tokens', 'lines', 'float', 'unordered', 'special'];
+
+// sample：公开给学生的样例；hidden：只用于评测，公开接口不返回输入和期望输出
+const TEST_CASE_VISIBILITIES = ['sample', 'hidden'];
+
+const MAX_PROBLEM_ID_LENGTH = 64;
+
+const testCaseSchema = {
+    type: 'object',
+    required: ['input', 'expected'],
+    properties: {
+        input: { type: 'string' },
+        expected: { type: 'string' },
+        visibility: { enum: TEST_CASE_VISIBILITIES }   // 缺省为 sample
+    },
+    additionalProperties: false
+};
+
+const checkerSchema = {
+    oneOf: [
+        // 字符串简写（special 必须提供源码，不能简写）
+        { type: 'string', enum: CHECKER_TYPES.filter(t => t !== 'special') },
+        {
+            type: 'object',
+            required: ['type'],
+            properties: {
+                type: { enum: CHECKER_TYPES },
+                absEpsilon: { type: 'number', minimum: 0 },
+                relEpsilon: { type: 'number', minimum: 0 },
+                unit: { enum: ['lines', 'tokens'] },
+                source: { type: 'string' }
+            },
+            additionalProperties: false,
+            if: { properties: { type: { const: 'special' } } },
+            then: { required: ['source'], properties: { source: { type: 'string', minLength: 1 } } }
+        }
+    ]
+};
+
+// 参考解：出题时用来校验 / 改写期望输出，不会返回给学生
+const referenceSolutionSchema = {
+    type: 'object',
+    required: ['language', 'code'],
+    properties: {
+        language: { type: 'string', minLength: 1 },   // VS Code 语言 id，如 csharp
+        code: { type: 'string', minLength: 1 }
+    },
+    additionalProperties: false
+};
+
+// 对拍用的输入生成器（格式见 src/stressTest.ts）：按字段描述生成，或运行生成器程序
+const boundSchema = { anyOf: [{ type: 'integer' }, { type: 'string', minLength: 1 }] };   // 数字或前面 int 字段的 name
+const lengthSchema = {
+    anyOf: [
+        boundSchema,
+        { type: 'object', required: ['min', 'max'], properties: { min: boundSchema, max: boundSchema }, additionalProperties: false }
+    ]
+};
+const intFieldSchema = {
+    type: 'object',
+    required: ['type', 'min', 'max'],
+    properties: { type: { const: 'int' }, name: { type: 'string' }, min: boundSchema, max: boundSchema },
+    additionalProperties: false
+};
+const stringFieldSchema = {
+    type: 'object',
+    required: ['type', 'length'],
+    properties: { type: { const: 'string' }, name: { type: 'string' }, length: lengthSchema, alphabet: { type: 'string', minLength: 1 } },
+    additionalProperties: false
+};
+const arrayFieldSchema = {
+    type: 'object',
+    required: ['type', 'length', 'item'],
+    properties: { type: { const: 'array' }, name: { type: 'string' }, length: lengthSchema, item: { oneOf: [intFieldSchema, stringFieldSchema] } },
+    additionalProperties: false
+};
+const generatorSchema = {
+    oneOf: [
+        {
+            type: 'object',
+            required: ['type', 'fields'],
+            properties: {
+                type: { const: 'spec' },
+                fields: { type: 'array', minItems: 1, items: { oneOf: [intFieldSchema, stringFieldSchema, arrayFieldSchema] } }
+            },
+            additionalProperties: false
+        },
+        {
+            type: 'object',
+            required: ['type', 'source'],
+            properties: {
+                type: { const: 'program' },
+                language: { type: 'string', minLength: 1 },   // 缺省为 csharp
+                source: { type: 'string', minLength: 1 },     // 从标准输入读入 "<seed> <size>"，输出一组测试输入
+                maxSize: { type: 'integer', minimum: 1 }
+            },
+            additionalProperties: false
+        }
+    ]
+};
+
+const PROBLEM_SCHEMA = {
+    type: 'object',
+    required: ['id', 'title', 'description', 'testCases'],
+    properties: {
+        id: { type: 'string', pattern: `^[A-Za-z0-9_-]{1,${MAX_PROBLEM_ID_LENGTH}}$` },
+        title: { type: 'string', minLength: 1, maxLength: 200 },
+        description: { type: 'string', minLength: 1 },
+        difficulty: { type: 'string', maxLength: 20 },   // 简单 / 中等 / 困难
+        testCases: { type: 'array', minItems: 1, items: testCaseSchema },
+        timeLimit: { type: 'number', exclusiveMinimum: 0 },   // 毫秒
+        memoryLimit: { type: 'number', exclusiveMinimum: 0 }, // MB
+        checker: checkerSchema,
+        referenceSolution: referenceSolutionSchema,
+        generator: generatorSchema,
+        version: { type: 'integer' },
+        updatedAt: { type: 'integer' }
+    },
+    additionalProperties: false
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validateProblemSchema = ajv.compile(PROBLEM_SCHEMA);
+
+// 校验题目，返回错误信息数组；合法时返回空数组
+function validateProblem(problem) {
+    if (validateProblemSchema(problem)) {
+        return [];
+    }
+    return validateProblemSchema.errors.map(error => `${error.instancePath || '(根)'} ${error.message}`);
+}
+
+module.exports = { PROBLEM_SCHEMA, CHECKER_TYPES, TEST_CASE_VISIBILITIES, MAX_PROBLEM_ID_LENGTH, validateProblem };
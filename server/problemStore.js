@@ -0,0 +1,365 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { MAX_PROBLEM_ID_LENGTH, validateProblem } = require('./problemSchema');
+
+// --- 题目存储：problems.json + 修订历史 ---
+// 每道题带 version（从 1 开始，每次修改 +1）和 updatedAt；修改 / 删除时必须带上当前 version（乐观并发控制），
+// 版本不一致说明别人已经改过，返回 409。每次变更把完整题目追加到 problems.revisions/<id>.jsonl。
+// 方法返回 { problem } 或 { error, status, details }，由路由直接转成 HTTP 响应。
+//
+// 测试数据：超过 SMARTCODER_INLINE_TESTDATA_LIMIT 字节（默认 4096）的输入 / 期望输出不内联在 problems.json 中，
+// 而是按内容哈希保存为 problems.testdata/<sha256>.txt，用例中记为 inputFile / expectedFile。
+// 文件内容不可变，修订历史中的旧版本引用的文件始终有效；get() 返回存储格式，getFull() 读回完整数据。
+
+const BUNDLE_FORMAT = 'smartcoder-problem-set';
+const BUNDLE_FORMAT_VERSION = 1;
+
+const INLINE_TEST_DATA_LIMIT = Number(process.env.SMARTCODER_INLINE_TESTDATA_LIMIT) || 4096;
+
+// 题目中由客户端提供的字段（version / updatedAt 由服务器维护）
+const EDITABLE_FIELDS = ['id', 'title', 'description', 'difficulty', 'testCases', 'timeLimit', 'memoryLimit', 'checker', 'referenceSolution', 'generator'];
+
+// 只保留可编辑字段，去掉 undefined；难度缺省为"中等"
+function pickEditable(input) {
+    const problem = {};
+    for (const field of EDITABLE_FIELDS) {
+        if (input[field] !== undefined && input[field] !== null) {
+            problem[field] = input[field];
+        }
+    }
+    if (problem.id !== undefined) {
+        problem.id = String(problem.id);
+    }
+    if (!problem.difficulty) {
+        problem.difficulty = '中等';
+    }
+    return problem;
+}
+
+class ProblemStore {
+    constructor(filePath) {
+        this.filePath = filePath;
+        this.revisionsDir = path.join(path.dirname(filePath), 'problems.revisions');
+        this.testDataDir = path.join(path.dirname(filePath), 'problems.testdata');
+        this.problems = [];
+    }
+
+    // 从文件加载题目；文件不存在时写入默认题目。旧文件中没有 version 的题目视为版本 1，下次修改时写回
+    load(defaults) {
+        try {
+            if (fs.existsSync(this.filePath)) {
+                this.problems = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+                console.log(`[Server] 从文件加载了 ${this.problems.length} 道题目`);
+            } else {
+                this.problems = JSON.parse(JSON.stringify(defaults));
+                this._save();
+                console.log(`[Server] 创建了默认题目文件，包含 ${this.problems.length} 道题目`);
+            }
+        } catch (error) {
+            console.error('[Server] 初始化题目数据库失败:', error);
+            // 出错时使用默认题目（不覆盖损坏的文件，方便手动修复）
+            this.problems = JSON.parse(JSON.stringify(defaults));
+        }
+        for (const problem of this.problems) {
+            if (!Number.isInteger(problem.version)) {
+                problem.version = 1;
+            }
+        }
+        this._checkTestData();
+    }
+
+    // 启动时检查 problems.json 引用的测试数据文件，缺失时明确报出是哪道题（否则要等到评测时才失败）
+    _checkTestData() {
+        for (const problem of this.problems) {
+            const missing = (problem.testCases || [])
+                .flatMap(tc => [tc.inputFile, tc.expectedFile])
+                .filter(name => name && !fs.existsSync(path.join(this.testDataDir, name)));
+            if (missing.length > 0) {
+                console.error(`[Server] 题目 ${problem.id} 引用的 ${missing.length} 个测试数据文件缺失（problems.testdata/${missing[0]} 等），评测这道题会失败`);
+            }
+        }
+    }
+
+    list() {
+        return this.problems;
+    }
+
+    // 存储格式（大的测试数据为文件引用）
+    get(id) {
+        return this.problems.find(p => p.id === String(id)) || null;
+    }
+
+    // 完整题目（测试数据全部读回为字符串），用于评测、教师查看和导出
+    getFull(id) {
+        const problem = this.get(id);
+        return problem ? this.resolve(problem) : null;
+    }
+
+    resolve(problem) {
+        return { ...problem, testCases: problem.testCases.map(tc => this._resolveTestCase(tc)) };
+    }
+
+    // 给学生看的题目：隐藏用例只保留位置（评测结果中的用例编号仍然对得上），不返回输入和期望输出；
+    // 不返回参考解、checker（Special Judge 源码）和 generator（据此可以重现对拍的输入）
+    publicView(problem) {
+        const { referenceSolution, checker, generator, ...rest } = problem;
+        return {
+            ...rest,
+            testCases: problem.testCases.map(tc => tc.visibility === 'hidden'
+                ? { visibility: 'hidden' }
+                : { ...this._resolveTestCase(tc), visibility: 'sample' })
+        };
+    }
+
+    create(input, author) {
+        const problem = pickEditable(input);
+        const errors = validateProblem(problem);
+        if (errors.length > 0) {
+            return { status: 400, error: '题目格式不正确', details: errors };
+        }
+        if (this.get(problem.id)) {
+            return { status: 409, error: `题目 ${problem.id} 已存在，请使用 PUT /api/problems/${problem.id} 修改` };
+        }
+
+        problem.testCases = this._storeTestCases(problem.testCases);
+        problem.version = this._nextVersion(problem.id);
+        problem.updatedAt = Date.now();
+        this.problems.push(problem);
+        this._save();
+        this._recordRevision(problem, 'created', author);
+        console.log(`[Server] 新增题目: ${problem.id} - ${problem.title}`);
+        return { problem };
+    }
+
+    // 修改题目：expectedVersion 必须等于当前版本
+    update(id, input, expectedVersion, author) {
+        const index = this.problems.findIndex(p => p.id === String(id));
+        if (index < 0) {
+            return { status: 404, error: 'Problem not found' };
+        }
+        const current = this.problems[index];
+        const conflict = this._checkVersion(current, expectedVersion);
+        if (conflict) {
+            return conflict;
+        }
+
+        const problem = pickEditable({ ...input, id: current.id });
+        const errors = validateProblem(problem);
+        if (errors.length > 0) {
+            return { status: 400, error: '题目格式不正确', details: errors };
+        }
+
+        problem.testCases = this._storeTestCases(problem.testCases);
+        problem.version = current.version + 1;
+        problem.updatedAt = Date.now();
+        this.problems[index] = problem;
+        this._save();
+        this._recordRevision(problem, 'updated', author);
+        console.log(`[Server] 更新题目: ${problem.id} - ${problem.title}（版本 ${problem.version}）`);
+        return { problem };
+    }
+
+    // 删除题目：传入 expectedVersion 时校验版本；修订历史保留，便于找回
+    remove(id, expectedVersion, author) {
+        const index = this.problems.findIndex(p => p.id === String(id));
+        if (index < 0) {
+            return { status: 404, error: 'Problem not found' };
+        }
+        const current = this.problems[index];
+        if (expectedVersion !== undefined) {
+            const conflict = this._checkVersion(current, expectedVersion);
+            if (conflict) {
+                return conflict;
+            }
+        }
+
+        this.problems.splice(index, 1);
+        this._save();
+        this._recordRevision(current, 'deleted', author);
+        console.log(`[Server] 删除题目: ${current.id} - ${current.title}`);
+        return { problem: current };
+    }
+
+    // 某道题的修订历史（包括已删除的题目），按版本升序
+    revisions(id) {
+        const file = this._revisionFile(id);
+        if (!file || !fs.existsSync(file)) {
+            return [];
+        }
+        return fs.readFileSync(file, 'utf8')
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line));
+    }
+
+    // 导出题目集（包含隐藏用例，测试数据全部内联）：ids 为空时导出全部
+    exportBundle(ids) {
+        const problems = ids && ids.length > 0
+            ? this.problems.filter(p => ids.includes(p.id))
+            : this.problems;
+        return {
+            format: BUNDLE_FORMAT,
+            formatVersion: BUNDLE_FORMAT_VERSION,
+            exportedAt: new Date().toISOString(),
+            problems: problems.map(p => pickEditable(this.resolve(p)))
+        };
+    }
+
+    // 导入题目集。mode：skip（已存在的题目跳过，默认）/ overwrite（覆盖为新版本）/ rename（以新 id 导入）
+    // 先校验全部题目，有任何错误则整体不导入
+    importBundle(bundle, mode, author) {
+        if (!bundle || bundle.format !== BUNDLE_FORMAT || !Array.isArray(bundle.problems)) {
+            return { status: 400, error: `不是有效的题目集文件（format 必须为 ${BUNDLE_FORMAT}，并包含 problems 数组）` };
+        }
+        if (!['skip', 'overwrite', 'rename'].includes(mode)) {
+            return { status: 400, error: 'mode 只能是 skip / overwrite / rename' };
+        }
+
+        const incoming = bundle.problems.map(p => pickEditable(p));
+        const details = [];
+        incoming.forEach((problem, i) => {
+            for (const error of validateProblem(problem)) {
+                details.push(`第 ${i + 1} 题（${problem.id || '无 id'}）: ${error}`);
+            }
+        });
+        if (details.length > 0) {
+            return { status: 400, error: '题目集中有格式不正确的题目，未导入任何题目', details };
+        }
+
+        const result = { created: [], updated: [], skipped: [] };
+        const now = Date.now();
+        for (const problem of incoming) {
+            problem.testCases = this._storeTestCases(problem.testCases);
+            const existing = this.get(problem.id);
+            if (existing && mode === 'skip') {
+                result.skipped.push(problem.id);
+                continue;
+            }
+            if (existing && mode === 'overwrite') {
+                Object.assign(problem, { version: existing.version + 1, updatedAt: now });
+                this.problems[this.problems.indexOf(existing)] = problem;
+                this._recordRevision(problem, 'imported', author);
+                result.updated.push(problem.id);
+                continue;
+            }
+            if (existing) {
+                problem.id = this._uniqueId(problem.id);
+            }
+            Object.assign(problem, { version: this._nextVersion(problem.id), updatedAt: now });
+            this.problems.push(problem);
+            this._recordRevision(problem, 'imported', author);
+            result.created.push(problem.id);
+        }
+        this._save();
+        console.log(`[Server] 导入题目集: 新增 ${result.created.length}，覆盖 ${result.updated.length}，跳过 ${result.skipped.length}`);
+        return result;
+    }
+
+    _checkVersion(current, expectedVersion) {
+        if (expectedVersion === undefined) {
+            return { status: 428, error: '修改题目需要提供当前版本号（If-Match 头或 version 字段）', currentVersion: current.version };
+        }
+        if (expectedVersion !== current.version) {
+            return { status: 409, error: `题目已被修改（当前版本 ${current.version}，你提交的版本 ${expectedVersion}），请刷新后重试`, currentVersion: current.version };
+        }
+        return null;
+    }
+
+    // 新建题目的版本号：同 id 的题目曾被删除时接着历史版本编号，避免修订记录中版本重复
+    _nextVersion(id) {
+        const history = this.revisions(id);
+        return history.length > 0 ? Math.max(...history.map(r => r.version)) + 1 : 1;
+    }
+
+    // 把较大的测试数据写成文件，返回存储格式的用例
+    _storeTestCases(testCases) {
+        return testCases.map(tc => {
+            const stored = {};
+            for (const [field, fileField] of [['input', 'inputFile'], ['expected', 'expectedFile']]) {
+                if (Buffer.byteLength(tc[field], 'utf8') > INLINE_TEST_DATA_LIMIT) {
+                    stored[fileField] = this._writeTestData(tc[field]);
+                } else {
+                    stored[field] = tc[field];
+                }
+            }
+            if (tc.visibility) {
+                stored.visibility = tc.visibility;
+            }
+            return stored;
+        });
+    }
+
+    _resolveTestCase(tc) {
+        const testCase = {
+            input: tc.inputFile ? this._readTestData(tc.inputFile) : tc.input,
+            expected: tc.expectedFile ? this._readTestData(tc.expectedFile) : tc.expected
+        };
+        if (tc.visibility) {
+            testCase.visibility = tc.visibility;
+        }
+        return testCase;
+    }
+
+    // 按内容哈希命名，相同数据只存一份
+    _writeTestData(content) {
+        const name = `${crypto.createHash('sha256').update(content, 'utf8').digest('hex')}.txt`;
+        const file = path.join(this.testDataDir, name);
+        if (!fs.existsSync(file)) {
+            fs.mkdirSync(this.testDataDir, { recursive: true });
+            fs.writeFileSync(`${file}.tmp`, content, 'utf8');
+            fs.renameSync(`${file}.tmp`, file);
+        }
+        return name;
+    }
+
+    _readTestData(name) {
+        if (!/^[a-f0-9]{64}\.txt$/.test(name)) {
+            throw new Error(`测试数据文件名不合法: ${name}`);
+        }
+        try {
+            return fs.readFileSync(path.join(this.testDataDir, name), 'utf8');
+        } catch (error) {
+            throw new Error(`测试数据文件缺失: problems.testdata/${name}`);
+        }
+    }
+
+    // 重名时加 -2、-3 ... 后缀；原 id 已接近长度上限时先截短，保证结果仍符合题目格式
+    _uniqueId(id) {
+        let suffix = 2;
+        const candidate = () => `${id.slice(0, MAX_PROBLEM_ID_LENGTH - String(suffix).length - 1)}-${suffix}`;
+        while (this.get(candidate())) {
+            suffix++;
+        }
+        return candidate();
+    }
+
+    _save() {
+        const tempFile = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempFile, JSON.stringify(this.problems, null, 2), 'utf8');
+        fs.renameSync(tempFile, this.filePath);
+    }
+
+    _revisionFile(id) {
+        // id 已经过 schema 校验；这里再防一次路径穿越
+        return /^[A-Za-z0-9_-]+$/.test(String(id)) ? path.join(this.revisionsDir, `${id}.jsonl`) : null;
+    }
+
+    _recordRevision(problem, action, author) {
+        const file = this._revisionFile(problem.id);
+        if (!file) {
+            return;
+        }
+        fs.mkdirSync(this.revisionsDir, { recursive: true });
+        const revision = {
+            version: problem.version,
+            action,   // created / updated / deleted / imported
+            author: author ? { id: author.id, username: author.username } : null,
+            timestamp: Date.now(),
+            problem
+        };
+        fs.appendFileSync(file, JSON.stringify(revision) + '\n', 'utf8');
+    }
+}
+
+module.exports = { ProblemStore };
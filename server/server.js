@@ -1,24 +1,77 @@
 const express = require('express');
 const cors = require('cors');
 const bodyParser = require('body-parser');
-const fs = require('fs');
 const path = require('path');
+const { SubmissionStore } = require('./submissionStore');
+const { UserStore, publicUser } = require('./userStore');
+const { JudgeQueue } = require('./judgeQueue');
+const { EventBus } = require('./eventBus');
+const { ProblemStore } = require('./problemStore');
+const { validateProblem } = require('./problemSchema');
 
 const app = express();
 const PORT = 3000;
 
 // 允许跨域（这很重要，否则网页和插件都连不上）
 app.use(cors());
-app.use(bodyParser.json());
+app.use(bodyParser.json({ limit: '20mb' }));   // 导入题目集时请求体可能较大
 
-// --- 核心逻辑：内存数据库 ---
-// 存储所有提交记录的数组，用于计算性能排名
-// 演示结束后重启服务器就会清空，非常适合大作业
-let submissions = [];
+// --- 核心逻辑：提交记录存储 ---
+// 所有提交记录追加写入 data/submissions.jsonl，重启服务器后趋势图和击败率不会丢失
+// 可用环境变量 SMARTCODER_DATA_DIR 指定数据目录
+const DATA_DIR = process.env.SMARTCODER_DATA_DIR || path.join(__dirname, 'data');
+const submissionStore = new SubmissionStore(path.join(DATA_DIR, 'submissions.jsonl'));
+submissionStore.load();
+
+// --- 用户与登录 ---
+// 插件通过 Authorization: Bearer <token> 提交，token 由 /api/login 或 /api/register 签发
+const userStore = new UserStore(path.join(DATA_DIR, 'users.json'));
+userStore.load();
+
+// 需要登录的接口使用的中间件：校验 token，并把用户挂到 req.user
+function authenticate(req, res, next) {
+    const match = (req.headers.authorization || '').match(/^Bearer\s+(\S+)$/i);
+    const user = match ? userStore.findByToken(match[1]) : null;
+    if (!user) {
+        return res.status(401).json({ error: '请先登录（token 无效或已过期）' });
+    }
+    req.user = user;
+    req.token = match[1];
+    next();
+}
+
+// EventSource 不能设置请求头：事件流的 token 也可以通过 ?token= 传递
+function authenticateEventStream(req, res, next) {
+    if (!req.headers.authorization && typeof req.query.token === 'string') {
+        req.headers.authorization = `Bearer ${req.query.token}`;
+    }
+    authenticate(req, res, next);
+}
+
+// 只有教师可以调用的接口，放在 authenticate 之后
+function requireTeacher(action) {
+    return (req, res, next) => {
+        if (req.user.role !== 'teacher') {
+            return res.status(403).json({ error: `只有教师可以${action}` });
+        }
+        next();
+    };
+}
+
+// 不强制登录的接口：带有效 token 时返回对应用户（用于记录操作者），否则返回 null
+function optionalUser(req) {
+    const match = (req.headers.authorization || '').match(/^Bearer\s+(\S+)$/i);
+    return match ? userStore.findByToken(match[1]) : null;
+}
 
 // --- 问题数据库（包含测试用例）---
 // 每个问题包含 id, title, description, testCases, difficulty
-// testCases 格式: [{ input: "1 2", expected: "3" }, ...]
+// testCases 格式: [{ input: "1 2", expected: "3", visibility: "sample" | "hidden" }, ...]
+//   visibility 缺省为 sample；hidden 用例只用于评测，不会通过公开接口返回给学生
+// 可选 timeLimit（毫秒）、memoryLimit（MB），插件端评测时按此限制运行
+// 可选 checker：输出比较方式，"exact" / "tokens" / "lines"（默认）/ { type: "float", absEpsilon, relEpsilon }
+//   / { type: "unordered", unit: "lines" | "tokens" } / { type: "special", source: "C# Special Judge 源码" }
+// version / updatedAt 由服务器维护，完整格式见 problemSchema.js
 // 定义数据文件路径
 const PROBLEMS_FILE = path.join(__dirname, 'problems.json');
 
@@ -45,7 +98,8 @@ const DEFAULT_PROBLEMS = [
             { input: "2 7 11 15\n9", expected: "0 1" },
             { input: "3 2 4\n6", expected: "1 2" },
             { input: "3 3\n6", expected: "0 1" }
-        ]
+        ],
+        checker: { type: "unordered", unit: "tokens" } // 两个下标的先后顺序不影响结果
     },
     {
         id: "103",
@@ -60,43 +114,32 @@ const DEFAULT_PROBLEMS = [
     }
 ];
 
-// 初始化问题数据库：从文件读取，如果不存在则创建默认文件
-let problemsDatabase = [];
+// 题目存储：修改时校验 JSON Schema（problemSchema.js）和版本号，修订历史保存在 problems.revisions/ 目录
+const problemStore = new ProblemStore(PROBLEMS_FILE);
+problemStore.load(DEFAULT_PROBLEMS);
 
-function initializeProblemsDatabase() {
-    try {
-        // 检查文件是否存在
-        if (fs.existsSync(PROBLEMS_FILE)) {
-            // 读取文件内容
-            const fileContent = fs.readFileSync(PROBLEMS_FILE, 'utf8');
-            problemsDatabase = JSON.parse(fileContent);
-            console.log(`[Server] 从文件加载了 ${problemsDatabase.length} 道题目`);
-        } else {
-            // 文件不存在，使用默认题目并写入文件
-            problemsDatabase = JSON.parse(JSON.stringify(DEFAULT_PROBLEMS));
-            fs.writeFileSync(PROBLEMS_FILE, JSON.stringify(problemsDatabase, null, 2), 'utf8');
-            console.log(`[Server] 创建了默认题目文件，包含 ${problemsDatabase.length} 道题目`);
-        }
-    } catch (error) {
-        console.error('[Server] 初始化题目数据库失败:', error);
-        // 出错时使用默认题目
-        problemsDatabase = JSON.parse(JSON.stringify(DEFAULT_PROBLEMS));
-    }
-}
+// --- 事件推送（SSE，GET /api/events）---
+const eventBus = new EventBus();
 
-// 保存题目到文件
-function saveProblemsToFile() {
-    try {
-        fs.writeFileSync(PROBLEMS_FILE, JSON.stringify(problemsDatabase, null, 2), 'utf8');
-        console.log(`[Server] 题目已保存到文件，当前共 ${problemsDatabase.length} 道题目`);
-    } catch (error) {
-        console.error('[Server] 保存题目到文件失败:', error);
-        throw error;
-    }
+// 广播提交状态变化；事件流不需要登录，所以事件中不带代码，代码通过需要登录的 /api/submissions/:id 读取
+function publishSubmission(submission) {
+    const { code, ...summary } = submission;
+    eventBus.publish('submission', summary, { problemId: submission.problemId, userId: submission.userId });
 }
 
-// 启动时初始化
-initializeProblemsDatabase();
+// 启动评测队列（SMARTCODER_JUDGE_CONCURRENCY：同时评测的提交数，默认 1，保证计时稳定）
+const judgeQueue = new JudgeQueue(submissionStore, {
+    findProblem: problemId => problemStore.getFull(problemId),
+    onStateChange: submission => publishSubmission(submission),
+    // 进度事件只带状态，用例的输入输出等详情通过 /api/submissions/:id 查询
+    onCaseResult: (submission, { input, expected, actual, stderr, ...summary }) => eventBus.publish('judge-progress',
+        { submissionId: submission.id, ...summary },
+        { problemId: submission.problemId, userId: submission.userId }),
+    onJudged: submission => rankJudgedSubmission(submission),
+    concurrency: Number(process.env.SMARTCODER_JUDGE_CONCURRENCY) || 1,
+    parallelism: Number(process.env.SMARTCODER_JUDGE_PARALLELISM) || 0
+});
+judgeQueue.recover();
 
 // 计算击败率：返回当前值击败了多少百分比的历史记录
 // 对于 runtime：越小越好（击败了更大值的）
@@ -126,90 +169,259 @@ function calculateBeatPercentage(value, allValues, isBetterLower = true) {
     return Math.round((beatCount / validValues.length) * 100);
 }
 
-// 1. 接收来自 VS Code 的提交（包含性能数据）
-app.post('/api/submit', (req, res) => {
-    const { code, problemId, output, runtime, memory, timestamp, status, failedCase, errorMessage } = req.body;
-    console.log(`[Server] 收到来自 VS Code 的提交: 题目ID=${problemId}, 状态=${status || 'pending'}`);
-    
-    const currentRuntime = runtime !== undefined ? runtime : -1;
-    const currentMemory = memory !== undefined ? memory : -1;
-    
-    if (currentRuntime >= 0 && currentMemory >= 0) {
-        console.log(`[Server] 性能数据 - 运行时间: ${currentRuntime}ms, 内存: ${currentMemory} bytes`);
+// 收集其他用户在同一题目、同一语言下的最好成绩（每人只取 Accepted 提交中的最小运行时间 / 内存）
+function collectBestAccepted(problemId, language, excludeUserId) {
+    const bestByUser = new Map();
+    for (const s of submissionStore.query({ problemId, language })) {
+        if (s.status !== 'Accepted' || !s.userId || s.userId === excludeUserId) {
+            continue;
+        }
+        const best = bestByUser.get(s.userId) || { runtime: Infinity, memory: Infinity };
+        if (s.runtime >= 0) {
+            best.runtime = Math.min(best.runtime, s.runtime);
+        }
+        if (s.memory >= 0) {
+            best.memory = Math.min(best.memory, s.memory);
+        }
+        bestByUser.set(s.userId, best);
+    }
+    const bests = Array.from(bestByUser.values());
+    return {
+        runtimes: bests.map(b => b.runtime).filter(Number.isFinite),
+        memories: bests.map(b => b.memory).filter(Number.isFinite)
+    };
+}
+
+const MAX_STATS_PAGE_SIZE = 500;
+
+// 解析时间查询参数：缺省返回 undefined，非法返回 null
+function parseTimeParam(value) {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+}
+
+// 0. ✨ 注册 / 登录
+app.post('/api/register', (req, res) => {
+    const { username, password, displayName } = req.body;
+    const result = userStore.register(username, password, displayName);
+    if (result.error) {
+        return res.status(400).json({ error: result.error });
     }
+    console.log(`[Server] 新用户注册: ${result.user.username} (${result.user.role})`);
+    res.json(result);
+});
+
+app.post('/api/login', (req, res) => {
+    const { username, password } = req.body;
+    const result = userStore.login(username, password);
+    if (result.error) {
+        return res.status(401).json({ error: result.error });
+    }
+    res.json(result);
+});
+
+app.post('/api/logout', authenticate, (req, res) => {
+    userStore.logout(req.token);
+    res.json({ status: 'ok' });
+});
+
+app.get('/api/me', authenticate, (req, res) => {
+    res.json(publicUser(req.user));
+});
+
+// ✨ 教师查看所有学生及提交概况
+app.get('/api/users', authenticate, (req, res) => {
+    if (req.user.role !== 'teacher') {
+        return res.status(403).json({ error: '只有教师可以查看学生列表' });
+    }
+    res.json(userStore.users.map(user => {
+        const userSubmissions = submissionStore.query({ userId: user.id });
+        const solved = new Set(userSubmissions.filter(s => s.status === 'Accepted').map(s => s.problemId));
+        return { ...publicUser(user), submissionCount: userSubmissions.length, solvedCount: solved.size };
+    }));
+});
+
+// 1. 接收来自 VS Code 的提交，需要登录
+// ✨ 只接收代码：创建评测任务放入队列，评测结果由服务器产生（客户端传来的 status / runtime 等一律忽略）
+app.post('/api/submit', authenticate, (req, res) => {
+    const { code, problemId, language, timestamp, continueAfterFailure } = req.body;
+    if (typeof code !== 'string' || !code.trim()) {
+        return res.status(400).json({ error: '代码不能为空' });
+    }
+    console.log(`[Server] 收到 ${req.user.username} 的提交: 题目ID=${problemId}, 语言=${language || 'csharp'}`);
     
     // 创建新的提交记录
-    const newSubmission = {
+    const savedSubmission = submissionStore.add({
         code,
         problemId,
-        output: output || '',
-        runtime: currentRuntime,
-        memory: currentMemory,
+        userId: req.user.id, // ✨ 提交者
+        username: req.user.username,
+        language: language || 'csharp', // ✨ 提交语言（旧版插件只支持 C#）
         timestamp: timestamp || Date.now(),
-        status: status || 'pending', // ✨ 支持从 extension 传来的状态（Accepted/Wrong Answer等）
-        failedCase: failedCase, // ✨ 失败的测试用例编号
-        errorMessage: errorMessage, // ✨ 错误信息
+        judgeState: 'pending', // ✨ 评测状态：pending → compiling → running → judged
+        status: 'Pending',
+        output: '',
+        runtime: -1,
+        memory: -1,
+        caseResults: [],
+        continueAfterFailure: Boolean(continueAfterFailure), // ✨ 某个用例失败后仍运行其余用例
+        beatRuntimePct: null,
+        beatMemoryPct: null,
         submissionStatus: 'pending' // 待网页端处理（保留旧字段以兼容）
-    };
-    
-    // 将新提交添加到数组
-    submissions.push(newSubmission);
-    console.log(`[Server] 当前总提交数: ${submissions.length}`);
-    
-    // 计算性能排名（击败率）
-    // 获取所有历史提交的 runtime 和 memory 值（包括当前提交）
-    const allRuntimes = submissions.map(s => s.runtime);
-    const allMemories = submissions.map(s => s.memory);
-    
-    // 计算击败率
-    newSubmission.beatRuntimePct = calculateBeatPercentage(currentRuntime, allRuntimes, true);
-    newSubmission.beatMemoryPct = calculateBeatPercentage(currentMemory, allMemories, true);
-    
-    if (newSubmission.beatRuntimePct !== null && newSubmission.beatMemoryPct !== null) {
-        console.log(`[Server] 性能排名 - 运行时间击败了 ${newSubmission.beatRuntimePct}% 的用户, 内存击败了 ${newSubmission.beatMemoryPct}% 的用户`);
-    }
+    });
+    publishSubmission(savedSubmission);
+    judgeQueue.enqueue(savedSubmission.id);
+    console.log(`[Server] 当前总提交数: ${submissionStore.count()}，排队位置: ${judgeQueue.position(savedSubmission.id)}`);
 
     res.json({ 
-        message: '提交成功，云端已接收',
-        beatRuntimePct: newSubmission.beatRuntimePct,
-        beatMemoryPct: newSubmission.beatMemoryPct
+        message: '提交成功，已加入评测队列',
+        submissionId: savedSubmission.id,
+        judgeState: savedSubmission.judgeState
     });
 });
 
-// 2. 网页端轮询接口：检查有没有新提交
-app.get('/api/check', (req, res) => {
-    // 返回最新的一条提交记录（如果存在）
-    if (submissions.length > 0) {
-        const latestSubmission = submissions[submissions.length - 1];
-        res.json(latestSubmission);
+// ✨ 查询评测任务状态（提交者本人或教师）
+app.get('/api/submissions/:id', authenticate, (req, res) => {
+    const submission = submissionStore.get(Number(req.params.id));
+    if (!submission) {
+        return res.status(404).json({ error: '提交不存在' });
+    }
+    if (submission.userId !== req.user.id && req.user.role !== 'teacher') {
+        return res.status(403).json({ error: '无权查看他人的提交' });
+    }
+    res.json({ ...submission, queuePosition: judgeQueue.position(submission.id) });
+});
+
+// ✨ 单独重跑某个用例：POST /api/submissions/:id/rerun { caseNumber }，结果直接返回，不写入提交记录
+app.post('/api/submissions/:id/rerun', authenticate, async (req, res) => {
+    const submission = submissionStore.get(Number(req.params.id));
+    if (!submission) {
+        return res.status(404).json({ error: '提交不存在' });
+    }
+    if (submission.userId !== req.user.id && req.user.role !== 'teacher') {
+        return res.status(403).json({ error: '无权重跑他人的提交' });
+    }
+    const caseNumber = Number(req.body.caseNumber);
+    if (!Number.isInteger(caseNumber) || caseNumber < 1) {
+        return res.status(400).json({ error: 'caseNumber 必须是正整数' });
+    }
+
+    try {
+        const result = await judgeQueue.rerunCase(submission, caseNumber);
+        if (!result.caseResults || result.caseResults.length === 0) {
+            return res.status(result.status === 'Compile Error' ? 422 : 404).json({ error: result.errorMessage || `用例 ${caseNumber} 不存在` });
+        }
+        res.json({ caseResult: result.caseResults[0] });
+    } catch (error) {
+        console.error('[Server] 重跑用例失败:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// 评测完成后计算性能排名（击败率）：只和其他用户在本题同语言下的最好 Accepted 成绩比较（包括当前提交），
+// 自己之前的提交不参与，不同语言的运行时间不可比
+function rankJudgedSubmission(submission) {
+    if (submission.status !== 'Accepted') {
+        return;
+    }
+    const others = collectBestAccepted(submission.problemId, submission.language, submission.userId);
+    const beatRuntimePct = calculateBeatPercentage(submission.runtime, others.runtimes.concat(submission.runtime), true);
+    const beatMemoryPct = calculateBeatPercentage(submission.memory, others.memories.concat(submission.memory), true);
+    submissionStore.update(submission.id, { beatRuntimePct, beatMemoryPct });
+
+    if (beatRuntimePct !== null && beatMemoryPct !== null) {
+        console.log(`[Server] 性能排名 - 运行时间击败了 ${beatRuntimePct}% 的用户, 内存击败了 ${beatMemoryPct}% 的用户`);
+    }
+}
+
+// 评测已完成的提交（旧版本记录没有 judgeState，视为已评测）
+const isJudged = submission => !submission.judgeState || submission.judgeState === 'judged';
+// 学生只能看到自己的提交，教师可以看到全部
+const isVisibleTo = (submission, user) => user.role === 'teacher' || submission.userId === user.id;
+
+// ✨ 事件流：GET /api/events?problemId=&userId=&since=<事件 id>，需要登录
+// 推荐使用该接口代替 /api/check 轮询；断线重连时 EventSource 会自动带上 Last-Event-ID 补发错过的事件
+app.get('/api/events', authenticateEventStream, (req, res) => {
+    // 提交和评测进度中有输出和用例结果：学生只能订阅自己的事件，教师可以订阅全部或按 userId 筛选
+    const requestedUserId = req.query.userId || undefined;
+    if (req.user.role !== 'teacher' && requestedUserId && requestedUserId !== req.user.id) {
+        return res.status(403).json({ error: '无权订阅他人的事件' });
+    }
+    const rawCursor = req.headers['last-event-id'] || req.query.since;
+    const cursor = rawCursor !== undefined && /^\d+$/.test(String(rawCursor)) ? Number(rawCursor) : undefined;
+    eventBus.subscribe(req, res, {
+        problemId: req.query.problemId || undefined,
+        userId: req.user.role === 'teacher' ? requestedUserId : req.user.id
+    }, cursor);
+});
+
+// 2. 网页端轮询接口：检查有没有新提交（旧接口，保留兼容；新代码请使用 /api/events）
+app.get('/api/check', authenticate, (req, res) => {
+    // 返回最新的一条已评测完成的提交记录（如果存在）；和事件流一样不带代码，学生只能看到自己的提交
+    const latest = submissionStore.latest(s => isJudged(s) && isVisibleTo(s, req.user));
+    if (latest) {
+        const { code, ...latestSubmission } = latest;
+        // 已读标记单独保存，不覆盖评测状态；对网页端仍以 status: 'read' 表示
+        res.json(latestSubmission.submissionStatus === 'read'
+            ? { ...latestSubmission, status: 'read' }
+            : latestSubmission);
     } else {
         res.json(null); // 没有新提交
     }
 });
 
 // 3. (可选) 网页端处理完后，标记为已读，避免重复弹窗
-app.post('/api/mark_read', (req, res) => {
-    if (submissions.length > 0) {
-        const latestSubmission = submissions[submissions.length - 1];
-        latestSubmission.status = 'read'; // 标记已读
+app.post('/api/mark_read', authenticate, (req, res) => {
+    const latestSubmission = submissionStore.latest(s => isJudged(s) && isVisibleTo(s, req.user));
+    if (latestSubmission) {
+        submissionStore.update(latestSubmission.id, { submissionStatus: 'read' }); // 标记已读
     }
     res.json({ status: 'ok' });
 });
 
 // 4. 获取提交历史统计和分布数据
 app.get('/api/stats', (req, res) => {
-    const problemId = req.query.problemId; // ✨ 支持按问题ID筛选
-    let filteredSubmissions = submissions;
-    
-    // 如果指定了 problemId，只返回该问题的提交
-    if (problemId) {
-        filteredSubmissions = submissions.filter(s => s.problemId === problemId);
+    // ✨ 支持按问题ID、用户ID、语言筛选，from / to 按时间范围筛选（毫秒时间戳或日期字符串）
+    const from = parseTimeParam(req.query.from);
+    const to = parseTimeParam(req.query.to);
+    if (from === null || to === null) {
+        return res.status(400).json({ error: 'from / to 必须是毫秒时间戳或合法的日期' });
     }
+
+    const filteredSubmissions = submissionStore.query({
+        problemId: req.query.problemId || undefined,
+        userId: req.query.userId || undefined, // ✨ 按学生筛选
+        language: req.query.language || undefined,
+        from,
+        to
+    });
     
     const validSubmissions = filteredSubmissions.filter(s => s.runtime >= 0 && s.memory >= 0);
     
     // ✨ 按时间排序，用于折线图
-    const sortedSubmissions = validSubmissions.sort((a, b) => a.timestamp - b.timestamp);
+    const sortedSubmissions = validSubmissions.slice().sort((a, b) => a.timestamp - b.timestamp);
+
+    // ✨ 分页：传入 page / pageSize 时只返回一页历史记录，第 1 页是最近的记录（页内仍按时间升序）
+    let historySubmissions = sortedSubmissions;
+    let pagination = null;
+    if (req.query.page !== undefined || req.query.pageSize !== undefined) {
+        const page = parseInt(req.query.page, 10) || 1;
+        const pageSize = parseInt(req.query.pageSize, 10) || 20;
+        if (page < 1 || pageSize < 1 || pageSize > MAX_STATS_PAGE_SIZE) {
+            return res.status(400).json({ error: `page 必须 >= 1，pageSize 必须在 1 到 ${MAX_STATS_PAGE_SIZE} 之间` });
+        }
+        const end = sortedSubmissions.length - (page - 1) * pageSize;
+        historySubmissions = sortedSubmissions.slice(Math.max(0, end - pageSize), Math.max(0, end));
+        pagination = {
+            page,
+            pageSize,
+            total: sortedSubmissions.length,
+            totalPages: Math.ceil(sortedSubmissions.length / pageSize)
+        };
+    }
     
     res.json({
         totalSubmissions: filteredSubmissions.length,
@@ -217,84 +429,200 @@ app.get('/api/stats', (req, res) => {
         runtimeDistribution: validSubmissions.map(s => s.runtime), // 保留用于兼容
         memoryDistribution: validSubmissions.map(s => s.memory / (1024 * 1024)), // 保留用于兼容
         // ✨ 新增：时间序列数据（用于折线图）
-        history: sortedSubmissions.map(s => ({
+        history: historySubmissions.map(s => ({
+            id: s.id,
             timestamp: s.timestamp,
             runtime: s.runtime,
             memory: s.memory / (1024 * 1024), // 转换为 MB
-            status: s.status || 'Accepted'
-        }))
+            status: s.status || 'Accepted',
+            language: s.language,
+            userId: s.userId,
+            username: s.username
+        })),
+        pagination
     });
 });
 
-// 5. ✨ 获取问题的测试用例
-app.get('/api/problem/:problemId', (req, res) => {
-    const problemId = req.params.problemId;
-    const problem = problemsDatabase.find(p => p.id === problemId);
-    
-    if (problem) {
-        res.json(problem);
-    } else {
-        res.status(404).json({ error: 'Problem not found' });
+// 把题目存储返回的错误转成 HTTP 响应
+function sendProblemError(res, result) {
+    const { status, ...body } = result;
+    res.status(status).json(body);
+}
+
+// 期望的版本号：优先取 If-Match 头（支持 "3" / W/"3"），其次取请求体或查询参数中的 version
+function expectedVersionOf(req) {
+    const header = req.headers['if-match'];
+    const raw = header !== undefined
+        ? header.replace(/^W\//, '').replace(/"/g, '').trim()
+        : (req.body && req.body.version !== undefined ? req.body.version : req.query.version);
+    if (raw === undefined || raw === '') {
+        return undefined;
     }
-});
+    const version = Number(raw);
+    return Number.isInteger(version) ? version : NaN;
+}
+
+function publishProblem(action, problem) {
+    eventBus.publish('problem', {
+        action,
+        id: problem.id,
+        title: problem.title,
+        difficulty: problem.difficulty || '中等',
+        version: problem.version
+    }, { problemId: problem.id });
+}
+
+// 5. ✨ 获取问题的测试用例（ETag 为当前版本号，修改时作为 If-Match 传回）
+// 教师看到完整题目；其他人只看到样例用例，隐藏用例不返回输入和期望输出
+function sendProblem(req, res) {
+    const problem = problemStore.get(req.params.problemId);
+    if (!problem) {
+        return res.status(404).json({ error: 'Problem not found' });
+    }
+    const user = optionalUser(req);
+    try {
+        res.set('ETag', `"${problem.version}"`);
+        res.json(user && user.role === 'teacher' ? problemStore.resolve(problem) : problemStore.publicView(problem));
+    } catch (error) {
+        console.error('[Server] 读取测试数据失败:', error);
+        res.status(500).json({ error: error.message });
+    }
+}
+
+app.get('/api/problem/:problemId', sendProblem);
 
 // 6. ✨ 获取所有问题列表（返回完整信息，包含标题和难度）
 app.get('/api/problems', (req, res) => {
-    res.json(problemsDatabase.map(p => ({ 
-        id: p.id, 
-        title: p.title, 
+    res.json(problemStore.list().map(p => ({
+        id: p.id,
+        title: p.title,
         description: p.description,
-        difficulty: p.difficulty || '中等'
+        difficulty: p.difficulty || '中等',
+        version: p.version
     })));
 });
 
-// 7. ✨ 新增题目接口
-app.post('/api/problems', (req, res) => {
-    const { id, title, description, testCases, difficulty } = req.body;
-    
-    // 验证必要字段
-    if (!id || !title || !description || !testCases || !Array.isArray(testCases) || testCases.length === 0) {
-        return res.status(400).json({ 
-            error: '题目数据不完整：必须包含 id, title, description 和 testCases（至少一个测试用例）' 
-        });
+// 7. ✨ 导出题目集：GET /api/problems/export?ids=101,102（缺省导出全部；包含隐藏用例，只有教师可以导出）
+app.get('/api/problems/export', authenticate, (req, res) => {
+    if (req.user.role !== 'teacher') {
+        return res.status(403).json({ error: '只有教师可以导出题目集' });
     }
-    
-    // 检查是否已存在相同 ID 的题目
-    const existingIndex = problemsDatabase.findIndex(p => p.id === id);
-    
-    if (existingIndex >= 0) {
-        // 更新已存在的题目
-        problemsDatabase[existingIndex] = {
-            id,
-            title,
-            description,
-            testCases,
-            difficulty: difficulty || '中等'
-        };
-        console.log(`[Server] 更新题目: ${id} - ${title}`);
-    } else {
-        // 添加新题目
-        problemsDatabase.push({
-            id,
-            title,
-            description,
-            testCases,
-            difficulty: difficulty || '中等'
+    const ids = req.query.ids ? String(req.query.ids).split(',').map(id => id.trim()).filter(Boolean) : [];
+    const bundle = problemStore.exportBundle(ids);
+    const date = new Date().toISOString().slice(0, 10);
+    res.set('Content-Disposition', `attachment; filename="smartcoder-problems-${date}.json"`);
+    res.json(bundle);
+});
+
+// 8. ✨ 导入题目集：POST /api/problems/import?mode=skip|overwrite|rename，请求体为导出的 JSON（只有教师可以导入）
+app.post('/api/problems/import', authenticate, requireTeacher('导入题目集'), (req, res) => {
+    const result = problemStore.importBundle(req.body, req.query.mode || 'skip', req.user);
+    if (result.error) {
+        return sendProblemError(res, result);
+    }
+    for (const id of result.created) {
+        publishProblem('created', problemStore.get(id));
+    }
+    for (const id of result.updated) {
+        publishProblem('updated', problemStore.get(id));
+    }
+    res.json({ message: '题目集导入完成', ...result });
+});
+
+// 9. ✨ 用参考解校验题目：POST /api/problems/verify-reference { problem, mode: "rewrite" | "filter" }
+// problem.referenceSolution 为 { language, code }；返回校验后的题目（不保存），参考解无法编译或没有用例保留时返回 422
+// 会在服务器上编译运行请求中的代码，只有教师可以调用
+app.post('/api/problems/verify-reference', authenticate, requireTeacher('校验参考解'), async (req, res) => {
+    const { problem, mode = 'rewrite' } = req.body;
+    const errors = problem ? validateProblem(problem) : ['缺少 problem'];
+    if (errors.length > 0) {
+        return res.status(400).json({ error: '题目格式不正确', details: errors });
+    }
+    if (!problem.referenceSolution) {
+        return res.status(400).json({ error: '缺少 referenceSolution（参考解）' });
+    }
+    if (!['rewrite', 'filter'].includes(mode)) {
+        return res.status(400).json({ error: 'mode 只能是 rewrite 或 filter' });
+    }
+
+    try {
+        const result = await judgeQueue.verifyReference(problem, mode);
+        if (!result.compiled) {
+            return res.status(422).json({ error: '参考解无法编译，题目已拒绝', details: [result.errorMessage] });
+        }
+        if (result.testCases.length === 0) {
+            return res.status(422).json({ error: '没有测试用例通过参考解校验，题目已拒绝', report: result.report });
+        }
+        console.log(`[Server] 参考解校验题目 ${problem.id}: 保留 ${result.testCases.length}/${problem.testCases.length} 个用例`);
+        res.json({ problem: { ...problem, testCases: result.testCases }, report: result.report });
+    } catch (error) {
+        console.error('[Server] 参考解校验失败:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.get('/api/problems/:problemId', sendProblem);
+
+// 10. ✨ 对拍：POST /api/stress { problemId, code, language, iterations?, seed? }，需要登录
+// 用题目的 generator 随机生成输入，比较学生代码与参考解的输出，返回缩小后的最小反例
+const MAX_STRESS_ITERATIONS = 1000;
+const stressingUsers = new Set();   // 正在对拍（排队或运行中）的用户 id
+
+app.post('/api/stress', authenticate, async (req, res) => {
+    const { problemId, code, language, iterations, seed } = req.body;
+    const problem = problemStore.getFull(problemId);
+    if (!problem) {
+        return res.status(404).json({ error: 'Problem not found' });
+    }
+    if (!problem.referenceSolution || !problem.generator) {
+        return res.status(400).json({ error: '这道题没有配置参考解和输入生成器，无法对拍' });
+    }
+    if (!code) {
+        return res.status(400).json({ error: '缺少 code' });
+    }
+
+    // 对拍在评测队列中运行，每个用户同时只能有一个，避免一个人占满队列
+    if (stressingUsers.has(req.user.id)) {
+        return res.status(429).json({ error: '上一次对拍还没有结束，请稍后再试' });
+    }
+
+    const count = Math.min(Math.max(1, Math.floor(Number(iterations)) || 200), MAX_STRESS_ITERATIONS);
+    console.log(`[Server] ${req.user.username} 对拍题目 ${problemId}: ${count} 组随机输入`);
+    stressingUsers.add(req.user.id);
+    try {
+        const result = await judgeQueue.stressTest(problem, code, language || 'csharp', {
+            iterations: count,
+            seed: Number.isInteger(seed) ? seed : undefined
         });
-        console.log(`[Server] 新增题目: ${id} - ${title}`);
+        res.json(result);
+    } catch (error) {
+        console.error('[Server] 对拍失败:', error);
+        res.status(500).json({ error: error.message });
+    } finally {
+        stressingUsers.delete(req.user.id);
     }
-    
-    // 同步写入文件
+});
+
+// 11. ✨ 新增题目（id 已存在时返回 409，修改请用 PUT；题目的增删改只有教师可以操作）
+app.post('/api/problems', authenticate, requireTeacher('新增题目'), (req, res) => {
     try {
-        saveProblemsToFile();
-        res.json({ 
+        const result = problemStore.create(req.body, req.user);
+        if (result.error) {
+            return sendProblemError(res, result);
+        }
+        publishProblem('created', result.problem);
+        res.set('ETag', `"${result.problem.version}"`);
+        res.status(201).json({
             message: '题目保存成功',
             problem: {
-                id,
-                title,
-                description,
-                difficulty: difficulty || '中等',
-                testCasesCount: testCases.length
+                id: result.problem.id,
+                title: result.problem.title,
+                description: result.problem.description,
+                difficulty: result.problem.difficulty,
+                timeLimit: result.problem.timeLimit,
+                memoryLimit: result.problem.memoryLimit,
+                version: result.problem.version,
+                testCasesCount: result.problem.testCases.length
             }
         });
     } catch (error) {
@@ -303,6 +631,59 @@ app.post('/api/problems', (req, res) => {
     }
 });
 
+// 12. ✨ 修改题目：必须通过 If-Match 头或 version 字段带上当前版本号，版本不一致返回 409
+app.put('/api/problems/:problemId', authenticate, requireTeacher('修改题目'), (req, res) => {
+    try {
+        const result = problemStore.update(req.params.problemId, req.body, expectedVersionOf(req), req.user);
+        if (result.error) {
+            return sendProblemError(res, result);
+        }
+        publishProblem('updated', result.problem);
+        res.set('ETag', `"${result.problem.version}"`);
+        res.json({ message: '题目修改成功', problem: result.problem });
+    } catch (error) {
+        console.error('[Server] 保存题目失败:', error);
+        res.status(500).json({ error: '保存题目到文件失败' });
+    }
+});
+
+// 13. ✨ 删除题目：带 If-Match 时校验版本；修订历史保留
+app.delete('/api/problems/:problemId', authenticate, requireTeacher('删除题目'), (req, res) => {
+    try {
+        const result = problemStore.remove(req.params.problemId, expectedVersionOf(req), req.user);
+        if (result.error) {
+            return sendProblemError(res, result);
+        }
+        publishProblem('deleted', result.problem);
+        res.json({ message: '题目已删除', id: result.problem.id, version: result.problem.version });
+    } catch (error) {
+        console.error('[Server] 删除题目失败:', error);
+        res.status(500).json({ error: '保存题目到文件失败' });
+    }
+});
+
+// 14. ✨ 题目修订历史：列表只返回摘要，指定版本时返回当时的完整题目
+app.get('/api/problems/:problemId/revisions', (req, res) => {
+    res.json(problemStore.revisions(req.params.problemId).map(({ problem, ...meta }) => ({
+        ...meta,
+        title: problem.title,
+        testCasesCount: problem.testCases.length
+    })));
+});
+
+// 历史版本包含隐藏用例，只有教师可以查看
+app.get('/api/problems/:problemId/revisions/:version', authenticate, (req, res) => {
+    if (req.user.role !== 'teacher') {
+        return res.status(403).json({ error: '只有教师可以查看题目的历史版本' });
+    }
+    const version = Number(req.params.version);
+    const revision = problemStore.revisions(req.params.problemId).find(r => r.version === version);
+    if (!revision) {
+        return res.status(404).json({ error: 'Revision not found' });
+    }
+    res.json({ ...revision, problem: problemStore.resolve(revision.problem) });
+});
+
 app.listen(PORT, () => {
     console.log(`🚀 后端服务器启动: http://localhost:${PORT}`);
 });
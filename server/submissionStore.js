@@ -0,0 +1,145 @@
+const fs = require('fs');
+const path = require('path');
+
+// --- 提交记录存储：追加写入的 JSONL 文件 ---
+// 每行是一条完整的提交记录；记录被修改时追加一行新版本（同一个 id），加载时以最后一行为准。
+// 启动时全部读入内存，并按题目、用户建立索引；旧版本过多时重写文件（压缩）。
+class SubmissionStore {
+    constructor(filePath) {
+        this.filePath = filePath;
+        this.submissions = [];           // 按提交顺序排列
+        this.byId = new Map();
+        this.byProblem = new Map();      // problemId -> 提交数组
+        this.byUser = new Map();         // userId -> 提交数组
+        this.nextId = 1;
+    }
+
+    // 从文件加载所有提交记录
+    load() {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+
+        const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+        let lineCount = 0;
+        lines.forEach((line, index) => {
+            if (!line.trim()) {
+                return;
+            }
+            lineCount++;
+            try {
+                this._put(JSON.parse(line));
+            } catch (error) {
+                // 进程崩溃时最后一行可能只写了一半，跳过即可
+                console.warn(`[Store] 跳过无法解析的第 ${index + 1} 行`);
+            }
+        });
+        console.log(`[Store] 从 ${path.basename(this.filePath)} 加载了 ${this.submissions.length} 条提交记录`);
+
+        if (lineCount > this.submissions.length * 2) {
+            this.compact();
+        }
+    }
+
+    // 添加一条提交，分配 id 并写入文件
+    add(submission) {
+        const record = { ...submission, id: this.nextId };
+        this._put(record);
+        this._append(record);
+        return record;
+    }
+
+    // 修改一条提交（追加新版本）
+    update(id, patch) {
+        const existing = this.byId.get(id);
+        if (!existing) {
+            return null;
+        }
+        Object.assign(existing, patch);
+        this._append(existing);
+        return existing;
+    }
+
+    get(id) {
+        return this.byId.get(id) || null;
+    }
+
+    // 最新的一条提交；传入 predicate 时返回满足条件的最新一条
+    latest(predicate) {
+        for (let i = this.submissions.length - 1; i >= 0; i--) {
+            if (!predicate || predicate(this.submissions[i])) {
+                return this.submissions[i];
+            }
+        }
+        return null;
+    }
+
+    count() {
+        return this.submissions.length;
+    }
+
+    // 按条件查询：{ problemId, userId, language, from, to }（from / to 为毫秒时间戳，闭区间）
+    query(filter = {}) {
+        let result = this.submissions;
+        // 先用索引缩小范围
+        if (filter.problemId !== undefined) {
+            result = this.byProblem.get(String(filter.problemId)) || [];
+        }
+        if (filter.userId !== undefined) {
+            const byUser = this.byUser.get(String(filter.userId)) || [];
+            result = result === this.submissions ? byUser : result.filter(s => s.userId === filter.userId);
+        }
+        if (filter.language !== undefined) {
+            result = result.filter(s => s.language === filter.language);
+        }
+        if (filter.from !== undefined) {
+            result = result.filter(s => s.timestamp >= filter.from);
+        }
+        if (filter.to !== undefined) {
+            result = result.filter(s => s.timestamp <= filter.to);
+        }
+        return result;
+    }
+
+    // 把每条记录的最新版本重写到文件，去掉旧版本
+    compact() {
+        const tempFile = `${this.filePath}.tmp`;
+        const content = this.submissions.map(s => JSON.stringify(s)).join('\n');
+        fs.writeFileSync(tempFile, content ? content + '\n' : '', 'utf8');
+        fs.renameSync(tempFile, this.filePath);
+        console.log(`[Store] 已压缩提交记录文件，当前共 ${this.submissions.length} 条`);
+    }
+
+    _put(record) {
+        const existing = this.byId.get(record.id);
+        if (existing) {
+            Object.assign(existing, record);
+            return;
+        }
+
+        this.byId.set(record.id, record);
+        this.submissions.push(record);
+        this._index(this.byProblem, record.problemId, record);
+        this._index(this.byUser, record.userId, record);
+        this.nextId = Math.max(this.nextId, record.id + 1);
+    }
+
+    _index(map, key, record) {
+        if (key === undefined || key === null) {
+            return;
+        }
+        const list = map.get(String(key));
+        if (list) {
+            list.push(record);
+        } else {
+            map.set(String(key), [record]);
+        }
+    }
+
+    _append(record) {
+        fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+    }
+}
+
+module.exports = { SubmissionStore };
@@ -0,0 +1,122 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// --- 用户存储：data/users.json ---
+// 密码用 scrypt 加盐哈希保存；登录后签发随机 token，文件里只保存 token 的 SHA-256
+const TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // token 有效期 30 天
+const USERNAME_PATTERN = /^[A-Za-z0-9_\-一-龥]{2,32}$/;
+const MIN_PASSWORD_LENGTH = 6;
+
+function hashPassword(password, salt) {
+    return crypto.scryptSync(password, salt, 64).toString('hex');
+}
+
+function hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// 返回给客户端的用户信息（不含密码和 token）
+function publicUser(user) {
+    return { id: user.id, username: user.username, displayName: user.displayName, role: user.role, createdAt: user.createdAt };
+}
+
+class UserStore {
+    constructor(filePath) {
+        this.filePath = filePath;
+        this.users = [];
+        this.tokens = [];   // { hash, userId, expiresAt }
+    }
+
+    load() {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+        const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        this.users = data.users || [];
+        this.tokens = (data.tokens || []).filter(t => t.expiresAt > Date.now());
+        console.log(`[Users] 加载了 ${this.users.length} 个用户`);
+    }
+
+    save() {
+        const tempFile = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempFile, JSON.stringify({ users: this.users, tokens: this.tokens }, null, 2), 'utf8');
+        fs.renameSync(tempFile, this.filePath);
+    }
+
+    // 注册新用户，返回错误信息或 { user, token }
+    register(username, password, displayName) {
+        if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+            return { error: '用户名需为 2-32 位字母、数字、下划线、短横线或汉字' };
+        }
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            return { error: `密码至少 ${MIN_PASSWORD_LENGTH} 位` };
+        }
+        if (this.findByUsername(username)) {
+            return { error: '用户名已存在' };
+        }
+
+        const salt = crypto.randomBytes(16).toString('hex');
+        const user = {
+            id: crypto.randomUUID(),
+            username,
+            displayName: typeof displayName === 'string' && displayName.trim() ? displayName.trim() : username,
+            role: this.users.length === 0 ? 'teacher' : 'student', // 第一个注册的用户作为教师
+            salt,
+            passwordHash: hashPassword(password, salt),
+            createdAt: Date.now()
+        };
+        this.users.push(user);
+        const token = this._issueToken(user);
+        this.save();
+        return { user: publicUser(user), token };
+    }
+
+    // 用户名密码登录，返回错误信息或 { user, token }
+    login(username, password) {
+        const user = typeof username === 'string' ? this.findByUsername(username) : null;
+        if (!user || typeof password !== 'string') {
+            return { error: '用户名或密码错误' };
+        }
+        const expected = Buffer.from(user.passwordHash, 'hex');
+        const actual = Buffer.from(hashPassword(password, user.salt), 'hex');
+        if (!crypto.timingSafeEqual(expected, actual)) {
+            return { error: '用户名或密码错误' };
+        }
+        const token = this._issueToken(user);
+        this.save();
+        return { user: publicUser(user), token };
+    }
+
+    logout(token) {
+        const hash = hashToken(token);
+        this.tokens = this.tokens.filter(t => t.hash !== hash);
+        this.save();
+    }
+
+    findByToken(token) {
+        const hash = hashToken(token);
+        const entry = this.tokens.find(t => t.hash === hash && t.expiresAt > Date.now());
+        return entry ? this.users.find(u => u.id === entry.userId) || null : null;
+    }
+
+    findByUsername(username) {
+        const lower = username.toLowerCase();
+        return this.users.find(u => u.username.toLowerCase() === lower) || null;
+    }
+
+    findById(id) {
+        return this.users.find(u => u.id === id) || null;
+    }
+
+    _issueToken(user) {
+        const token = crypto.randomBytes(32).toString('hex');
+        const now = Date.now();
+        this.tokens = this.tokens.filter(t => t.expiresAt > now);
+        this.tokens.push({ hash: hashToken(token), userId: user.id, expiresAt: now + TOKEN_TTL_MS });
+        return token;
+    }
+}
+
+module.exports = { UserStore, publicUser };
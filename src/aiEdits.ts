@@ -0,0 +1,170 @@
+// === AI 多处修改（edits） ===
+// AI 回复中除了 "code"，还可以带 "edits"：跨多个文件的多处修改，每处指定文件、位置（行范围或锚点原文）和新文本。
+// 这里只负责校验和把位置解析成文本偏移，不依赖 vscode；插件把解析结果合成一个 WorkspaceEdit，
+// 在重构预览中逐处确认，一次撤销全部修改。
+
+export interface AiEdit {
+    file: string;                                   // 工作区相对路径（或绝对路径）
+    range?: { startLine: number, endLine: number }; // 替换的行范围，从 1 开始，包含两端
+    anchor?: string;                                // 替换文件中这段原文（必须唯一）
+    newText: string;
+}
+
+// 没有 range 和 anchor 的修改替换整个文件；文件不存在时新建
+export interface ResolvedAiEdit {
+    edit: AiEdit;
+    start: number;
+    end: number;
+    wholeFile: boolean;
+}
+
+export interface AiEditFailure {
+    edit: AiEdit;
+    reason: string;
+}
+
+// 从 AI 的 JSON 中取出格式正确的修改，忽略其余项
+export function normalizeAiEdits(value: unknown): AiEdit[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const edits: AiEdit[] = [];
+    for (const item of value) {
+        if (!item || typeof item !== 'object' || typeof item.file !== 'string' || !item.file.trim() || typeof item.newText !== 'string') {
+            continue;
+        }
+        const edit: AiEdit = { file: item.file.trim(), newText: item.newText };
+        const startLine = Number(item.range?.startLine);
+        const endLine = Number(item.range?.endLine ?? item.range?.startLine);
+        if (Number.isInteger(startLine) && Number.isInteger(endLine)) {
+            edit.range = { startLine, endLine };
+        } else if (typeof item.anchor === 'string' && item.anchor.trim()) {
+            edit.anchor = item.anchor;
+        }
+        edits.push(edit);
+    }
+    return edits;
+}
+
+// 解析同一文件的所有修改（text 为 null 表示文件不存在），按位置排序；
+// 找不到位置或与前一处重叠的修改放进 failures，不影响其他修改
+export function resolveFileEdits(text: string | null, edits: AiEdit[]): { hunks: ResolvedAiEdit[], failures: AiEditFailure[] } {
+    const resolved: ResolvedAiEdit[] = [];
+    const failures: AiEditFailure[] = [];
+
+    for (const edit of edits) {
+        try {
+            resolved.push(resolveEdit(text, edit));
+        } catch (e: any) {
+            failures.push({ edit, reason: e.message });
+        }
+    }
+
+    resolved.sort((a, b) => a.start - b.start || a.end - b.end);
+    const hunks: ResolvedAiEdit[] = [];
+    for (const hunk of resolved) {
+        const previous = hunks[hunks.length - 1];
+        if (previous && (previous.wholeFile || hunk.wholeFile || hunk.start < previous.end)) {
+            failures.push({ edit: hunk.edit, reason: '与同一文件中的另一处修改重叠' });
+            continue;
+        }
+        hunks.push(hunk);
+    }
+    return { hunks, failures };
+}
+
+// 修改位置的简短描述，如 "第 3-5 行"
+export function describeAiEdit(edit: AiEdit): string {
+    if (edit.range) {
+        return edit.range.startLine === edit.range.endLine ? `第 ${edit.range.startLine} 行` : `第 ${edit.range.startLine}-${edit.range.endLine} 行`;
+    }
+    if (edit.anchor) {
+        const firstLine = edit.anchor.trim().split('\n')[0];
+        return `替换 "${firstLine.length > 30 ? firstLine.substring(0, 30) + '…' : firstLine}"`;
+    }
+    return '整个文件';
+}
+
+function resolveEdit(text: string | null, edit: AiEdit): ResolvedAiEdit {
+    if (text === null) {
+        if (edit.range || edit.anchor) {
+            throw new Error('文件不存在');
+        }
+        return { edit, start: 0, end: 0, wholeFile: true };
+    }
+    if (edit.range) {
+        return { edit, ...resolveLineRange(text, edit.range.startLine, edit.range.endLine), wholeFile: false };
+    }
+    if (edit.anchor) {
+        return { edit, ...resolveAnchor(text, edit.anchor), wholeFile: false };
+    }
+    return { edit, start: 0, end: text.length, wholeFile: true };
+}
+
+// 每行的起点偏移和去掉换行符后的终点偏移
+function lineOffsets(text: string): { start: number, end: number }[] {
+    const lines: { start: number, end: number }[] = [];
+    const pattern = /\r?\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        lines.push({ start, end: match.index });
+        start = match.index + match[0].length;
+    }
+    lines.push({ start, end: text.length });
+    return lines;
+}
+
+function resolveLineRange(text: string, startLine: number, endLine: number): { start: number, end: number } {
+    const lines = lineOffsets(text);
+    if (startLine < 1 || endLine < startLine || endLine > lines.length) {
+        throw new Error(`行范围 ${startLine}-${endLine} 超出文件（共 ${lines.length} 行）`);
+    }
+    return { start: lines[startLine - 1].start, end: lines[endLine - 1].end };
+}
+
+// 先精确匹配；找不到时忽略每行首尾空白再按行匹配（AI 经常改动缩进）
+function resolveAnchor(text: string, anchor: string): { start: number, end: number } {
+    const exact = findAll(text, anchor);
+    if (exact.length === 1) {
+        return { start: exact[0], end: exact[0] + anchor.length };
+    }
+    if (exact.length > 1) {
+        throw new Error(`锚点原文在文件中出现了 ${exact.length} 次`);
+    }
+
+    const anchorLines = anchor.split(/\r?\n/).map(line => line.trim());
+    while (anchorLines.length > 0 && anchorLines[0] === '') {
+        anchorLines.shift();
+    }
+    while (anchorLines.length > 0 && anchorLines[anchorLines.length - 1] === '') {
+        anchorLines.pop();
+    }
+    if (anchorLines.length === 0) {
+        throw new Error('锚点原文为空');
+    }
+
+    const lines = lineOffsets(text);
+    const trimmed = lines.map(line => text.substring(line.start, line.end).trim());
+    const matches: number[] = [];
+    for (let i = 0; i + anchorLines.length <= lines.length; i++) {
+        if (anchorLines.every((line, j) => trimmed[i + j] === line)) {
+            matches.push(i);
+        }
+    }
+    if (matches.length !== 1) {
+        throw new Error(matches.length === 0 ? '在文件中找不到锚点原文' : `锚点原文在文件中出现了 ${matches.length} 次`);
+    }
+    return { start: lines[matches[0]].start, end: lines[matches[0] + anchorLines.length - 1].end };
+}
+
+function findAll(text: string, search: string): number[] {
+    const result: number[] = [];
+    let index = text.indexOf(search);
+    while (index !== -1) {
+        result.push(index);
+        index = text.indexOf(search, index + 1);
+    }
+    return result;
+}
@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+
+// === AI 服务提供者抽象层 ===
+// 侧边栏对话、诊断修复、单元测试生成都通过这里访问模型，
+// 不再各自拼 fetch 请求、各自检查 Key、各自解析 JSON。
+
+export type AiProviderKind = 'deepseek' | 'openai-compatible' | 'local';
+
+export interface ChatMessage {
+    role: string;
+    content: string;
+}
+
+export interface ChatOptions {
+    jsonMode?: boolean;     // 要求模型返回 JSON 对象（response_format）
+    signal?: AbortSignal;   // 调用方取消请求
+}
+
+export interface AiProviderSettings {
+    kind: AiProviderKind;
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    temperature: number;
+    timeoutMs: number;
+}
+
+export interface AiProvider {
+    readonly settings: AiProviderSettings;
+    chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+    // 流式调用：每收到一段增量就回调 onDelta，结束后返回完整文本
+    chatStream(messages: ChatMessage[], onDelta: (delta: string, text: string) => void, options?: ChatOptions): Promise<string>;
+}
+
+// 各类服务的默认地址和模型（用户未配置 baseUrl / model 时使用）
+const PROVIDER_DEFAULTS: Record<AiProviderKind, { baseUrl: string; model: string }> = {
+    'deepseek': { baseUrl: 'https://api.deepseek.com', model: 'deepseek-chat' },
+    'openai-compatible': { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+    'local': { baseUrl: 'http://localhost:11434/v1', model: 'qwen2.5-coder:7b' }
+};
+
+// === OpenAI 兼容协议实现 ===
+// DeepSeek、OpenAI 以及 Ollama / llama.cpp 的 /v1 接口都遵循 /chat/completions 协议，
+// 区别只在地址、模型名和是否需要 Key。
+export class OpenAiCompatibleProvider implements AiProvider {
+    constructor(public readonly settings: AiProviderSettings) { }
+
+    public async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+        const { signal, timeoutSignal } = this._createSignal(options);
+        try {
+            const response = await this._post(messages, options, false, signal);
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({})) as any;
+                throw new Error(data.error?.message || `API Error (${response.status})`);
+            }
+
+            const data = await response.json().catch(() => ({})) as any;
+            const content = data.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') {
+                throw new Error('模型返回内容为空');
+            }
+            return content;
+        } catch (error: any) {
+            throw this._wrapError(error, options, timeoutSignal);
+        }
+    }
+
+    public async chatStream(messages: ChatMessage[], onDelta: (delta: string, text: string) => void, options: ChatOptions = {}): Promise<string> {
+        const { signal, timeoutSignal } = this._createSignal(options);
+        try {
+            const response = await this._post(messages, options, true, signal);
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({})) as any;
+                throw new Error(data.error?.message || `API Error (${response.status})`);
+            }
+            if (!response.body) {
+                throw new Error('模型返回内容为空');
+            }
+
+            // 解析 SSE：每个事件形如 "data: {...}"，以 "data: [DONE]" 结束
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            let text = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                // 流结束时取出解码器中剩余的字节，最后一行即使没有换行符也要处理
+                buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+                const lines = buffer.split('\n');
+                buffer = done ? '' : lines.pop() || '';
+
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (!trimmed.startsWith('data:')) {
+                        continue;
+                    }
+                    const payload = trimmed.substring(5).trim();
+                    if (payload === '[DONE]') {
+                        return text;
+                    }
+
+                    let chunk: any;
+                    try {
+                        chunk = JSON.parse(payload);
+                    } catch (e) {
+                        continue; // 忽略无法解析的事件（如心跳）
+                    }
+                    if (chunk.error) {
+                        throw new Error(chunk.error.message || 'API Error');
+                    }
+
+                    const delta = chunk.choices?.[0]?.delta?.content;
+                    if (typeof delta === 'string' && delta.length > 0) {
+                        text += delta;
+                        onDelta(delta, text);
+                    }
+                }
+                if (done) {
+                    return text;
+                }
+            }
+        } catch (error: any) {
+            throw this._wrapError(error, options, timeoutSignal);
+        }
+    }
+
+    protected async _post(messages: ChatMessage[], options: ChatOptions, stream: boolean, signal: AbortSignal): Promise<Response> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.settings.apiKey) {
+            headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+        }
+
+        const body: any = {
+            model: this.settings.model,
+            messages: messages,
+            temperature: this.settings.temperature,
+            stream: stream
+        };
+        if (options.jsonMode) {
+            body.response_format = { type: 'json_object' };
+        }
+
+        return fetch(`${this.settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: headers,
+            body: JSON.stringify(body),
+            signal: signal
+        });
+    }
+
+    // 超时和调用方取消共用一个 signal
+    private _createSignal(options: ChatOptions): { signal: AbortSignal; timeoutSignal: AbortSignal } {
+        const timeoutSignal = AbortSignal.timeout(this.settings.timeoutMs);
+        const signal = options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+        return { signal, timeoutSignal };
+    }
+
+    // 把网络层错误转换成可读的提示；调用方主动取消时原样抛出，便于上层识别
+    private _wrapError(error: any, options: ChatOptions, timeoutSignal: AbortSignal): Error {
+        if (options.signal?.aborted) {
+            return error;
+        }
+        if (timeoutSignal.aborted) {
+            return new Error(`请求超时（${this.settings.timeoutMs}ms）: ${this.settings.baseUrl}`);
+        }
+        if (this.settings.kind === 'local' && error instanceof TypeError) {
+            return new Error(`无法连接本地模型服务 ${this.settings.baseUrl}，请确认 Ollama / llama.cpp 已启动`);
+        }
+        return error;
+    }
+}
+
+// 读取 VS Code 设置，构造当前使用的模型服务
+// useLocalModel 来自侧边栏的 "Use Local Model" 开关，优先级高于 smartcoder.aiProvider
+export function createAiProvider(useLocalModel: boolean = false): AiProvider {
+    const config = vscode.workspace.getConfiguration('smartcoder');
+    const kind: AiProviderKind = useLocalModel ? 'local' : config.get<AiProviderKind>('aiProvider', 'deepseek');
+    const defaults = PROVIDER_DEFAULTS[kind] || PROVIDER_DEFAULTS['deepseek'];
+
+    let baseUrl: string;
+    let model: string;
+    let apiKey: string | undefined;
+
+    if (kind === 'local') {
+        baseUrl = config.get<string>('localBaseUrl') || defaults.baseUrl;
+        model = config.get<string>('localModel') || defaults.model;
+        apiKey = undefined;
+    } else {
+        baseUrl = config.get<string>('baseUrl') || defaults.baseUrl;
+        model = config.get<string>('model') || defaults.model;
+        apiKey = config.get<string>('apiKey');
+
+        if (!apiKey) {
+            throw new Error(kind === 'deepseek' ? '请先配置 DeepSeek API Key' : '请先配置 API Key');
+        }
+    }
+
+    return new OpenAiCompatibleProvider({
+        kind,
+        baseUrl,
+        model,
+        apiKey,
+        temperature: config.get<number>('temperature', 1),
+        timeoutMs: config.get<number>('timeout', 60000)
+    });
+}
+
+// 解析 { analysis, code } 格式的回复；模型没按要求返回 JSON 时，把原文当作分析文本
+export function parseAiJson(raw: string): { analysis: string; code: string | null; [key: string]: any } {
+    try {
+        return JSON.parse(raw.replace(/```json/g, '').replace(/```/g, '').trim());
+    } catch (e) {
+        return { analysis: raw, code: null };
+    }
+}
+
+// 从尚未结束的 JSON 流中取出 "analysis" 字段当前已生成的部分，用于边生成边显示
+// 模型没有按 JSON 返回时直接显示原文
+export function extractStreamingAnalysis(raw: string): string {
+    const text = raw.replace(/```json/g, '').trimStart();
+    if (!text.startsWith('{')) {
+        return raw;
+    }
+
+    const keyMatch = text.match(/"analysis"\s*:\s*"/);
+    if (!keyMatch || keyMatch.index === undefined) {
+        return '';
+    }
+
+    let result = '';
+    for (let i = keyMatch.index + keyMatch[0].length; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            break; // 字符串结束
+        }
+        if (char !== '\\') {
+            result += char;
+            continue;
+        }
+
+        const next = text[i + 1];
+        if (next === undefined) {
+            break; // 转义序列还没传完
+        }
+        if (next === 'u') {
+            const hex = text.substring(i + 2, i + 6);
+            if (hex.length < 4) {
+                break;
+            }
+            result += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+            continue;
+        }
+        const escapes: Record<string, string> = { 'n': '\n', 't': '\t', 'r': '\r', 'b': '\b', 'f': '\f' };
+        result += escapes[next] ?? next;
+        i++;
+    }
+    return result;
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import axios from 'axios';
+
+// === SmartCoder 账号登录 ===
+// 登录 / 注册后服务器签发 token，保存在 VS Code SecretStorage 中，提交时放进 Authorization 头。
+// 也可以在设置 smartcoder.authToken 中直接填写 token（如教师批量分发账号时）；两者都有时优先使用登录保存的 token，
+// 设置中的 token 被服务器拒绝后本次会话不再使用，重新登录即可恢复。
+
+export const SERVER_URL = 'http://localhost:3000';
+
+const TOKEN_SECRET_KEY = 'smartcoder.authToken';
+
+export interface SmartCoderUser {
+    id: string;
+    username: string;
+    displayName: string;
+    role: 'teacher' | 'student';
+}
+
+export class SmartCoderAuth {
+    private _rejectedConfiguredToken: string | undefined;  // 被服务器拒绝过的设置中的 token
+
+    constructor(private readonly _secrets: vscode.SecretStorage) { }
+
+    async getToken(): Promise<string | undefined> {
+        const stored = await this._secrets.get(TOKEN_SECRET_KEY);
+        if (stored) {
+            return stored;
+        }
+        const configured = this._configuredToken();
+        return configured && configured !== this._rejectedConfiguredToken ? configured : undefined;
+    }
+
+    // 带上 token 的请求头；未登录时返回空对象
+    async authHeaders(): Promise<Record<string, string>> {
+        const token = await this.getToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+    }
+
+    // 交互式登录或注册，成功返回用户信息，用户取消返回 undefined
+    async login(): Promise<SmartCoderUser | undefined> {
+        const action = await vscode.window.showQuickPick(['登录', '注册新账号'], { placeHolder: 'SmartCoder 账号' });
+        if (!action) {
+            return undefined;
+        }
+        const username = await vscode.window.showInputBox({ prompt: '用户名', ignoreFocusOut: true });
+        if (!username) {
+            return undefined;
+        }
+        const password = await vscode.window.showInputBox({ prompt: '密码', password: true, ignoreFocusOut: true });
+        if (!password) {
+            return undefined;
+        }
+
+        const endpoint = action === '登录' ? 'login' : 'register';
+        try {
+            const response = await axios.post(`${SERVER_URL}/api/${endpoint}`, { username, password });
+            const user: SmartCoderUser = response.data.user;
+            await this._secrets.store(TOKEN_SECRET_KEY, response.data.token);
+            vscode.window.showInformationMessage(`✅ 已登录 SmartCoder：${user.displayName}（${user.role === 'teacher' ? '教师' : '学生'}）`);
+            return user;
+        } catch (e: any) {
+            const message = e.response?.data?.error || e.message;
+            vscode.window.showErrorMessage(`${action}失败：${message}`);
+            return undefined;
+        }
+    }
+
+    async logout(): Promise<void> {
+        const headers = await this.authHeaders();
+        if (headers.Authorization) {
+            try {
+                await axios.post(`${SERVER_URL}/api/logout`, {}, { headers });
+            } catch (e) {
+                // 服务器不可用或 token 已失效时直接清除本地 token
+            }
+        }
+        await this.clearToken();
+        vscode.window.showInformationMessage('已退出 SmartCoder 账号');
+    }
+
+    // 清除当前使用的 token（退出登录或服务器返回 401 时）：保存的 token 直接删除，设置中的 token 标记为不再使用
+    async clearToken(): Promise<void> {
+        if (await this._secrets.get(TOKEN_SECRET_KEY)) {
+            await this._secrets.delete(TOKEN_SECRET_KEY);
+        } else {
+            this._rejectedConfiguredToken = this._configuredToken();
+        }
+    }
+
+    // 提交前确保已登录：未登录时提示登录，返回是否已有 token
+    async ensureLoggedIn(): Promise<boolean> {
+        if (await this.getToken()) {
+            return true;
+        }
+        const choice = await vscode.window.showWarningMessage('提交评测前请先登录 SmartCoder 账号', '登录 / 注册');
+        if (choice) {
+            return (await this.login()) !== undefined;
+        }
+        return false;
+    }
+
+    private _configuredToken(): string | undefined {
+        return vscode.workspace.getConfiguration('smartcoder').get<string>('authToken') || undefined;
+    }
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// === 用 dotnet build 检查编译错误 ===
+// 不依赖 vscode：自动修复在没有 C# 语言服务（或诊断不可靠）时，用真实的编译结果判断错误是否已经消失。
+
+export interface BuildError {
+    file: string;       // 绝对路径
+    line: number;       // 从 1 开始
+    column: number;
+    code: string;       // 如 CS0103
+    message: string;
+}
+
+const BUILD_TIMEOUT_MS = 120000;
+
+// 从源文件所在目录向上查找最近的 .csproj
+export function findCSharpProject(filePath: string): string | undefined {
+    let dir = path.dirname(filePath);
+    for (;;) {
+        const project = fs.readdirSync(dir).find(name => name.endsWith('.csproj'));
+        if (project) {
+            return path.join(dir, project);
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+// 解析 MSBuild 的错误行：<文件>(<行>,<列>): error <代码>: <信息> [<项目>]
+// dotnet build 会把每个错误输出两遍（过程中和汇总），这里去重
+export function parseBuildErrors(output: string, projectDir: string): BuildError[] {
+    const pattern = /^\s*(.+?)\((\d+),(\d+)(?:,\d+,\d+)?\):\s*error\s+([A-Za-z]+\d+):\s*(.*?)(?:\s+\[[^\]]*\])?\s*$/;
+    const seen = new Set<string>();
+    const errors: BuildError[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.match(pattern);
+        if (!match || seen.has(match[0].trim())) {
+            continue;
+        }
+        seen.add(match[0].trim());
+        errors.push({
+            file: path.resolve(projectDir, match[1]),
+            line: Number(match[2]),
+            column: Number(match[3]),
+            code: match[4],
+            message: match[5]
+        });
+    }
+    return errors;
+}
+
+// 编译项目，返回编译错误（编译成功时为空数组）
+export async function runDotnetBuild(projectPath: string): Promise<BuildError[]> {
+    const projectDir = path.dirname(projectPath);
+    try {
+        await execFileAsync('dotnet', ['build', projectPath, '-nologo', '-clp:NoSummary'], {
+            cwd: projectDir,
+            timeout: BUILD_TIMEOUT_MS,
+            maxBuffer: 1024 * 1024 * 10
+        });
+        return [];
+    } catch (buildError: any) {
+        if (buildError.code === 'ENOENT') {
+            throw new Error('未找到 dotnet 命令，请安装 .NET SDK：https://dotnet.microsoft.com/download');
+        }
+        const errors = parseBuildErrors(`${buildError.stdout || ''}\n${buildError.stderr || ''}`, projectDir);
+        if (errors.length === 0) {
+            throw new Error(`dotnet build 失败：\n${(buildError.stdout || buildError.stderr || buildError.message).trim()}`);
+        }
+        return errors;
+    }
+}
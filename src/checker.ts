@@ -0,0 +1,108 @@
+// === 输出比较器（Checker） ===
+// 题目可在 problems.json 中通过 checker 字段指定比较方式：
+//   "checker": "lines"                                            按行比较，忽略行尾空白和 CRLF/LF 差异（默认）
+//   "checker": "exact"                                            整体比较（只去掉首尾空白）
+//   "checker": "tokens"                                           按空白分词比较
+//   "checker": { "type": "float", "absEpsilon": 1e-6, "relEpsilon": 1e-6 }   数值按误差比较
+//   "checker": { "type": "unordered", "unit": "lines" | "tokens" }           忽略顺序比较
+//   "checker": { "type": "special", "source": "C# 代码" }                    自定义 Special Judge
+
+export type CheckerType = 'exact' | 'tokens' | 'lines' | 'float' | 'unordered' | 'special';
+
+export interface CheckerSpec {
+    type: CheckerType;
+    absEpsilon?: number;        // float：绝对误差
+    relEpsilon?: number;        // float：相对误差
+    unit?: 'lines' | 'tokens';  // unordered：按行还是按词忽略顺序
+    source?: string;            // special：C# 程序源码，运行参数为 <input文件> <expected文件> <actual文件>，退出码 0 表示通过
+}
+
+export interface CheckResult {
+    passed: boolean;
+    message: string;   // 不通过时的说明
+}
+
+export const CHECKER_TYPES: CheckerType[] = ['exact', 'tokens', 'lines', 'float', 'unordered', 'special'];
+
+const DEFAULT_EPSILON = 1e-6;
+
+// 把题目里的 checker 字段（字符串简写或对象）规范化；缺省为按行比较
+export function normalizeCheckerSpec(raw: unknown): CheckerSpec {
+    if (typeof raw === 'string' && (CHECKER_TYPES as string[]).includes(raw)) {
+        return { type: raw as CheckerType };
+    }
+    if (raw && typeof raw === 'object' && (CHECKER_TYPES as string[]).includes((raw as any).type)) {
+        return raw as CheckerSpec;
+    }
+    return { type: 'lines' };
+}
+
+function splitLines(text: string): string[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd());
+    // 去掉末尾空行
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+function splitTokens(text: string): string[] {
+    return text.split(/\s+/).filter(token => token.length > 0);
+}
+
+function preview(text: string): string {
+    return text.length > 100 ? text.substring(0, 100) + '...' : text;
+}
+
+function compareSequences(expected: string[], actual: string[], unitName: string, equals: (e: string, a: string) => boolean = (e, a) => e === a): CheckResult {
+    const count = Math.min(expected.length, actual.length);
+    for (let i = 0; i < count; i++) {
+        if (!equals(expected[i], actual[i])) {
+            return { passed: false, message: `第 ${i + 1} ${unitName}不同: Expected '${preview(expected[i])}', Got '${preview(actual[i])}'` };
+        }
+    }
+    if (expected.length !== actual.length) {
+        return { passed: false, message: `数量不同: Expected ${expected.length} ${unitName}, Got ${actual.length} ${unitName}` };
+    }
+    return { passed: true, message: '' };
+}
+
+function floatEquals(expected: string, actual: string, absEpsilon: number, relEpsilon: number): boolean {
+    const e = Number(expected);
+    const a = Number(actual);
+    if (expected.trim() === '' || actual.trim() === '' || Number.isNaN(e) || Number.isNaN(a)) {
+        return expected === actual; // 非数字的词按原样比较
+    }
+    const diff = Math.abs(e - a);
+    return diff <= absEpsilon || diff <= relEpsilon * Math.abs(e);
+}
+
+// 运行内置比较器（special 需要编译运行 C# 程序，由评测流程单独处理）
+export function runBuiltinChecker(spec: CheckerSpec, expected: string, actual: string): CheckResult {
+    switch (spec.type) {
+        case 'exact': {
+            const e = expected.trim();
+            const a = actual.trim();
+            return e === a
+                ? { passed: true, message: '' }
+                : { passed: false, message: `Expected '${preview(e)}', Got '${preview(a)}'` };
+        }
+        case 'tokens':
+            return compareSequences(splitTokens(expected), splitTokens(actual), '个词');
+        case 'float':
+            return compareSequences(splitTokens(expected), splitTokens(actual), '个数',
+                (e, a) => floatEquals(e, a, spec.absEpsilon ?? DEFAULT_EPSILON, spec.relEpsilon ?? DEFAULT_EPSILON));
+        case 'unordered': {
+            const split = spec.unit === 'tokens' ? splitTokens : (text: string) => splitLines(text).filter(line => line.length > 0);
+            const e = split(expected).sort();
+            const a = split(actual).sort();
+            const result = compareSequences(e, a, spec.unit === 'tokens' ? '个词' : '行');
+            return result.passed ? result : { passed: false, message: `忽略顺序后不一致（${result.message}）` };
+        }
+        case 'special':
+            throw new Error('special checker 需要通过 Special Judge 程序运行');
+        case 'lines':
+        default:
+            return compareSequences(splitLines(expected), splitLines(actual), '行');
+    }
+}
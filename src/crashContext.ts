@@ -0,0 +1,256 @@
+import { CSharpOutline, CSharpSymbolKind, parseCSharpOutline, symbolPathAt } from './csharpSyntax';
+import { StackFrame } from './stackTrace';
+
+// === 崩溃分析的代码上下文 ===
+// 不依赖 vscode：按调用栈收集相关代码，而不是把当前编辑器的整个文件发给 AI。
+// 每个用户代码栈帧取其所在的整个方法（C# 用 csharpSyntax 解析，其他语言取前后若干行），带文件中的真实行号并标出调用链经过的行。
+// 从崩溃位置开始按调用链顺序加入，总量不超过 token 预算：放不下的方法先缩小到栈帧附近的几行，仍然放不下就省略。
+
+export interface CrashSourceFile {
+    path: string;           // 显示用的路径（相对工作区）
+    languageId: string;
+    text: string;
+}
+
+export interface CrashFrameLocation {
+    frame: StackFrame;
+    file: CrashSourceFile;  // 同一文件的栈帧共用同一个对象
+}
+
+export interface CrashContext {
+    text: string;
+    tokens: number;
+    includedFrames: number;
+    omittedFrames: number;
+}
+
+const FRAME_CONTEXT_LINES = 8;      // 没有方法结构时，栈帧前后各取的行数
+const SHRUNK_CONTEXT_LINES = 3;     // 方法放不下时，缩小到栈帧前后各取的行数
+const MEMBER_KINDS: CSharpSymbolKind[] = ['method', 'constructor', 'property'];
+
+interface SourceInfo {
+    lines: string[];
+    lineStarts: number[];
+    outline?: CSharpOutline;
+}
+
+interface Snippet {
+    file: CrashSourceFile;
+    start: number;                      // 从 0 开始，包含
+    end: number;
+    member?: string;
+    marks: Map<number, number[]>;       // 行 → 经过这一行的栈帧序号（从 1 开始）
+}
+
+// 粗略估算 token 数：中日韩字符约 1 个 token，其余约 4 个字符 1 个 token
+export function estimateTokens(text: string): number {
+    const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+// 超出预算时保留开头和结尾的行（异常信息可能在开头，也可能在结尾），省略中间部分
+export function truncateToTokens(text: string, maxTokens: number): string {
+    if (estimateTokens(text) <= maxTokens) {
+        return text;
+    }
+    const lines = text.split(/\r?\n/);
+    const head: string[] = [];
+    const tail: string[] = [];
+    let used = 0;
+    let first = 0;
+    let last = lines.length - 1;
+    while (first <= last) {
+        const fromHead = head.length <= tail.length;
+        const line = fromHead ? lines[first] : lines[last];
+        const cost = estimateTokens(line) + 1;
+        if (used + cost > maxTokens) {
+            break;
+        }
+        used += cost;
+        if (fromHead) {
+            head.push(line);
+            first++;
+        } else {
+            tail.unshift(line);
+            last--;
+        }
+    }
+    return [...head, `…（省略 ${last - first + 1} 行）…`, ...tail].join('\n');
+}
+
+// 按调用链（locations[0] 是崩溃位置）收集相关方法
+export function buildCrashContext(locations: CrashFrameLocation[], maxTokens: number): CrashContext {
+    const sources = new Map<CrashSourceFile, SourceInfo>();
+    const snippets: Snippet[] = [];
+    locations.forEach(({ frame, file }, index) => {
+        let source = sources.get(file);
+        if (!source) {
+            source = analyzeSource(file);
+            sources.set(file, source);
+        }
+        const line = frame.line - 1;
+        if (line < 0 || line >= source.lines.length) {
+            return;  // 文件在运行之后被修改过，行号对不上
+        }
+
+        const range: { start: number, end: number, member?: string } = enclosingMember(source, line) ?? {
+            start: Math.max(0, line - FRAME_CONTEXT_LINES),
+            end: Math.min(source.lines.length - 1, line + FRAME_CONTEXT_LINES)
+        };
+        // 递归或同一方法中的多个栈帧合并到一段代码中
+        let snippet = snippets.find(s => s.file === file && s.start <= range.end && range.start <= s.end);
+        if (snippet) {
+            snippet.start = Math.min(snippet.start, range.start);
+            snippet.end = Math.max(snippet.end, range.end);
+        } else {
+            snippet = { file, start: range.start, end: range.end, member: range.member, marks: new Map() };
+            snippets.push(snippet);
+        }
+        snippet.marks.set(line, [...(snippet.marks.get(line) ?? []), index + 1]);
+    });
+
+    const parts = [renderChain(locations, Math.floor(maxTokens / 4)), '**相关代码（行号为文件中的实际行号，>> 标出调用链经过的行）：**'];
+    // 预留省略说明的位置
+    let used = estimateTokens(parts.join('\n\n')) + estimateTokens(omissionNote(locations.length)) + 2;
+    const included = new Set<number>();
+    for (const snippet of snippets) {
+        const source = sources.get(snippet.file)!;
+        const shrunk = mergeRanges([...snippet.marks.keys()].map(line => [
+            Math.max(snippet.start, line - SHRUNK_CONTEXT_LINES),
+            Math.min(snippet.end, line + SHRUNK_CONTEXT_LINES)
+        ]));
+        for (const ranges of [[[snippet.start, snippet.end]], shrunk]) {
+            const block = renderSnippet(snippet, source, ranges);
+            const cost = estimateTokens(block) + 1;
+            if (used + cost <= maxTokens) {
+                parts.push(block);
+                used += cost;
+                [...snippet.marks.values()].flat().forEach(frameNumber => included.add(frameNumber));
+                break;
+            }
+        }
+    }
+
+    const omittedFrames = locations.length - included.size;
+    if (omittedFrames > 0) {
+        parts.push(omissionNote(omittedFrames));
+    }
+    const text = parts.join('\n\n');
+    return { text, tokens: estimateTokens(text), includedFrames: included.size, omittedFrames };
+}
+
+// 堆栈中没有用户代码的栈帧时，退回到整个文件（超出预算时只取开头）
+export function buildFileContext(file: CrashSourceFile, maxTokens: number): CrashContext {
+    const source = analyzeSource(file);
+    const snippet: Snippet = { file, start: 0, end: source.lines.length - 1, marks: new Map() };
+    let end = snippet.end;
+    let block = renderSnippet(snippet, source, [[0, end]]);
+    while (end > 0 && estimateTokens(block) > maxTokens) {
+        // 按超出的比例缩短，避免逐行重试
+        end = Math.min(end - 1, Math.floor(end * maxTokens / estimateTokens(block)));
+        block = renderSnippet(snippet, source, [[0, end]]);
+    }
+    const note = end < snippet.end ? `\n\n（文件共 ${source.lines.length} 行，超出上下文预算，只包含前 ${end + 1} 行）` : '';
+    const text = `**源代码：**\n\n${block}${note}`;
+    return { text, tokens: estimateTokens(text), includedFrames: 0, omittedFrames: 0 };
+}
+
+function omissionNote(omittedFrames: number): string {
+    return `（另有 ${omittedFrames} 个栈帧的代码超出上下文预算或行号已失效，已省略）`;
+}
+
+function analyzeSource(file: CrashSourceFile): SourceInfo {
+    const lines = file.text.split('\n').map(line => line.replace(/\r$/, ''));
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of file.text.split('\n')) {
+        lineStarts.push(offset);
+        offset += line.length + 1;
+    }
+    return { lines, lineStarts, outline: file.languageId === 'csharp' ? parseCSharpOutline(file.text) : undefined };
+}
+
+// C#：包含该行的最内层方法 / 构造函数 / 属性
+function enclosingMember(source: SourceInfo, line: number): { start: number, end: number, member: string } | undefined {
+    if (!source.outline) {
+        return undefined;
+    }
+    const offset = source.lineStarts[line] + (source.lines[line].match(/^\s*/)?.[0].length ?? 0);
+    const member = symbolPathAt(source.outline.symbols, offset).reverse().find(s => MEMBER_KINDS.includes(s.kind));
+    if (!member) {
+        return undefined;
+    }
+    return { start: lineAt(source, member.start), end: lineAt(source, Math.max(member.start, member.end - 1)), member: member.name };
+}
+
+function lineAt(source: SourceInfo, offset: number): number {
+    let low = 0;
+    let high = source.lineStarts.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (source.lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+}
+
+function mergeRanges(ranges: number[][]): number[][] {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const merged: number[][] = [];
+    for (const range of sorted) {
+        const previous = merged[merged.length - 1];
+        if (previous && range[0] <= previous[1] + 1) {
+            previous[1] = Math.max(previous[1], range[1]);
+        } else {
+            merged.push([...range]);
+        }
+    }
+    return merged;
+}
+
+// 调用链摘要；连续重复的栈帧（递归）合并成一行，超出预算的部分只给出数量
+function renderChain(locations: CrashFrameLocation[], maxTokens: number): string {
+    const entries: string[] = [];
+    for (let i = 0; i < locations.length;) {
+        const { frame, file } = locations[i];
+        let repeat = 1;
+        while (i + repeat < locations.length
+            && locations[i + repeat].file === file && locations[i + repeat].frame.line === frame.line && locations[i + repeat].frame.method === frame.method) {
+            repeat++;
+        }
+        entries.push(`${i + 1}. ${frame.method ?? '（未知方法）'} — ${file.path}:${frame.line}${repeat > 1 ? `（连续 ${repeat} 次，递归）` : ''}`);
+        i += repeat;
+    }
+
+    const lines = ['**调用链（用户代码，从崩溃位置开始）：**'];
+    let used = estimateTokens(lines[0]);
+    for (const [index, entry] of entries.entries()) {
+        if (used + estimateTokens(entry) + 1 > maxTokens) {
+            lines.push(`…（另有 ${entries.length - index} 处调用）`);
+            break;
+        }
+        lines.push(entry);
+        used += estimateTokens(entry) + 1;
+    }
+    return lines.join('\n');
+}
+
+function renderSnippet(snippet: Snippet, source: SourceInfo, ranges: number[][]): string {
+    const width = String(ranges[ranges.length - 1][1] + 1).length;
+    const body = ranges.map(([start, end]) => {
+        const numbered: string[] = [];
+        for (let line = start; line <= end; line++) {
+            const marker = snippet.marks.has(line) ? '>>' : '  ';
+            numbered.push(`${marker}${String(line + 1).padStart(width)} | ${source.lines[line]}`);
+        }
+        return numbered.join('\n');
+    }).join(`\n${' '.repeat(width + 2)} ⋮\n`);
+
+    const first = ranges[0][0] + 1;
+    const last = ranges[ranges.length - 1][1] + 1;
+    const title = `// ${snippet.file.path} 第 ${first}-${last} 行${snippet.member ? ` · ${snippet.member}` : ''}`;
+    return `${title}\n\`\`\`${snippet.file.languageId}\n${body}\n\`\`\``;
+}
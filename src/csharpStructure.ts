@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { CSharpSymbol, CSharpSymbolKind, flattenSymbols, parseCSharpOutline, TYPE_KINDS } from './csharpSyntax';
+
+// === C# 结构服务 ===
+// 查找文档中的类 / 方法及其范围：优先使用 C# 扩展提供的文档符号（vscode.executeDocumentSymbolProvider），
+// 没有安装 C# 扩展、语言服务还没启动或超时时，退回到 csharpSyntax 的容错解析。
+// AI 返回的代码片段（还不在文档中）也用 csharpSyntax 解析。
+
+export interface StructureSymbol {
+    kind: CSharpSymbolKind;
+    name: string;
+    range: vscode.Range;
+    children: StructureSymbol[];
+}
+
+// 代码片段的类型：决定"应用代码"时替换文档中的哪一部分
+export interface SnippetKind {
+    type: 'class' | 'method' | 'full_file' | 'unknown';
+    name?: string;
+}
+
+const SYMBOL_PROVIDER_TIMEOUT_MS = 2000;
+
+const SYMBOL_KIND_MAP: Partial<Record<vscode.SymbolKind, CSharpSymbolKind>> = {
+    [vscode.SymbolKind.Namespace]: 'namespace',
+    [vscode.SymbolKind.Class]: 'class',
+    [vscode.SymbolKind.Struct]: 'struct',
+    [vscode.SymbolKind.Interface]: 'interface',
+    [vscode.SymbolKind.Enum]: 'enum',
+    [vscode.SymbolKind.Method]: 'method',
+    [vscode.SymbolKind.Function]: 'method',
+    [vscode.SymbolKind.Constructor]: 'constructor',
+    [vscode.SymbolKind.Property]: 'property'
+};
+
+const METHOD_KINDS: CSharpSymbolKind[] = ['method', 'constructor'];
+
+export class CSharpStructureService {
+    // 按文档版本缓存，同一版本只解析一次
+    private readonly _cache = new Map<string, { version: number, symbols: StructureSymbol[] }>();
+
+    async getSymbols(document: vscode.TextDocument): Promise<StructureSymbol[]> {
+        const key = document.uri.toString();
+        const cached = this._cache.get(key);
+        if (cached && cached.version === document.version) {
+            return cached.symbols;
+        }
+
+        const symbols = (await this._fromSymbolProvider(document)) ?? this._fromSyntax(document);
+        this._cache.set(key, { version: document.version, symbols });
+        return symbols;
+    }
+
+    // 查找类型（类 / 结构 / 记录 / 接口 / 枚举）声明的范围
+    async findTypeRange(document: vscode.TextDocument, name: string): Promise<vscode.Range | null> {
+        const symbol = flatten(await this.getSymbols(document)).find(s => TYPE_KINDS.includes(s.kind) && s.name === name);
+        return symbol ? symbol.range : null;
+    }
+
+    // 查找方法（或构造函数）声明的范围，重载时取第一个
+    async findMethodRange(document: vscode.TextDocument, name: string): Promise<vscode.Range | null> {
+        const symbol = flatten(await this.getSymbols(document)).find(s => METHOD_KINDS.includes(s.kind) && s.name === name);
+        return symbol ? symbol.range : null;
+    }
+
+    // 光标所在的最内层方法
+    async findMethodAt(document: vscode.TextDocument, position: vscode.Position): Promise<StructureSymbol | undefined> {
+        const path = symbolPath(await this.getSymbols(document), position);
+        return path.reverse().find(s => METHOD_KINDS.includes(s.kind));
+    }
+
+    // 包含 position 的命名空间和类型（从外到内）
+    async containersAt(document: vscode.TextDocument, position: vscode.Position): Promise<{ namespace: string, typeName: string }> {
+        const path = symbolPath(await this.getSymbols(document), position);
+        const namespaces = path.filter(s => s.kind === 'namespace').map(s => s.name);
+        const types = path.filter(s => TYPE_KINDS.includes(s.kind));
+        return { namespace: namespaces.join('.'), typeName: types.length > 0 ? types[types.length - 1].name : '' };
+    }
+
+    // 判断 AI 返回的代码片段是完整文件、一个类还是一个方法
+    describeSnippet(code: string): SnippetKind {
+        const outline = parseCSharpOutline(code);
+        const symbols = flattenSymbols(outline.symbols);
+        const hasType = symbols.some(s => TYPE_KINDS.includes(s.kind));
+
+        if ((outline.hasUsingDirectives && (hasType || outline.hasTopLevelStatements)) || symbols.some(s => s.kind === 'namespace')) {
+            return { type: 'full_file' };
+        }
+        const top = outline.symbols[0];
+        if (top && TYPE_KINDS.includes(top.kind)) {
+            return { type: 'class', name: top.name };
+        }
+        if (top && METHOD_KINDS.includes(top.kind)) {
+            return { type: 'method', name: top.name };
+        }
+        return { type: 'unknown' };
+    }
+
+    // 解析代码片段中第一个方法的签名（名称、返回类型、参数）
+    parseMethodSignature(code: string): CSharpSymbol | undefined {
+        return flattenSymbols(parseCSharpOutline(code).symbols).find(s => METHOD_KINDS.includes(s.kind));
+    }
+
+    private async _fromSymbolProvider(document: vscode.TextDocument): Promise<StructureSymbol[] | undefined> {
+        try {
+            const timeout = new Promise<undefined>(resolve => setTimeout(() => resolve(undefined), SYMBOL_PROVIDER_TIMEOUT_MS));
+            const result = await Promise.race([
+                vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>('vscode.executeDocumentSymbolProvider', document.uri),
+                timeout
+            ]);
+            if (!result || result.length === 0) {
+                return undefined;
+            }
+            // 旧式提供者返回扁平的 SymbolInformation，没有层级，按范围查找时同样可用
+            return result.flatMap(item => 'children' in item ? convertDocumentSymbol(item) : convertSymbolInformation(item));
+        } catch {
+            return undefined;
+        }
+    }
+
+    private _fromSyntax(document: vscode.TextDocument): StructureSymbol[] {
+        const convert = (symbol: CSharpSymbol): StructureSymbol => ({
+            kind: symbol.kind,
+            name: symbol.name,
+            range: new vscode.Range(document.positionAt(symbol.start), document.positionAt(symbol.end)),
+            children: symbol.children.map(convert)
+        });
+        return parseCSharpOutline(document.getText()).symbols.map(convert);
+    }
+}
+
+// C# 扩展的方法名可能带参数列表或泛型参数，如 Add(int, int)、Max<T>
+function normalizeSymbolName(name: string): string {
+    return name.replace(/[(<].*$/, '').trim();
+}
+
+function convertDocumentSymbol(symbol: vscode.DocumentSymbol): StructureSymbol[] {
+    const children = symbol.children.flatMap(convertDocumentSymbol);
+    const kind = SYMBOL_KIND_MAP[symbol.kind];
+    // 字段、事件等不关心的符号：只保留其下的子符号
+    return kind ? [{ kind, name: normalizeSymbolName(symbol.name), range: symbol.range, children }] : children;
+}
+
+function convertSymbolInformation(symbol: vscode.SymbolInformation): StructureSymbol[] {
+    const kind = SYMBOL_KIND_MAP[symbol.kind];
+    return kind ? [{ kind, name: normalizeSymbolName(symbol.name), range: symbol.location.range, children: [] }] : [];
+}
+
+function flatten(symbols: StructureSymbol[]): StructureSymbol[] {
+    return symbols.flatMap(symbol => [symbol, ...flatten(symbol.children)]);
+}
+
+// 包含 position 的符号（从外到内）；按范围嵌套排序，扁平的 SymbolInformation 也适用
+function symbolPath(symbols: StructureSymbol[], position: vscode.Position): StructureSymbol[] {
+    return flatten(symbols)
+        .filter(s => s.range.contains(position))
+        .sort((a, b) => a.range.isEqual(b.range) ? 0 : a.range.contains(b.range) ? -1 : 1);
+}
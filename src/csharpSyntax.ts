@@ -0,0 +1,581 @@
+// === C# 结构解析（容错分词 + 声明大纲） ===
+// 不依赖 vscode：插件在 C# 扩展不可用时用它查找类 / 方法，也用它解析 AI 返回的代码片段。
+// 只解析声明结构（命名空间、类型、成员），不解析方法体内的语句；
+// 字符串（普通 / 逐字 / 内插 / 原始字符串）、字符和注释作为整体跳过，其中的大括号不影响配对。
+// 代码不完整（缺少右括号、未闭合的字符串）时尽量给出结果，不抛异常。
+
+export type CSharpTokenKind = 'identifier' | 'number' | 'string' | 'char' | 'punct';
+
+export interface CSharpToken {
+    kind: CSharpTokenKind;
+    text: string;
+    start: number;   // 在源码中的偏移
+    end: number;
+}
+
+export type CSharpSymbolKind = 'namespace' | 'class' | 'struct' | 'interface' | 'record' | 'enum' | 'method' | 'constructor' | 'property';
+
+export interface CSharpParameter {
+    type: string;
+    name: string;
+}
+
+export interface CSharpSymbol {
+    kind: CSharpSymbolKind;
+    name: string;
+    start: number;              // 声明起点（包含特性和修饰符）
+    end: number;                // 声明终点（右大括号或分号之后）
+    bodyStart?: number;         // 方法体的 '{' 或表达式体的 '=>'；抽象 / 接口方法没有方法体
+    bodyEnd?: number;
+    expressionBodied?: boolean;
+    modifiers: string[];
+    returnType?: string;        // 方法 / 属性的类型（构造函数为空）
+    parameters?: CSharpParameter[];
+    children: CSharpSymbol[];
+}
+
+export interface CSharpOutline {
+    symbols: CSharpSymbol[];
+    hasUsingDirectives: boolean;
+    hasTopLevelStatements: boolean;   // C# 9 顶级语句（没有 Main 方法）
+}
+
+export const TYPE_KINDS: CSharpSymbolKind[] = ['class', 'struct', 'interface', 'record', 'enum'];
+
+const TYPE_KEYWORDS = new Set(['class', 'struct', 'interface', 'record', 'enum']);
+const MODIFIERS = new Set([
+    'public', 'private', 'protected', 'internal', 'file', 'static', 'abstract', 'sealed', 'virtual', 'override',
+    'readonly', 'async', 'extern', 'unsafe', 'new', 'partial', 'const', 'volatile', 'required', 'implicit', 'explicit'
+]);
+// 以这些关键字开头的是语句而不是声明（出现在顶级语句中）
+const STATEMENT_KEYWORDS = new Set([
+    'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'try', 'catch', 'finally', 'using', 'lock', 'fixed',
+    'checked', 'unchecked', 'return', 'throw', 'yield', 'await', 'goto', 'break', 'continue', 'var'
+]);
+const PARAMETER_MODIFIERS = new Set(['ref', 'out', 'in', 'params', 'this', 'scoped', 'readonly']);
+
+// === 分词 ===
+
+function isIdentifierStart(ch: string): boolean {
+    return /[A-Za-z_]/.test(ch) || ch > '\u007f';
+}
+
+function isIdentifierPart(ch: string): boolean {
+    return /[A-Za-z0-9_]/.test(ch) || ch > '\u007f';
+}
+
+// 跳过内插字符串中的 {表达式}，i 指向 '{' 之后，返回 '}' 之后的位置
+function skipInterpolationHole(code: string, i: number): number {
+    let depth = 1;
+    while (i < code.length) {
+        const ch = code[i];
+        if (ch === '"' || ((ch === '$' || ch === '@') && /^[$@]*"/.test(code.substring(i, i + 4)))) {
+            i = readString(code, i);
+            continue;
+        }
+        if (ch === '\'') {
+            i = readChar(code, i);
+            continue;
+        }
+        if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0) {
+                return i + 1;
+            }
+        }
+        i++;
+    }
+    return i;
+}
+
+// 读取一个字符串字面量（可带 $ / @ 前缀），返回结束位置；未闭合时到行尾（普通字符串）或文件末尾
+function readString(code: string, start: number): number {
+    let i = start;
+    let interpolated = false;
+    let verbatim = false;
+    while (code[i] === '$' || code[i] === '@') {
+        interpolated = interpolated || code[i] === '$';
+        verbatim = verbatim || code[i] === '@';
+        i++;
+    }
+
+    // 原始字符串："""...""" （至少三个引号，以相同数量的引号结束）
+    let quotes = 0;
+    while (code[i + quotes] === '"') {
+        quotes++;
+    }
+    if (quotes >= 3) {
+        const closing = '"'.repeat(quotes);
+        const end = code.indexOf(closing, i + quotes);
+        return end === -1 ? code.length : end + quotes;
+    }
+
+    i++;   // 开头的引号
+    while (i < code.length) {
+        const ch = code[i];
+        if (verbatim) {
+            if (ch === '"') {
+                if (code[i + 1] === '"') {
+                    i += 2;
+                    continue;
+                }
+                return i + 1;
+            }
+        } else {
+            if (ch === '\\') {
+                i += 2;
+                continue;
+            }
+            if (ch === '"') {
+                return i + 1;
+            }
+            if (ch === '\n') {
+                return i;
+            }
+        }
+        if (interpolated && ch === '{') {
+            if (code[i + 1] === '{') {
+                i += 2;
+                continue;
+            }
+            i = skipInterpolationHole(code, i + 1);
+            continue;
+        }
+        i++;
+    }
+    return i;
+}
+
+function readChar(code: string, start: number): number {
+    let i = start + 1;
+    while (i < code.length && code[i] !== '\'' && code[i] !== '\n') {
+        i += code[i] === '\\' ? 2 : 1;
+    }
+    return code[i] === '\'' ? i + 1 : i;
+}
+
+// 分词：跳过空白、注释和预处理指令
+export function tokenizeCSharp(code: string): CSharpToken[] {
+    const tokens: CSharpToken[] = [];
+    let lineStart = true;   // 当前位置之前本行只有空白（用于识别 #region 等预处理指令）
+    let i = 0;
+
+    while (i < code.length) {
+        const ch = code[i];
+
+        if (ch === '\n') {
+            lineStart = true;
+            i++;
+            continue;
+        }
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        if (ch === '/' && code[i + 1] === '/') {
+            const end = code.indexOf('\n', i);
+            i = end === -1 ? code.length : end;
+            continue;
+        }
+        if (ch === '/' && code[i + 1] === '*') {
+            const end = code.indexOf('*/', i + 2);
+            i = end === -1 ? code.length : end + 2;
+            continue;
+        }
+        if (ch === '#' && lineStart) {
+            const end = code.indexOf('\n', i);
+            i = end === -1 ? code.length : end;
+            continue;
+        }
+
+        lineStart = false;
+        const start = i;
+        if (ch === '"' || ((ch === '$' || ch === '@') && /^[$@]*"/.test(code.substring(i, i + 8)))) {
+            i = readString(code, i);
+            tokens.push({ kind: 'string', text: code.substring(start, i), start, end: i });
+        } else if (ch === '\'') {
+            i = readChar(code, i);
+            tokens.push({ kind: 'char', text: code.substring(start, i), start, end: i });
+        } else if (isIdentifierStart(ch) || (ch === '@' && isIdentifierStart(code[i + 1] || ''))) {
+            i++;
+            while (i < code.length && isIdentifierPart(code[i])) {
+                i++;
+            }
+            tokens.push({ kind: 'identifier', text: code.substring(start, i), start, end: i });
+        } else if (/[0-9]/.test(ch)) {
+            const match = /^[0-9][0-9A-Za-z_]*(\.[0-9][0-9A-Za-z_]*)?/.exec(code.substring(i, i + 64));
+            i += match![0].length;
+            tokens.push({ kind: 'number', text: code.substring(start, i), start, end: i });
+        } else {
+            // 只合并 =>（区分表达式体），其他符号逐个字符输出，泛型的 >> 也就自然拆成两个 >
+            i += (ch === '=' && code[i + 1] === '>') ? 2 : 1;
+            tokens.push({ kind: 'punct', text: code.substring(start, i), start, end: i });
+        }
+    }
+    return tokens;
+}
+
+// === 声明大纲 ===
+
+type Container = 'root' | 'namespace' | 'type';
+
+class OutlineParser {
+    private readonly _match: number[];   // 括号配对：( [ { 对应的右括号下标（未闭合时为最后一个 token）
+    hasUsingDirectives = false;
+    hasTopLevelStatements = false;
+
+    constructor(private readonly _code: string, private readonly _tokens: CSharpToken[]) {
+        this._match = new Array(_tokens.length).fill(-1);
+        const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+        const stack: number[] = [];
+        for (let i = 0; i < _tokens.length; i++) {
+            const text = _tokens[i].text;
+            if (text === '(' || text === '[' || text === '{') {
+                stack.push(i);
+            } else if (pairs[text]) {
+                // 容错：弹出到对应的左括号为止，跳过不配对的括号
+                const openIndex = stack.map(s => _tokens[s].text).lastIndexOf(pairs[text]);
+                if (openIndex !== -1) {
+                    this._match[stack[openIndex]] = i;
+                    stack.length = openIndex;
+                }
+            }
+        }
+        for (const open of stack) {
+            this._match[open] = _tokens.length - 1;
+        }
+    }
+
+    private _text(i: number): string {
+        return i < this._tokens.length ? this._tokens[i].text : '';
+    }
+
+    // 从 i 开始跳过一条语句（成组跳过括号），返回分号之后的下标
+    private _skipStatement(i: number, end: number): number {
+        while (i < end) {
+            const text = this._text(i);
+            if (text === ';') {
+                return i + 1;
+            }
+            if (text === '}') {
+                return i;   // 容错：语句没有分号就结束了
+            }
+            i = (text === '(' || text === '[' || text === '{') ? this._match[i] + 1 : i + 1;
+        }
+        return end;
+    }
+
+    parseMembers(start: number, end: number, container: Container, containerName: string): CSharpSymbol[] {
+        const symbols: CSharpSymbol[] = [];
+        let i = start;
+
+        while (i < end) {
+            // 找到声明头的结尾：{ ; => 或多余的 }
+            let j = i;
+            while (j < end) {
+                const text = this._text(j);
+                if (text === '{' || text === ';' || text === '=>' || text === '}') {
+                    break;
+                }
+                j = (text === '(' || text === '[') ? this._match[j] + 1 : j + 1;
+            }
+            if (j >= end) {
+                break;
+            }
+
+            const terminator = this._text(j);
+            if (terminator === '}') {
+                i = j + 1;
+                continue;
+            }
+            if (j === i) {
+                // 空声明（多余的分号）或独立的语句块
+                i = terminator === '{' ? this._match[j] + 1 : j + 1;
+                continue;
+            }
+
+            let symbol = this._classify(i, j, container, containerName);
+            if (symbol && terminator === ';' && container !== 'type' && (symbol.kind === 'method' || symbol.kind === 'constructor')) {
+                symbol = undefined;   // 类型外以分号结尾的"方法"其实是调用语句，如 Console.WriteLine(x);
+            }
+            const declStart = this._tokens[i].start;
+
+            if (!symbol) {
+                // 字段、初始化器、语句等：跳过整条
+                this._noteRootStatement(i, container);
+                i = terminator === '{' && !this._hasAssignment(i, j) ? this._match[j] + 1 : this._skipStatement(j, end);
+                continue;
+            }
+
+            if (symbol.kind === 'namespace' && terminator === ';') {
+                // 文件范围的命名空间：之后的所有声明都属于它
+                const bodyStart = j + 1;
+                symbol.children = this.parseMembers(bodyStart, end, 'namespace', symbol.name);
+                symbols.push({ ...symbol, start: declStart, end: this._tokens[end - 1]?.end ?? this._tokens[j].end });
+                i = end;
+                continue;
+            }
+
+            if (terminator === '{') {
+                const close = this._match[j];
+                const full: CSharpSymbol = {
+                    ...symbol,
+                    start: declStart,
+                    end: this._tokens[close].end,
+                    bodyStart: this._tokens[j].start,
+                    bodyEnd: this._tokens[close].end
+                };
+                if (symbol.kind === 'namespace') {
+                    full.children = this.parseMembers(j + 1, close, 'namespace', symbol.name);
+                } else if (symbol.kind !== 'enum' && TYPE_KINDS.includes(symbol.kind)) {
+                    full.children = this.parseMembers(j + 1, close, 'type', symbol.name);
+                }
+                symbols.push(full);
+                i = close + 1;
+            } else if (terminator === '=>') {
+                const next = this._skipStatement(j + 1, end);
+                const last = this._tokens[next - 1];
+                symbols.push({ ...symbol, start: declStart, end: last.end, bodyStart: this._tokens[j].start, bodyEnd: last.end, expressionBodied: true });
+                i = next;
+            } else {
+                // 以分号结尾：抽象 / 接口 / extern 方法、record 的主构造声明
+                symbols.push({ ...symbol, start: declStart, end: this._tokens[j].end });
+                i = j + 1;
+            }
+        }
+        return symbols;
+    }
+
+    // 声明头中（括号外）是否有赋值号：有则是字段初始化或语句
+    private _hasAssignment(start: number, end: number): boolean {
+        for (let i = start; i < end; i++) {
+            const text = this._text(i);
+            if (text === '=') {
+                return true;
+            }
+            if (text === '(' || text === '[') {
+                i = this._match[i];
+            }
+        }
+        return false;
+    }
+
+    private _noteRootStatement(start: number, container: Container) {
+        if (container !== 'root') {
+            return;
+        }
+        const first = this._text(start);
+        if (first === 'using' && this._text(start + 1) !== '(' && this._text(start + 1) !== 'var') {
+            this.hasUsingDirectives = true;
+        } else if (first === 'global' && this._text(start + 1) === 'using') {
+            this.hasUsingDirectives = true;
+        } else if (first !== 'extern' && !(first === '[' && this._text(start + 1) === 'assembly')) {
+            this.hasTopLevelStatements = true;
+        }
+    }
+
+    // 识别一个声明头 [start, end)；不是声明（字段、语句等）时返回 undefined
+    private _classify(start: number, end: number, container: Container, containerName: string): CSharpSymbol | undefined {
+        let k = start;
+        // 特性 [Attr(...)]
+        while (k < end && this._text(k) === '[') {
+            k = this._match[k] + 1;
+        }
+        const modifiers: string[] = [];
+        while (k < end && MODIFIERS.has(this._text(k)) && this._tokens[k].kind === 'identifier') {
+            modifiers.push(this._text(k));
+            k++;
+        }
+        if (k >= end) {
+            return undefined;
+        }
+
+        const first = this._text(k);
+        if (STATEMENT_KEYWORDS.has(first) || first === 'delegate' || first === 'event' || first === 'extern' || first === 'global') {
+            return undefined;
+        }
+        if (first === 'namespace') {
+            if (container === 'type') {
+                return undefined;
+            }
+            const name = this._tokens.slice(k + 1, end).map(t => t.text).join('');
+            return { kind: 'namespace', name, start: 0, end: 0, modifiers, children: [] };
+        }
+
+        // 第一个括号外的 '('（方法参数列表）
+        let paren = -1;
+        for (let i = k; i < end; i++) {
+            const text = this._text(i);
+            if (text === '(') {
+                paren = i;
+                break;
+            }
+            if (text === '[') {
+                i = this._match[i];
+            }
+        }
+
+        // 类型声明：类型关键字出现在参数列表之前（方法的 where T : class 约束在参数列表之后）
+        const headEnd = paren === -1 ? end : paren;
+        for (let i = k; i < headEnd; i++) {
+            const keyword = this._text(i);
+            if (TYPE_KEYWORDS.has(keyword) && this._tokens[i].kind === 'identifier') {
+                let nameIndex = i + 1;
+                if (keyword === 'record' && (this._text(nameIndex) === 'class' || this._text(nameIndex) === 'struct')) {
+                    nameIndex++;
+                }
+                const nameToken = this._tokens[nameIndex];
+                if (!nameToken || nameToken.kind !== 'identifier' || nameIndex >= end) {
+                    return undefined;
+                }
+                const kind = keyword as CSharpSymbolKind;
+                const parameters = kind === 'record' && paren !== -1 ? this._parseParameters(paren) : undefined;
+                return { kind, name: nameToken.text, start: 0, end: 0, modifiers, parameters, children: [] };
+            }
+        }
+
+        if (this._hasAssignment(k, headEnd)) {
+            return undefined;
+        }
+
+        if (paren !== -1) {
+            return this._classifyMethod(k, paren, modifiers, container, containerName);
+        }
+
+        // 属性 / 索引器：只出现在类型中，名称是括号外最后一个标识符
+        if (container !== 'type') {
+            return undefined;
+        }
+        let nameIndex = -1;
+        for (let i = k; i < end; i++) {
+            if (this._text(i) === '[') {
+                i = this._match[i];
+            } else if (this._tokens[i].kind === 'identifier') {
+                nameIndex = i;
+            }
+        }
+        if (nameIndex <= k) {
+            return undefined;
+        }
+        const returnType = this._code.substring(this._tokens[k].start, this._tokens[nameIndex - 1].end).trim();
+        return { kind: 'property', name: this._text(nameIndex), start: 0, end: 0, modifiers, returnType, children: [] };
+    }
+
+    private _classifyMethod(k: number, paren: number, modifiers: string[], container: Container, containerName: string): CSharpSymbol | undefined {
+        let name: string;
+        let nameIndex = paren - 1;
+
+        const operatorIndex = this._tokens.slice(k, paren).findIndex(t => t.text === 'operator');
+        if (operatorIndex !== -1) {
+            nameIndex = k + operatorIndex;
+            name = 'operator ' + this._tokens.slice(nameIndex + 1, paren).map(t => t.text).join('');
+        } else {
+            // 泛型方法：Name<T>(...)
+            if (this._text(nameIndex) === '>') {
+                let depth = 0;
+                for (; nameIndex >= k; nameIndex--) {
+                    const text = this._text(nameIndex);
+                    if (text === '>') {
+                        depth++;
+                    } else if (text === '<') {
+                        depth--;
+                        if (depth === 0) {
+                            break;
+                        }
+                    }
+                }
+                nameIndex--;
+            }
+            if (nameIndex < k || this._tokens[nameIndex].kind !== 'identifier') {
+                return undefined;
+            }
+            name = this._text(nameIndex);
+            if (this._text(nameIndex - 1) === '~') {
+                name = '~' + name;
+                nameIndex--;
+            }
+        }
+
+        const returnType = nameIndex > k ? this._code.substring(this._tokens[k].start, this._tokens[nameIndex - 1].end).trim() : '';
+        // 没有返回类型的是构造函数；在类型外（片段 / 顶级语句）调用形式的语句不是声明
+        const isConstructor = !returnType || name === containerName;
+        if (isConstructor && container === 'root' && modifiers.length === 0) {
+            return undefined;
+        }
+        return {
+            kind: isConstructor ? 'constructor' : 'method',
+            name,
+            start: 0,
+            end: 0,
+            modifiers,
+            returnType: isConstructor ? undefined : returnType,
+            parameters: this._parseParameters(paren),
+            children: []
+        };
+    }
+
+    // 解析参数列表（paren 为 '(' 的下标），逗号按括号和尖括号深度切分
+    private _parseParameters(paren: number): CSharpParameter[] {
+        const close = this._match[paren];
+        const groups: CSharpToken[][] = [[]];
+        let depth = 0;
+        for (let i = paren + 1; i < close; i++) {
+            const token = this._tokens[i];
+            if (token.text === '(' || token.text === '[' || token.text === '{' || token.text === '<') {
+                depth++;
+            } else if (token.text === ')' || token.text === ']' || token.text === '}' || token.text === '>') {
+                depth--;
+            } else if (token.text === ',' && depth === 0) {
+                groups.push([]);
+                continue;
+            }
+            groups[groups.length - 1].push(token);
+        }
+
+        const parameters: CSharpParameter[] = [];
+        for (let group of groups) {
+            // 去掉特性和默认值
+            while (group.length > 0 && group[0].text === '[') {
+                const close = group.findIndex(t => t.text === ']');
+                group = close === -1 ? [] : group.slice(close + 1);
+            }
+            const assign = group.findIndex(t => t.text === '=');
+            if (assign !== -1) {
+                group = group.slice(0, assign);
+            }
+            while (group.length > 0 && PARAMETER_MODIFIERS.has(group[0].text)) {
+                group = group.slice(1);
+            }
+            if (group.length < 2 || group[group.length - 1].kind !== 'identifier') {
+                continue;
+            }
+            const nameToken = group[group.length - 1];
+            parameters.push({
+                type: this._code.substring(group[0].start, group[group.length - 2].end).trim(),
+                name: nameToken.text
+            });
+        }
+        return parameters;
+    }
+}
+
+// 解析 C# 源码（完整文件或片段）的声明大纲
+export function parseCSharpOutline(code: string): CSharpOutline {
+    const tokens = tokenizeCSharp(code);
+    const parser = new OutlineParser(code, tokens);
+    const symbols = parser.parseMembers(0, tokens.length, 'root', '');
+    return { symbols, hasUsingDirectives: parser.hasUsingDirectives, hasTopLevelStatements: parser.hasTopLevelStatements };
+}
+
+// 按声明顺序展开所有符号（父在子前）
+export function flattenSymbols(symbols: CSharpSymbol[]): CSharpSymbol[] {
+    return symbols.flatMap(symbol => [symbol, ...flattenSymbols(symbol.children)]);
+}
+
+// 包含 offset 的符号链（从外到内）
+export function symbolPathAt(symbols: CSharpSymbol[], offset: number): CSharpSymbol[] {
+    const symbol = symbols.find(s => s.start <= offset && offset <= s.end);
+    return symbol ? [symbol, ...symbolPathAt(symbol.children, offset)] : [];
+}
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { createAiProvider, parseAiJson } from './aiProvider';
+
+// === AI 诊断修复 ===
+// 侧边栏（诊断树的"AI 修复"）和编辑器灯泡菜单（Ctrl+.）共用同一套 Prompt 和代码替换规则。
+
+export const DIAGNOSTIC_FIX_SYSTEM_PROMPT = `你是一个专业的代码修复专家，擅长 Automated Program Repair (APR，自动程序修复)。
+
+你的任务是：
+1. 仔细分析 LSP 诊断错误信息，理解错误的根本原因
+2. 提供精确的代码修复方案，只修复错误部分，不要改变其他无关代码
+3. 保持代码风格和缩进一致
+
+⚠️ 必须且只能返回 JSON 格式：{ "analysis": "Markdown格式的详细分析", "code": "修复后的代码片段（保持原缩进，可以是单行或多行）" }
+不要使用 markdown 代码块包裹 JSON。`;
+
+export interface DiagnosticFixPrompt {
+    prompt: string;
+    errorLineCode: string;
+    contextCode: string;
+}
+
+// 诊断修复的用户 Prompt：错误信息、出错的整行和前后各 5 行上下文
+export function buildDiagnosticFixPrompt(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, lineNumber: number): DiagnosticFixPrompt {
+    const languageId = document.languageId;
+    const startLine = Math.max(0, lineNumber - 5);
+    const endLine = Math.min(document.lineCount - 1, lineNumber + 5);
+    const contextLines: string[] = [];
+    for (let line = startLine; line <= endLine; line++) {
+        contextLines.push(document.lineAt(line).text);
+    }
+    const contextCode = contextLines.join('\n');
+    const errorLineCode = lineNumber < document.lineCount ? document.lineAt(lineNumber).text : '';
+
+    const prompt = `我正在修复一个编译错误（基于 LSP 诊断）。
+
+**文件类型：** ${languageId}
+**错误位置：** 第 ${lineNumber + 1} 行
+**错误信息：** ${diagnostic.message}
+**错误来源：** ${diagnostic.source || '未知'}
+
+**出错的代码行：**
+\`\`\`
+${errorLineCode}
+\`\`\`
+
+**上下文代码（包含错误行，前后各 5 行）：**
+\`\`\`${languageId}
+${contextCode}
+\`\`\`
+
+**错误范围：** 第 ${diagnostic.range.start.character + 1} 列 到 第 ${diagnostic.range.end.character + 1} 列
+
+请帮我：
+1. **分析错误原因**：详细解释为什么会出现这个编译错误。
+2. **提供修复方案**：给出修复后的代码（替换出错的整行，可以是单行或多行）。
+
+⚠️ 必须返回 JSON 格式：{ "analysis": "Markdown格式的分析文本", "code": "修复后的代码（替换出错的整行，保持原有缩进）" }`;
+
+    return { prompt, errorLineCode, contextCode };
+}
+
+// 修复代码替换诊断范围所在的整行（AI 返回的是修复后的整行），第一行沿用原行的缩进
+export function diagnosticFixEdit(document: vscode.TextDocument, range: vscode.Range, code: string): { range: vscode.Range, newText: string } {
+    const firstLine = document.lineAt(range.start.line);
+    const lastLine = document.lineAt(Math.min(range.end.line, document.lineCount - 1));
+    const leadingWhitespace = firstLine.text.match(/^\s*/)?.[0] || '';
+    return {
+        range: new vscode.Range(firstLine.range.start, lastLine.range.end),
+        newText: preserveIndentation(code, leadingWhitespace)
+    };
+}
+
+// 保留缩进辅助方法
+function preserveIndentation(code: string, baseIndent: string): string {
+    const lines = code.split('\n');
+    if (lines.length <= 1) {
+        // 单行代码，直接加上基础缩进
+        return baseIndent + code.trim();
+    }
+
+    // 多行代码：第一行加基础缩进，其他行保持相对缩进
+    const result = lines.map((line, index) => {
+        if (index === 0) {
+            return baseIndent + line.trimStart();
+        }
+        // 计算相对缩进（保留代码块内部的缩进结构）
+        const relativeIndent = line.match(/^\s*/)?.[0] || '';
+        return baseIndent + relativeIndent + line.trimStart();
+    });
+
+    return result.join('\n');
+}
+
+// === 灯泡菜单中的 "SmartCoder: AI 修复" ===
+// 列出快速修复时不调用 AI；学生选中（或预览）这一项时才在 resolveCodeAction 中请求 AI，把结果变成 WorkspaceEdit
+
+class AiFixCodeAction extends vscode.CodeAction {
+    constructor(
+        public readonly document: vscode.TextDocument,
+        public readonly diagnostic: vscode.Diagnostic,
+        public readonly documentVersion: number
+    ) {
+        super('SmartCoder: AI 修复', vscode.CodeActionKind.QuickFix);
+        this.diagnostics = [diagnostic];
+    }
+}
+
+export class AiQuickFixProvider implements vscode.CodeActionProvider<AiFixCodeAction> {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    constructor(private readonly _useLocalModel: () => boolean) { }
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): AiFixCodeAction[] {
+        return context.diagnostics.map(diagnostic => new AiFixCodeAction(document, diagnostic, document.version));
+    }
+
+    async resolveCodeAction(action: AiFixCodeAction, token: vscode.CancellationToken): Promise<AiFixCodeAction> {
+        const { document, diagnostic } = action;
+        if (document.isClosed || document.version !== action.documentVersion) {
+            vscode.window.showWarningMessage('文件在此之后被修改过，请重新打开快速修复菜单');
+            return action;
+        }
+
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+            const { prompt } = buildDiagnosticFixPrompt(document, diagnostic, diagnostic.range.start.line);
+            const raw = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'SmartCoder: AI 正在生成修复...', cancellable: false },
+                () => createAiProvider(this._useLocalModel()).chat([
+                    { role: 'system', content: DIAGNOSTIC_FIX_SYSTEM_PROMPT },
+                    { role: 'user', content: prompt }
+                ], { jsonMode: true, signal: controller.signal })
+            );
+            const aiJson = parseAiJson(raw);
+            if (!aiJson.code || aiJson.code.trim() === 'null') {
+                vscode.window.showWarningMessage('AI 没有给出修复代码');
+                return action;
+            }
+            // AI 请求期间文件被修改：不再应用，避免改到错误的位置
+            if (document.version !== action.documentVersion) {
+                vscode.window.showWarningMessage('AI 生成修复期间文件被修改，已放弃这次修复');
+                return action;
+            }
+
+            const fix = diagnosticFixEdit(document, diagnostic.range, aiJson.code);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, fix.range, fix.newText);
+        } catch (error: any) {
+            if (!token.isCancellationRequested) {
+                vscode.window.showErrorMessage(`AI 修复失败: ${error.message}`);
+            }
+        } finally {
+            cancellation.dispose();
+        }
+        return action;
+    }
+}
@@ -2,30 +2,45 @@ import * as vscode from 'vscode';
 import axios from 'axios';      // 引入网络库
 import * as cheerio from 'cheerio'; // 引入 HTML 解析库
 import * as path from 'path';   // 引入路径处理库
-import * as fs from 'fs';       // 引入文件系统库
-import * as os from 'os';       // 引入操作系统库
-import { exec, spawn } from 'child_process';  // 引入子进程库
-import { promisify } from 'util';  // 引入工具函数
-
-const execAsync = promisify(exec);
-
-// === 差异视图内容提供者 ===
-class DiffContentProvider implements vscode.TextDocumentContentProvider {
-    private _contentMap = new Map<string, string>();
-
-    provideTextDocumentContent(uri: vscode.Uri): string {
-        const content = this._contentMap.get(uri.toString());
-        return content || '';
-    }
-
-    updateContent(uri: vscode.Uri, content: string) {
-        this._contentMap.set(uri.toString(), content);
-        this._onDidChange.fire(uri);
-    }
+import { AiProvider, ChatMessage, createAiProvider, extractStreamingAnalysis, parseAiJson } from './aiProvider';  // AI 服务提供者
+import { getLanguageRunner, getSupportedLanguageIds } from './languageRunners';  // 语言运行器
+import { SERVER_URL, SmartCoderAuth } from './auth';  // 账号登录
+import { RunWithInputPanel } from './runPanel';  // 自定义输入运行面板
+import { CSharpStructureService } from './csharpStructure';  // C# 类 / 方法结构
+import { AiEdit, describeAiEdit, normalizeAiEdits, resolveFileEdits } from './aiEdits';  // AI 多处修改
+import { InlineReviewController } from './inlineReview';  // 行内审阅（CodeLens 接受 / 拒绝）
+import { diffTextRows } from './lineDiff';  // 期望 / 实际输出的逐行对比
+import { findCSharpProject, runDotnetBuild } from './buildCheck';  // dotnet build 检查
+import { AiQuickFixProvider, buildDiagnosticFixPrompt, DIAGNOSTIC_FIX_SYSTEM_PROMPT, diagnosticFixEdit } from './diagnosticFix';  // AI 诊断修复
+import { RUNTIME_ERROR_SOURCE_LABELS, RuntimeErrorCapture, RuntimeErrorLog } from './runtimeErrors';  // 运行时错误捕获
+import { frameFileName, StackFrame } from './stackTrace';  // 堆栈解析
+import { buildCrashContext, buildFileContext, CrashContext, CrashFrameLocation, CrashSourceFile, estimateTokens, truncateToTokens } from './crashContext';  // 崩溃分析的代码上下文
+
+// 评测队列轮询
+const JUDGE_POLL_INTERVAL_MS = 500;
+const JUDGE_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+const JUDGE_STATE_LABELS: Record<string, string> = {
+    pending: '⏳ 排队等待评测...',
+    compiling: '🔨 正在编译...',
+    running: '🏃 正在运行测试用例...'
+};
+
+// 对拍：服务器运行数百组随机输入并缩小反例，可能需要一两分钟
+const STRESS_TEST_ITERATIONS = 200;
+const STRESS_TEST_TIMEOUT_MS = 3 * 60 * 1000;
+
+// 自动修复：每次把剩余错误发回 AI 时使用的系统提示词
+const AUTO_REPAIR_SYSTEM_PROMPT = `你是一个专业的代码修复专家。上一次的修复应用后代码仍有错误，请结合上一次的尝试继续修复。
+只修改修复错误所需的行，保持代码风格和缩进一致，不要重复上一次已经失败的做法。
+
+⚠️ 必须且只能返回 JSON 格式：{ "analysis": "Markdown格式的分析", "code": null, "edits": [{ "range": { "startLine": 起始行, "endLine": 结束行 }, "newText": "替换这些行的新代码（包含缩进）" }] }
+行号与给出的代码中的行号一致，从 1 开始并包含两端；多处修改的行范围不能重叠。
+不要使用 markdown 代码块包裹 JSON。`;
 
-    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
-    onDidChange = this._onDidChange.event;
-}
+// 批量修复诊断：一次 AI 请求最多包含的诊断数、每个诊断前后附带的代码行数、应用后等待诊断刷新的时间
+const MAX_DIAGNOSTICS_PER_FIX = 20;
+const DIAGNOSTIC_CONTEXT_LINES = 5;
+const DIAGNOSTIC_RECHECK_TIMEOUT_MS = 5000;
 
 // === 诊断树节点 ===
 class DiagnosticTreeItem extends vscode.TreeItem {
@@ -39,7 +54,7 @@ class DiagnosticTreeItem extends vscode.TreeItem {
             vscode.TreeItemCollapsibleState.None
         );
 
-        this.description = this._getSeverityText(diagnostic.severity);
+        this.description = getSeverityText(diagnostic.severity);
         this.tooltip = `${diagnostic.message}\n来源: ${diagnostic.source || '未知'}\n点击跳转到错误位置`;
         this.contextValue = 'diagnostic';
         
@@ -59,21 +74,6 @@ class DiagnosticTreeItem extends vscode.TreeItem {
         };
     }
 
-    private _getSeverityText(severity: vscode.DiagnosticSeverity): string {
-        switch (severity) {
-            case vscode.DiagnosticSeverity.Error:
-                return '错误';
-            case vscode.DiagnosticSeverity.Warning:
-                return '警告';
-            case vscode.DiagnosticSeverity.Information:
-                return '信息';
-            case vscode.DiagnosticSeverity.Hint:
-                return '提示';
-            default:
-                return '';
-        }
-    }
-
     private _getSeverityIcon(severity: vscode.DiagnosticSeverity): vscode.ThemeIcon {
         switch (severity) {
             case vscode.DiagnosticSeverity.Error:
@@ -90,14 +90,129 @@ class DiagnosticTreeItem extends vscode.TreeItem {
     }
 }
 
+// ✨ 工作区模式：文件节点，下面按严重程度或诊断代码分组
+class DiagnosticFileItem extends vscode.TreeItem {
+    constructor(
+        public readonly documentUri: vscode.Uri,
+        public readonly diagnostics: vscode.Diagnostic[]
+    ) {
+        super(documentUri, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${vscode.workspace.asRelativePath(vscode.Uri.joinPath(documentUri, '..'))} · ${diagnostics.length} 个问题`;
+        this.contextValue = 'diagnosticFile';
+    }
+}
+
+class DiagnosticGroupItem extends vscode.TreeItem {
+    constructor(
+        label: string,
+        public readonly documentUri: vscode.Uri,
+        public readonly diagnostics: vscode.Diagnostic[]
+    ) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${diagnostics.length}`;
+        this.contextValue = 'diagnosticGroup';
+    }
+}
+
+type DiagnosticsNode = DiagnosticTreeItem | DiagnosticFileItem | DiagnosticGroupItem;
+type DiagnosticsMode = 'file' | 'workspace';
+type DiagnosticsGroupBy = 'severity' | 'code';
+
+function getSeverityText(severity: vscode.DiagnosticSeverity): string {
+    switch (severity) {
+        case vscode.DiagnosticSeverity.Error:
+            return '错误';
+        case vscode.DiagnosticSeverity.Warning:
+            return '警告';
+        case vscode.DiagnosticSeverity.Information:
+            return '信息';
+        case vscode.DiagnosticSeverity.Hint:
+            return '提示';
+        default:
+            return '';
+    }
+}
+
+// 诊断代码可能是字符串、数字或 { value, target }
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return code === undefined || code === '' ? '' : String(code);
+}
+
+// 节点下的所有诊断（文件 / 分组节点包含多个），用于批量修复
+function getNodeDiagnostics(node: DiagnosticsNode): vscode.Diagnostic[] {
+    return node instanceof DiagnosticTreeItem ? [node.diagnostic] : node.diagnostics;
+}
+
+// 带行号的代码摘录：每个目标行前后 radius 行，相邻的片段合并，片段之间用 "..." 分隔
+function numberedExcerpt(document: vscode.TextDocument, lines: number[], radius: number): string {
+    const ranges: { start: number, end: number }[] = [];
+    for (const line of [...lines].sort((a, b) => a - b)) {
+        const start = Math.max(0, line - radius);
+        const end = Math.min(document.lineCount - 1, line + radius);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last.end + 1) {
+            last.end = Math.max(last.end, end);
+        } else {
+            ranges.push({ start, end });
+        }
+    }
+    return ranges.map(({ start, end }) => {
+        const excerpt: string[] = [];
+        for (let line = start; line <= end; line++) {
+            excerpt.push(`${line + 1} | ${document.lineAt(line).text}`);
+        }
+        return excerpt.join('\n');
+    }).join('\n...\n');
+}
+
+// 等待语言服务重新发布 uri 的诊断，超时则直接返回当前诊断
+function waitForDiagnosticsUpdate(uri: vscode.Uri, timeoutMs: number): Promise<vscode.Diagnostic[]> {
+    return new Promise(resolve => {
+        const finish = () => {
+            clearTimeout(timer);
+            listener.dispose();
+            resolve(vscode.languages.getDiagnostics(uri));
+        };
+        const timer = setTimeout(finish, timeoutMs);
+        const listener = vscode.languages.onDidChangeDiagnostics(e => {
+            if (e.uris.some(changed => changed.toString() === uri.toString())) {
+                finish();
+            }
+        });
+    });
+}
+
+// 比较修复前后的诊断（修复后行号会变化，按严重程度、诊断代码和信息匹配）：
+// unresolved 为要修复的诊断中仍然存在的（返回修复后的诊断，行号是新的），introduced 为修复后新出现的错误
+function compareDiagnostics(fixing: vscode.Diagnostic[], before: vscode.Diagnostic[], after: vscode.Diagnostic[]): { unresolved: vscode.Diagnostic[], introduced: vscode.Diagnostic[] } {
+    const key = (d: vscode.Diagnostic) => `${d.severity}|${getDiagnosticCode(d)}|${d.message}`;
+    const takeMatch = (pool: vscode.Diagnostic[], d: vscode.Diagnostic) => {
+        const index = pool.findIndex(candidate => key(candidate) === key(d));
+        return index === -1 ? undefined : pool.splice(index, 1)[0];
+    };
+
+    const afterPool = [...after];
+    const unresolved = fixing.map(d => takeMatch(afterPool, d)).filter((d): d is vscode.Diagnostic => d !== undefined);
+    const beforePool = [...before];
+    const introduced = after.filter(d => d.severity === vscode.DiagnosticSeverity.Error && !takeMatch(beforePool, d));
+    return { unresolved, introduced };
+}
+
 // === 诊断树数据提供者 ===
-class DiagnosticsTreeDataProvider implements vscode.TreeDataProvider<DiagnosticTreeItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<DiagnosticTreeItem | undefined | null | void> = 
-        new vscode.EventEmitter<DiagnosticTreeItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<DiagnosticTreeItem | undefined | null | void> = 
+// 当前文件模式：平铺当前编辑器的诊断；工作区模式：按文件、再按严重程度或诊断代码分组
+class DiagnosticsTreeDataProvider implements vscode.TreeDataProvider<DiagnosticsNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<DiagnosticsNode | undefined | null | void> = 
+        new vscode.EventEmitter<DiagnosticsNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<DiagnosticsNode | undefined | null | void> = 
         this._onDidChangeTreeData.event;
 
-    constructor(private readonly _sidebarProvider: SmartCoderSidebarProvider) {
+    mode: DiagnosticsMode = 'file';
+    groupBy: DiagnosticsGroupBy = 'severity';
+    // 默认只显示错误，警告 / 信息 / 提示通过筛选打开
+    severities = new Set<vscode.DiagnosticSeverity>([vscode.DiagnosticSeverity.Error]);
+
+    constructor() {
         // 监听诊断变化
         vscode.languages.onDidChangeDiagnostics(() => {
             this.refresh();
@@ -105,7 +220,9 @@ class DiagnosticsTreeDataProvider implements vscode.TreeDataProvider<DiagnosticT
 
         // 监听编辑器切换
         vscode.window.onDidChangeActiveTextEditor(() => {
-            this.refresh();
+            if (this.mode === 'file') {
+                this.refresh();
+            }
         });
     }
 
@@ -113,71 +230,147 @@ class DiagnosticsTreeDataProvider implements vscode.TreeDataProvider<DiagnosticT
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: DiagnosticTreeItem): vscode.TreeItem {
+    getTreeItem(element: DiagnosticsNode): vscode.TreeItem {
         return element;
     }
 
-    getChildren(element?: DiagnosticTreeItem): Thenable<DiagnosticTreeItem[]> {
+    getChildren(element?: DiagnosticsNode): Thenable<DiagnosticsNode[]> {
         if (!element) {
-            // 根节点：返回当前文件的所有错误诊断
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                // 返回空数组，VS Code 会显示 "No items found"
-                return Promise.resolve([]);
-            }
-
-            const document = editor.document;
-            const uri = document.uri;
-            
-            // 只处理文本文件
-            if (document.uri.scheme === 'output' || document.uri.scheme === 'debug') {
-                return Promise.resolve([]);
-            }
+            return Promise.resolve(this.mode === 'workspace' ? this._getFileItems() : this._getActiveFileItems());
+        }
+        if (element instanceof DiagnosticFileItem) {
+            return Promise.resolve(this._getGroupItems(element));
+        }
+        if (element instanceof DiagnosticGroupItem) {
+            return Promise.resolve(this._toDiagnosticItems(element.documentUri, element.diagnostics));
+        }
+        return Promise.resolve([]);
+    }
 
-            const diagnostics = vscode.languages.getDiagnostics(uri);
+    // 当前显示的所有诊断（按文件），"全部修复"时使用
+    getVisibleDiagnostics(): { uri: vscode.Uri, diagnostics: vscode.Diagnostic[] }[] {
+        if (this.mode === 'workspace') {
+            return this._getFileItems().map(item => ({ uri: item.documentUri, diagnostics: item.diagnostics }));
+        }
+        const items = this._getActiveFileItems();
+        return items.length > 0 ? [{ uri: items[0].documentUri, diagnostics: items.map(item => item.diagnostic) }] : [];
+    }
 
-            // 只显示错误级别的诊断（可以配置为显示所有级别）
-            const errorDiagnostics = diagnostics.filter(
-                d => d.severity === vscode.DiagnosticSeverity.Error
-            );
+    private _filter(diagnostics: readonly vscode.Diagnostic[]): vscode.Diagnostic[] {
+        return diagnostics.filter(d => this.severities.has(d.severity));
+    }
 
-            if (errorDiagnostics.length === 0) {
-                return Promise.resolve([]);
-            }
+    private _getActiveFileItems(): DiagnosticTreeItem[] {
+        // 根节点：返回当前文件的诊断
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            // 返回空数组，VS Code 会显示 "No items found"
+            return [];
+        }
 
-            const items = errorDiagnostics.map(diagnostic => {
-                const lineNumber = diagnostic.range.start.line;
-                return new DiagnosticTreeItem(diagnostic, uri, lineNumber);
-            });
+        const uri = editor.document.uri;
+        // 只处理文本文件
+        if (uri.scheme === 'output' || uri.scheme === 'debug') {
+            return [];
+        }
+        return this._toDiagnosticItems(uri, this._filter(vscode.languages.getDiagnostics(uri)));
+    }
 
-            // 按行号排序
-            items.sort((a, b) => a.lineNumber - b.lineNumber);
+    private _getFileItems(): DiagnosticFileItem[] {
+        return vscode.languages.getDiagnostics()
+            .filter(([uri]) => uri.scheme !== 'output' && uri.scheme !== 'debug')
+            .map(([uri, diagnostics]) => new DiagnosticFileItem(uri, this._filter(diagnostics)))
+            .filter(item => item.diagnostics.length > 0)
+            .sort((a, b) => a.documentUri.path.localeCompare(b.documentUri.path));
+    }
 
-            return Promise.resolve(items);
+    private _getGroupItems(file: DiagnosticFileItem): DiagnosticGroupItem[] {
+        const groups = new Map<string, vscode.Diagnostic[]>();
+        const sorted = [...file.diagnostics].sort((a, b) => this.groupBy === 'severity'
+            ? a.severity - b.severity
+            : getDiagnosticCode(a).localeCompare(getDiagnosticCode(b)));
+        for (const diagnostic of sorted) {
+            const label = this.groupBy === 'severity'
+                ? getSeverityText(diagnostic.severity)
+                : (getDiagnosticCode(diagnostic) || '（无诊断代码）');
+            groups.set(label, [...(groups.get(label) ?? []), diagnostic]);
         }
+        return [...groups].map(([label, diagnostics]) => new DiagnosticGroupItem(label, file.documentUri, diagnostics));
+    }
 
-        return Promise.resolve([]);
+    private _toDiagnosticItems(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): DiagnosticTreeItem[] {
+        // 按行号排序
+        return diagnostics
+            .map(diagnostic => new DiagnosticTreeItem(diagnostic, uri, diagnostic.range.start.line))
+            .sort((a, b) => a.lineNumber - b.lineNumber);
     }
 }
 
 export function activate(context: vscode.ExtensionContext) {
-    // 0. 注册差异视图内容提供者
-    const diffProvider = new DiffContentProvider();
-    const diffProviderDisposable = vscode.workspace.registerTextDocumentContentProvider('smartcoder-diff', diffProvider);
-    context.subscriptions.push(diffProviderDisposable);
+    // 0. ✨ 行内审阅：AI 建议的修改标在编辑器中，用 CodeLens 逐处接受 / 拒绝
+    const inlineReview = new InlineReviewController();
+    context.subscriptions.push(inlineReview);
+
+    // ✨ 运行时错误捕获：本地运行、评测、终端命令和调试会话中的崩溃，供"分析运行时错误"使用
+    const runtimeErrors = new RuntimeErrorLog();
+    context.subscriptions.push(runtimeErrors);
 
     // 1. 注册侧边栏
-    const sidebarProvider = new SmartCoderSidebarProvider(context.extensionUri, diffProvider);
+    const auth = new SmartCoderAuth(context.secrets);
+    const sidebarProvider = new SmartCoderSidebarProvider(context.extensionUri, inlineReview, auth, runtimeErrors);
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider("smartCoderView", sidebarProvider)
     );
 
     // 2. 注册诊断树视图
-    const diagnosticsTreeProvider = new DiagnosticsTreeDataProvider(sidebarProvider);
+    const diagnosticsTreeProvider = new DiagnosticsTreeDataProvider();
+    const diagnosticsTreeView = vscode.window.createTreeView('smartcoder-diagnostics', {
+        treeDataProvider: diagnosticsTreeProvider,
+        showCollapseAll: false,
+        canSelectMany: true
+    });
+    context.subscriptions.push(diagnosticsTreeView);
+
+    // ✨ 切换当前文件 / 工作区模式、分组方式和严重程度筛选
+    const updateDiagnosticsView = () => {
+        diagnosticsTreeView.title = diagnosticsTreeProvider.mode === 'workspace' ? '工作区诊断' : '当前文件健康诊断';
+        diagnosticsTreeView.description = [...diagnosticsTreeProvider.severities].sort().map(getSeverityText).join('、');
+        vscode.commands.executeCommand('setContext', 'smartcoder.diagnosticsMode', diagnosticsTreeProvider.mode);
+        diagnosticsTreeProvider.refresh();
+    };
+    updateDiagnosticsView();
     context.subscriptions.push(
-        vscode.window.createTreeView('smartcoder-diagnostics', {
-            treeDataProvider: diagnosticsTreeProvider,
-            showCollapseAll: false
+        vscode.commands.registerCommand('smartcoder.diagnostics.showWorkspace', () => {
+            diagnosticsTreeProvider.mode = 'workspace';
+            updateDiagnosticsView();
+        }),
+        vscode.commands.registerCommand('smartcoder.diagnostics.showCurrentFile', () => {
+            diagnosticsTreeProvider.mode = 'file';
+            updateDiagnosticsView();
+        }),
+        vscode.commands.registerCommand('smartcoder.diagnostics.groupBy', async () => {
+            const choice = await vscode.window.showQuickPick([
+                { label: '按严重程度', value: 'severity' as DiagnosticsGroupBy },
+                { label: '按诊断代码', value: 'code' as DiagnosticsGroupBy }
+            ], { placeHolder: '工作区诊断的分组方式' });
+            if (choice) {
+                diagnosticsTreeProvider.groupBy = choice.value;
+                updateDiagnosticsView();
+            }
+        }),
+        vscode.commands.registerCommand('smartcoder.diagnostics.filter', async () => {
+            const choices = await vscode.window.showQuickPick(
+                [vscode.DiagnosticSeverity.Error, vscode.DiagnosticSeverity.Warning, vscode.DiagnosticSeverity.Information, vscode.DiagnosticSeverity.Hint].map(severity => ({
+                    label: getSeverityText(severity),
+                    severity,
+                    picked: diagnosticsTreeProvider.severities.has(severity)
+                })),
+                { canPickMany: true, placeHolder: '显示哪些级别的诊断' }
+            );
+            if (choices && choices.length > 0) {
+                diagnosticsTreeProvider.severities = new Set(choices.map(choice => choice.severity));
+                updateDiagnosticsView();
+            }
         })
     );
 
@@ -188,6 +381,40 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // ✨ 编辑器灯泡菜单（Ctrl+.）中的 "SmartCoder: AI 修复"
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            [{ scheme: 'file' }, { scheme: 'untitled' }],
+            new AiQuickFixProvider(() => sidebarProvider.useLocalModel),
+            { providedCodeActionKinds: AiQuickFixProvider.providedCodeActionKinds }
+        )
+    );
+
+    // ✨ 批量修复：选中的诊断 / 文件 / 分组（从标题栏调用时为当前显示的全部诊断），每个文件合成一次 AI 请求
+    context.subscriptions.push(
+        vscode.commands.registerCommand('smartcoder.fixDiagnostics', async (item?: DiagnosticsNode, selected?: DiagnosticsNode[]) => {
+            const nodes = selected && selected.length > 0 ? selected : (item ? [item] : []);
+            const byFile = new Map<string, { uri: vscode.Uri, diagnostics: vscode.Diagnostic[] }>();
+            const targets = nodes.length > 0
+                ? nodes.map(node => ({ uri: node.documentUri, diagnostics: getNodeDiagnostics(node) }))
+                : diagnosticsTreeProvider.getVisibleDiagnostics();
+            for (const target of targets) {
+                const entry = byFile.get(target.uri.toString()) ?? { uri: target.uri, diagnostics: [] };
+                // 同时选中文件和其下的诊断时去重（每次刷新得到的诊断对象不同，按位置和信息比较）
+                const key = (d: vscode.Diagnostic) => `${d.range.start.line}:${d.range.start.character}:${d.message}`;
+                entry.diagnostics.push(...target.diagnostics.filter(d => !entry.diagnostics.some(existing => key(existing) === key(d))));
+                byFile.set(target.uri.toString(), entry);
+            }
+            if (byFile.size === 0) {
+                vscode.window.showInformationMessage('没有需要修复的诊断');
+                return;
+            }
+            for (const { uri, diagnostics } of byFile.values()) {
+                await sidebarProvider.fixDiagnostics(uri, diagnostics);
+            }
+        })
+    );
+
     // 4. 注册快捷键命令 (Alt+A)
     context.subscriptions.push(
         vscode.commands.registerCommand('smartcoder.start', () => {
@@ -196,16 +423,18 @@ export function activate(context: vscode.ExtensionContext) {
                 const selection = editor.selection;
                 const text = editor.document.getText(selection);
                 // 即使没选中代码，也允许唤起侧边栏，方便刷题
-                sidebarProvider.handleUserSelection(text); 
+                // ✨ 带上文件和行号，AI 才能返回按行定位的多处修改（edits）
+                const location = `${vscode.workspace.asRelativePath(editor.document.uri)}，第 ${selection.start.line + 1}-${selection.end.line + 1} 行`;
+                sidebarProvider.handleUserSelection(text, location); 
                 vscode.commands.executeCommand('smartCoderView.focus'); 
             }
         })
     );
 
-    // 5. 注册终端崩溃分析命令
+    // 5. 注册崩溃分析命令（运行面板传入错误记录的 id；从终端右键菜单调用时参数是终端，忽略）
     context.subscriptions.push(
-        vscode.commands.registerCommand('smartcoder.analyzeTerminal', async () => {
-            await sidebarProvider.analyzeRuntimeError();
+        vscode.commands.registerCommand('smartcoder.analyzeTerminal', async (captureId?: unknown) => {
+            await sidebarProvider.analyzeRuntimeError(typeof captureId === 'number' ? captureId : undefined);
         })
     );
 
@@ -216,6 +445,24 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    // ✨ 注册对拍命令：用随机输入比较当前代码与题目的参考解
+    context.subscriptions.push(
+        vscode.commands.registerCommand('smartcoder.stressTest', async () => {
+            await sidebarProvider.stressTest();
+        })
+    );
+
+    // ✨ 注册自定义输入运行命令：只在本地运行，不提交到服务器
+    context.subscriptions.push(
+        vscode.commands.registerCommand('smartcoder.runWithInput', () => RunWithInputPanel.show(context, runtimeErrors))
+    );
+
+    // ✨ 注册登录 / 退出命令
+    context.subscriptions.push(
+        vscode.commands.registerCommand('smartcoder.login', () => auth.login()),
+        vscode.commands.registerCommand('smartcoder.logout', () => auth.logout())
+    );
+
     // 7. 🔥 注册 URL 监听器 (监听 vscode://...)
     context.subscriptions.push(
         vscode.window.registerUriHandler({
@@ -252,14 +499,28 @@ export function activate(context: vscode.ExtensionContext) {
     );
 }
 
+// 用例结果附上期望 / 实际输出的逐行对比，侧边栏直接按行渲染（隐藏用例没有输出可比）
+function withOutputDiff(caseResult: any): any {
+    if (!caseResult || caseResult.hidden) {
+        return caseResult;
+    }
+    return { ...caseResult, outputDiff: diffTextRows(caseResult.expected || '', caseResult.actual || '') };
+}
+
 class SmartCoderSidebarProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     private _history: { role: string, content: string }[] = [];
     private _currentProblemId: string = ""; // 🔥 当前云端题目ID
+    private _useLocalModel: boolean = false; // ✨ 侧边栏 "Use Local Model" 开关状态
+    private _abortController?: AbortController; // ✨ 当前流式请求，用于"停止"按钮
+    private _streamSeq: number = 0;
+    private readonly _structure = new CSharpStructureService(); // ✨ 查找类 / 方法（C# 扩展的文档符号，容错解析兜底）
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        private readonly _diffProvider: DiffContentProvider
+        private readonly _review: InlineReviewController,
+        private readonly _auth: SmartCoderAuth,
+        private readonly _runtimeErrors: RuntimeErrorLog
     ) { }
 
     // 这里为了节省篇幅，省略了未包含错误的方法实现（fixDiagnostic, _applyCodeToEditor, _callAiWithHistory, _handleLoadProblem, _submitToCloud, _getHtmlForWebview, generateUnitTest, analyzeRuntimeError）
@@ -289,9 +550,19 @@ class SmartCoderSidebarProvider implements vscode.WebviewViewProvider {
                 case 'applyCode':
                     await this._applyCodeToEditor(data.value, data.diagnosticFix, data.unitTest);
                     break;
+                case 'applyEdits': // ✨ 多处修改：在重构预览中逐处确认
+                    await this._applyAiEdits(normalizeAiEdits(data.edits));
+                    break;
                 case 'askAI':
                     // ✨ 修改：传入 useLocalModel 参数
-                    this._callAiWithHistory(data.value, data.codeContext, false);
+                    this._useLocalModel = !!data.useLocalModel;
+                    this._callAiWithHistory(data.value, data.codeContext, this._useLocalModel);
+                    break;
+                case 'setUseLocalModel': // ✨ 切换本地模型（诊断修复、单元测试等也会使用）
+                    this._useLocalModel = !!data.value;
+                    break;
+                case 'stopGeneration': // ✨ 停止当前流式生成
+                    this._abortController?.abort();
                     break;
                 case 'loadProblem': // 🔥 加载题目
                     this._handleLoadProblem(data.value);
@@ -299,14 +570,28 @@ class SmartCoderSidebarProvider implements vscode.WebviewViewProvider {
                 case 'submitToCloud': // 🔥 云端提交
                     this._submitToCloud();
                     break;
+                case 'stressTest': // ✨ 对拍
+                    this.stressTest();
+                    break;
+                case 'rerunCase': // ✨ 单独重跑某个测试用例
+                    this._rerunCase(data.submissionId, data.caseNumber);
+                    break;
+                case 'openFrame': // ✨ 点击崩溃堆栈中的栈帧，跳转到对应的源码行
+                    this._openStackFrame(data.captureId, data.frameIndex);
+                    break;
             }
         });
     }
 
 
-    public handleUserSelection(code: string) {
+    // 侧边栏 "Use Local Model" 开关（灯泡菜单中的 AI 修复也跟随它）
+    public get useLocalModel(): boolean {
+        return this._useLocalModel;
+    }
+
+    public handleUserSelection(code: string, location?: string) {
         if (this._view && code.trim()) {
-            this._view.webview.postMessage({ type: 'setCodeContext', value: code });
+            this._view.webview.postMessage({ type: 'setCodeContext', value: location ? `// 文件: ${location}\n${code}` : code });
         }
     }
 
@@ -326,357 +611,9 @@ class SmartCoderSidebarProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    // 辅助方法：在完整文件的 Main 方法中注入性能监控代码
-private _injectPerformanceMonitoring(code: string, mainMatch: RegExpMatchArray): string {
-        // 1. 确保 System.Diagnostics 引用存在
-        let injectedCode = code;
-        let offset = 0; // 用于记录插入 using 导致的索引偏移
-
-        if (!injectedCode.includes('using System.Diagnostics;')) {
-            const usingMatch = injectedCode.match(/using\s+[^;]+;/);
-            const usingStatement = 'using System.Diagnostics;\n';
-            
-            if (usingMatch) {
-                const insertIndex = usingMatch.index! + usingMatch[0].length;
-                injectedCode = injectedCode.substring(0, insertIndex) + 
-                    '\n' + usingStatement + 
-                    injectedCode.substring(insertIndex);
-                // 如果插入点在 Main 之前，需要更新 offset
-                if (insertIndex < mainMatch.index!) {
-                    offset += usingStatement.length + 1; // +1 是因为有个 \n
-                }
-            } else {
-                injectedCode = usingStatement + injectedCode;
-                offset += usingStatement.length;
-            }
-        }
-
-        // 2. 重新定位 Main 方法（使用偏移量，避免重新正则扫描，更准确）
-        const mainStartIndex = mainMatch.index! + offset;
-        const mainSignatureStr = mainMatch[0]; // 原始匹配的签名字符串
-        const mainSignatureEnd = mainStartIndex + mainSignatureStr.length;
-
-        // 3. 找到 Main 方法体的结束位置 '}'
-        // 注意：mainMatch[0] 包含了 '{'，所以我们要从它后面开始找
-        let braceCount = 1;
-        let mainEndIndex = -1;
-
-        for (let i = mainSignatureEnd; i < injectedCode.length; i++) {
-            if (injectedCode[i] === '{') braceCount++;
-            if (injectedCode[i] === '}') {
-                braceCount--;
-                if (braceCount === 0) {
-                    mainEndIndex = i;
-                    break;
-                }
-            }
-        }
-
-        if (mainEndIndex === -1) return code; // 没找到匹配的括号，防御性返回
-
-        // 4. 提取原始代码体
-        const mainBody = injectedCode.substring(mainSignatureEnd, mainEndIndex);
-
-        // 防御性检查：避免重复注入
-        if (mainBody.includes('Stopwatch') || mainBody.includes('SMARTCODER_PERF_START')) {
-            return code;
-        }
-
-        // 5. 智能计算缩进
-        // 尝试获取 Main 方法第一行代码的缩进作为 baseIndent
-        const bodyLines = mainBody.split('\n');
-        let baseIndent = '        '; // 默认 8 空格兜底
-        
-        // 查找第一行非空行来确定基准缩进
-        for (const line of bodyLines) {
-            if (line.trim().length > 0) {
-                const match = line.match(/^(\s*)/);
-                if (match) {
-                    baseIndent = match[1];
-                    break;
-                }
-            }
-        }
-
-        const indentUnit = '    '; // 标准 C# 4空格缩进
-        const wrapperIndent = baseIndent; // try/finally 这一层与原代码平级（因为原代码要缩进）
-        // 实际上 try 应该和 baseIndent 一样，内部代码需要 +indentUnit
-
-        // 6. 处理原始代码的缩进：每一行都增加一个缩进单位
-        // 这样可以完美保留用户原有的相对缩进格式
-        const indentedOriginalCode = bodyLines.map(line => {
-            if (line.trim().length === 0) return line; // 空行不处理
-            return indentUnit + line; // 统一加前缀
-        }).join('\n');
-
-        // 7. 构建新的 Main 方法体
-        // 注意：这里不需要手动加 Main 的闭合括号，因为我们在下面拼接时会保留原有的 closing brace
-        const newBodyContent = `
-${baseIndent}var sw = Stopwatch.StartNew();
-${baseIndent}long memoryBefore = GC.GetTotalMemory(false);
-${baseIndent}try
-${baseIndent}{
-${indentedOriginalCode}
-${baseIndent}}
-${baseIndent}catch (Exception ex)
-${baseIndent}{
-${baseIndent}${indentUnit}Console.Error.WriteLine("EXCEPTION: " + ex.ToString());
-${baseIndent}}
-${baseIndent}finally
-${baseIndent}{
-${baseIndent}${indentUnit}sw.Stop();
-${baseIndent}${indentUnit}long memoryAfter = GC.GetTotalMemory(false);
-${baseIndent}${indentUnit}long memoryUsed = Math.Max(0, memoryAfter - memoryBefore);
-${baseIndent}${indentUnit}Console.WriteLine("\\n===SMARTCODER_PERF_START===");
-${baseIndent}${indentUnit}Console.WriteLine($"RUNTIME_MS:{sw.ElapsedMilliseconds}");
-${baseIndent}${indentUnit}Console.WriteLine($"MEMORY_BYTES:{memoryUsed}");
-${baseIndent}${indentUnit}Console.WriteLine("===SMARTCODER_PERF_END===");
-${baseIndent}}`;
-
-        // 8. 拼接最终代码
-        // substring(0, mainSignatureEnd): Main 签名 + '{'
-        // newBodyContent: 新的方法体内容
-        // substring(mainEndIndex): 从原 Main 的 '}' 开始保留，这样 Main 方法就闭合了
-        return injectedCode.substring(0, mainSignatureEnd) + 
-               newBodyContent + 
-               injectedCode.substring(mainEndIndex);
-    }
-
-    // 🔥 本地运行代码并获取性能数据（类似 LeetCode 评测）
-    // ✨ 新增：支持测试用例验证
-// 🔥 修改1：去掉了定义里的 | null，保证 100% 返回有效对象
-// 🔥 修复：返回值类型去掉了 | null，确保必须返回有效结果
-    private async _runCodeLocally(code: string, testCases?: Array<{ input: string; expected: string }>): Promise<{ 
-        output: string; 
-        runtime: number; 
-        memory: number;
-        status: 'Accepted' | 'Wrong Answer' | 'Runtime Error' | 'Compile Error';
-        failedCase?: number;
-        errorMessage?: string;
-    }> {
-        const tempDir = path.join(os.tmpdir(), `smartcoder-${Date.now()}-${Math.random().toString(36).substring(7)}`);
-        const projectDir = path.join(tempDir, 'CodeProject');
-        
-        try {
-            // 1. 创建临时目录
-            fs.mkdirSync(projectDir, { recursive: true });
-
-            // 2. 创建 .csproj 文件
-            const csprojContent = `<Project Sdk="Microsoft.NET.Sdk">
-  <PropertyGroup>
-    <OutputType>Exe</OutputType>
-    <TargetFramework>net8.0</TargetFramework>
-    <ImplicitUsings>enable</ImplicitUsings>
-    <Nullable>enable</Nullable>
-  </PropertyGroup>
-</Project>`;
-
-            fs.writeFileSync(path.join(projectDir, 'CodeProject.csproj'), csprojContent);
-
-            // 3. 智能提取用户代码并包装
-            // 3. 智能提取用户代码并包装
-            // ==================================================================================
-            // 🔥 极简逻辑修改版：不再尝试去“扣”代码，而是基于“是否存在 Main”来决定是否包装
-            // ==================================================================================
-            // 3. 智能提取用户代码并包装
-            // ==================================================================================
-            // 🔥 修复版逻辑：使用更宽容的检测方式，防止误判
-            // ==================================================================================
-            let wrappedCode = code;
-
-            try {
-                    const mainMatch = wrappedCode.match(/static\s+(void|int)\s+Main\s*\([^)]*\)\s*\{/i);
-                    if (mainMatch) {
-                        wrappedCode = this._injectPerformanceMonitoring(wrappedCode, mainMatch);
-                    }
-                } catch (e) {
-                    console.log("性能监控注入跳过，使用原始代码");
-                }
-            // 4. 写入 Program.cs
-            fs.writeFileSync(path.join(projectDir, 'Program.cs'), wrappedCode, 'utf8');
-
-            // 5. 检查 dotnet
-            try {
-                await execAsync('dotnet --version', { timeout: 5000 });
-            } catch (checkError) {
-                throw new Error('dotnet command not found. Please install .NET SDK from https://dotnet.microsoft.com/download');
-            }
-
-            // 6. 构建与运行
-            const command = process.platform === 'win32' ? 'dotnet' : 'dotnet';
-            
-            // 先构建
-            try {
-                await execAsync(`${command} build`, {
-                    cwd: projectDir,
-                    timeout: 30000,
-                    maxBuffer: 1024 * 1024 * 10
-                });
-            } catch (buildError: any) {
-                const buildOutput = buildError.stdout || buildError.stderr || buildError.message;
-                throw new Error(`编译失败：\n${buildOutput}`);
-            }
-            
-            // 7. 分支逻辑：这里确保了所有成功路径都有 Return
-            if (testCases && testCases.length > 0) {
-                let allPassed = true;
-                let failedCaseIndex = -1;
-                let errorMessage = '';
-                let totalRuntime = 0;
-                let totalMemory = 0;
-                const allOutputs: string[] = [];
-
-                for (let i = 0; i < testCases.length; i++) {
-                    const testCase = testCases[i];
-                    try {
-                        const runProcess = spawn(command, ['run'], {
-                            cwd: projectDir,
-                            timeout: 30000,
-                            stdio: ['pipe', 'pipe', 'pipe']
-                        });
-
-                        runProcess.stdin.write(testCase.input);
-                        runProcess.stdin.end();
-
-                        let stdout = '';
-                        let stderr = '';
-                        runProcess.stdout.on('data', (data: Buffer) => { stdout += data.toString(); });
-                        runProcess.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
-
-                        await new Promise<void>((resolve, reject) => {
-                            runProcess.on('close', (code: number) => {
-                                if (code !== 0 && !stderr.includes('Build succeeded')) {
-                                    reject(new Error(`Process exited with code ${code}: ${stderr}`));
-                                } else {
-                                    resolve();
-                                }
-                            });
-                            runProcess.on('error', (err: Error) => { reject(err); });
-                        });
-
-                        const perfStart = stdout.indexOf('===SMARTCODER_PERF_START===');
-                        const perfEnd = stdout.indexOf('===SMARTCODER_PERF_END===');
-                        let actualOutput = stdout;
-                        let caseRuntime = 0;
-                        let caseMemory = 0;
-
-                        if (perfStart !== -1 && perfEnd !== -1) {
-                            actualOutput = stdout.substring(0, perfStart).trim();
-                            const perfSection = stdout.substring(perfStart, perfEnd);
-                            const runtimeMatch = perfSection.match(/RUNTIME_MS:(\d+)/);
-                            const memoryMatch = perfSection.match(/MEMORY_BYTES:(\d+)/);
-                            if (runtimeMatch) caseRuntime = parseInt(runtimeMatch[1], 10);
-                            if (memoryMatch) caseMemory = parseInt(memoryMatch[1], 10);
-                        }
-
-                        const expectedTrimmed = testCase.expected.trim();
-                        const actualTrimmed = actualOutput.trim();
-
-                        if (actualTrimmed !== expectedTrimmed) {
-                            allPassed = false;
-                            failedCaseIndex = i;
-                            errorMessage = `Failed at Case ${i + 1}: Expected '${expectedTrimmed}', Got '${actualTrimmed}'`;
-                            break;
-                        }
-
-                        totalRuntime = Math.max(totalRuntime, caseRuntime);
-                        totalMemory = Math.max(totalMemory, caseMemory);
-                        allOutputs.push(actualOutput);
-
-                    } catch (caseError: any) {
-                        allPassed = false;
-                        failedCaseIndex = i;
-                        errorMessage = `Runtime Error at Case ${i + 1}: ${caseError.message}`;
-                        break;
-                    }
-                }
-
-                // ✅ 路径 1：有测试用例时的返回
-                return {
-                    output: allPassed ? allOutputs.join('\n') : errorMessage,
-                    runtime: totalRuntime,
-                    memory: totalMemory,
-                    status: allPassed ? 'Accepted' : (failedCaseIndex >= 0 ? 'Wrong Answer' : 'Runtime Error'),
-                    failedCase: failedCaseIndex >= 0 ? failedCaseIndex + 1 : undefined,
-                    errorMessage: allPassed ? undefined : errorMessage
-                };
-            } else {
-                // 无测试用例模式
-                const runResult = await execAsync(`${command} run`, {
-                    cwd: projectDir,
-                    timeout: 30000,
-                    maxBuffer: 1024 * 1024 * 10
-                });
-
-                const stdout = runResult.stdout || '';
-                const stderr = runResult.stderr || '';
-                const perfStart = stdout.indexOf('===SMARTCODER_PERF_START===');
-                const perfEnd = stdout.indexOf('===SMARTCODER_PERF_END===');
-
-                let output = stdout;
-                let runtime = 0;
-                let memory = 0;
-
-                if (perfStart !== -1 && perfEnd !== -1) {
-                    output = stdout.substring(0, perfStart).trim();
-                    const perfSection = stdout.substring(perfStart, perfEnd);
-                    const runtimeMatch = perfSection.match(/RUNTIME_MS:(\d+)/);
-                    const memoryMatch = perfSection.match(/MEMORY_BYTES:(\d+)/);
-                    if (runtimeMatch) runtime = parseInt(runtimeMatch[1], 10);
-                    if (memoryMatch) memory = parseInt(memoryMatch[1], 10);
-                }
-
-                if (stderr && !stderr.includes('Build succeeded')) {
-                    output += (output ? '\n' : '') + stderr;
-                }
-
-                // ✅ 路径 2：无测试用例时的返回
-                return { 
-                    output, 
-                    runtime, 
-                    memory,
-                    status: (runtime >= 0 && memory >= 0) ? 'Accepted' : 'Runtime Error'
-                };
-            }
-
-        } catch (error: any) {
-            // ✅ 路径 3：发生异常时的返回
-            let errorOutput = '';
-            
-            if (error.message && (error.message.includes('dotnet') || error.message.includes('not found') || error.message.includes('不是内部或外部命令'))) {
-                errorOutput = '❌ 错误：未检测到 .NET SDK\n\n请先安装 .NET SDK：\n1. 访问 https://dotnet.microsoft.com/download\n2. 下载并安装 .NET SDK 6.0 或更高版本\n3. 安装后运行 "dotnet --version" 验证';
-            } else if (error.stdout) {
-                errorOutput = `编译/运行错误：\n${error.stdout}`;
-                if (error.stderr) errorOutput += `\n${error.stderr}`;
-            } else if (error.stderr) {
-                errorOutput = `错误：\n${error.stderr}`;
-            } else {
-                errorOutput = `代码运行失败：${error.message || '未知错误'}`;
-            }
-            
-            return { 
-                output: errorOutput, 
-                runtime: -1, 
-                memory: -1,
-                status: 'Compile Error' as const,
-                errorMessage: errorOutput
-            };
-        } finally {
-            // 清理逻辑
-            try {
-                if (fs.existsSync(tempDir)) {
-                    fs.rmSync(tempDir, { recursive: true, force: true });
-                }
-            } catch (cleanupError) {
-                console.error('清理临时目录失败:', cleanupError);
-            }
-        }
-        // 🔥 彻底不需要 return null，因为 try 里的 if/else 和 catch 都已经有了 return
-    }
-    
  // 结束 SmartCoderSidebarProvider 类
 
-    // 🔥 发送代码给后端 Server（已添加性能评测）
+    // 🔥 提交代码到后端评测队列（服务器负责编译运行并判定结果），轮询评测进度并显示结果
     private async _submitToCloud() {
         if (!this._view) return;
         
@@ -689,35 +626,35 @@ ${baseIndent}}`;
             return;
         }
 
-        this._view.webview.postMessage({ type: 'addUserMessage', value: "正在本地运行代码并评测性能..." });
+        // ✨ 按当前文件的语言选择运行器
+        const languageId = editor!.document.languageId;
+        const runner = getLanguageRunner(languageId);
+        if (!runner) {
+            vscode.window.showWarningMessage(`暂不支持评测 ${languageId} 代码，支持的语言：${getSupportedLanguageIds().join(', ')}`);
+            return;
+        }
 
-        try {
-            // ✨ 1. 从服务器获取测试用例（如果有 problemId）
-            let testCases: Array<{ input: string; expected: string }> | undefined = undefined;
-            if (this._currentProblemId && this._currentProblemId !== "Unknown") {
-                try {
-                    const problemResponse = await axios.get(`http://localhost:3000/api/problem/${this._currentProblemId}`);
-                    if (problemResponse.data && problemResponse.data.testCases) {
-                        testCases = problemResponse.data.testCases;
-                        if (testCases && testCases.length > 0) {
-                            this._view.webview.postMessage({ 
-                                type: 'addUserMessage', 
-                                value: `找到 ${testCases.length} 个测试用例，开始验证...` 
-                            });
-                        }
-                    }
-                } catch (e) {
-                    // 如果获取失败，继续使用无测试用例模式
-                    console.log('Failed to fetch test cases, running without verification');
-                }
-            }
+        // ✨ 提交需要登录
+        if (!(await this._auth.ensureLoggedIn())) {
+            return;
+        }
 
-            // 2. 在本地运行代码，获取性能数据和验证结果
-            const perfData = await this._runCodeLocally(code, testCases);
+        this._view.webview.postMessage({ type: 'addUserMessage', value: `正在提交 ${runner.displayName} 代码到评测队列...` });
 
-            if (!perfData) {
-                throw new Error("本地运行失败");
-            }
+        try {
+            // 1. 只提交代码，评测结果由服务器产生，客户端无法伪造
+            const headers = await this._auth.authHeaders();
+            const response = await axios.post(`${SERVER_URL}/api/submit`, {
+                problemId: this._currentProblemId || "Unknown",
+                code: code,
+                language: languageId, // ✨ 提交语言
+                timestamp: Date.now(),
+                // ✨ 失败后是否继续运行其余用例
+                continueAfterFailure: vscode.workspace.getConfiguration('smartcoder').get<boolean>('judge.continueAfterFailure', false)
+            }, { headers }); // ✨ 带上登录 token，服务器据此记录 userId
+
+            // 2. 等待评测完成
+            const perfData = await this._waitForJudgement(response.data.submissionId, headers);
 
             // 3. 显示性能数据和运行结果
             let perfInfo = '';
@@ -725,8 +662,12 @@ ${baseIndent}}`;
             // ✨ 根据状态显示不同的信息
             if (perfData.status === 'Accepted') {
                 perfInfo = `\n\n**状态: Accepted**`;
-                if (testCases) {
-                    perfInfo += `\n- 通过所有 ${testCases.length} 个测试用例`;
+                if (perfData.caseResults && perfData.caseResults.length > 0) {
+                    perfInfo += `\n- 通过所有 ${perfData.caseResults.length} 个测试用例`;
+                }
+                // ✨ 击败率（与其他同学本题的最好成绩比较）
+                if (perfData.beatRuntimePct !== null && perfData.beatRuntimePct !== undefined) {
+                    perfInfo += `\n- 运行时间击败了 ${perfData.beatRuntimePct}% 的用户，内存击败了 ${perfData.beatMemoryPct}% 的用户`;
                 }
                 perfInfo += `\n\n**性能数据**\n- 运行时间: ${perfData.runtime}ms\n- 内存使用: ${(perfData.memory / 1024).toFixed(2)}KB`;
                 if (perfData.output) {
@@ -741,8 +682,21 @@ ${baseIndent}}`;
                     perfInfo += `\n- ${perfData.errorMessage}`;
                 }
                 perfInfo += `\n\n**性能数据**\n- 运行时间: ${perfData.runtime}ms\n- 内存使用: ${(perfData.memory / 1024).toFixed(2)}KB`;
+            } else if (perfData.status === 'Time Limit Exceeded' || perfData.status === 'Memory Limit Exceeded') {
+                perfInfo = `\n\n**状态: ${perfData.status}**`;
+                if (perfData.failedCase) {
+                    perfInfo += `\n- 测试用例 ${perfData.failedCase} 超出限制`;
+                }
+                if (perfData.errorMessage) {
+                    perfInfo += `\n- ${perfData.errorMessage}`;
+                }
             } else if (perfData.status === 'Runtime Error' || perfData.status === 'Compile Error') {
                 perfInfo = `\n\n**状态: ${perfData.status}**`;
+                // ✨ 记录崩溃信息，"分析运行时错误"直接使用
+                if (perfData.status === 'Runtime Error' && perfData.errorMessage) {
+                    this._runtimeErrors.recordProgramCrash('judge', perfData.errorMessage, editor!.document);
+                    perfInfo += `\n\n可以运行 "SmartCoder: 分析运行时错误" 让 AI 分析这次崩溃。`;
+                }
                 
                 // 显示错误信息
                 if (perfData.errorMessage || perfData.output) {
@@ -754,7 +708,7 @@ ${baseIndent}}`;
                         perfInfo += `\n\n**解决方案:**\n请安装 .NET SDK：\n1. 访问 https://dotnet.microsoft.com/download\n2. 下载并安装 .NET SDK 6.0 或更高版本\n3. 重启 VS Code`;
                     }
                 } else {
-                    perfInfo += `\n\n可能的原因：\n- .NET SDK 未安装\n- 代码编译失败\n- 代码运行超时（30秒）`;
+                    perfInfo += `\n\n可能的原因：\n- .NET SDK 未安装\n- 代码编译失败`;
                 }
             } else {
                 // 兼容旧逻辑（无测试用例模式）
@@ -771,42 +725,128 @@ ${baseIndent}}`;
             this._view.webview.postMessage({ 
                 type: 'addAiMessage', 
                 data: { 
-                    analysis: `**本地运行完成**${perfInfo}\n\n正在提交到云端...`, 
+                    analysis: `**评测完成**${perfInfo}\n\n请切换回网页端查看 AI 导师的详细反馈。`, 
                     code: null 
                 } 
             });
 
-            // 4. 发送给后端服务器（包含性能数据和状态）
-            const response = await axios.post('http://localhost:3000/api/submit', {
-                problemId: this._currentProblemId || "Unknown",
-                code: code,
-                output: perfData.output,
-                runtime: perfData.runtime,
-                memory: perfData.memory,
-                status: perfData.status, // ✨ 提交状态
-                failedCase: perfData.failedCase, // ✨ 失败的测试用例编号
-                errorMessage: perfData.errorMessage, // ✨ 错误信息
-                timestamp: Date.now()
-            });
-            
-            this._view.webview.postMessage({ 
-                type: 'addAiMessage', 
-                data: { analysis: "**提交成功！**\n\n请切换回网页端查看 AI 导师的详细反馈。", code: null } 
-            });
-            vscode.window.showInformationMessage("提交成功！请查看网页端反馈。");
+            // ✨ 每个测试用例的结果表（输入、期望输出与实际输出的逐行对比，可单独重跑）
+            if (perfData.caseResults && perfData.caseResults.length > 0) {
+                this._view.webview.postMessage({ type: 'judgeReport', submissionId: perfData.id, caseResults: perfData.caseResults.map(withOutputDiff) });
+            }
+            vscode.window.showInformationMessage(`评测完成：${perfData.status}，请查看网页端反馈。`);
             
         } catch (e: any) {
-            const errorMsg = e.message || "请确保后端服务器已启动 (http://localhost:3000)";
+            if (e.response?.status === 401) {
+                // token 失效：清除后提示重新登录
+                await this._auth.clearToken();
+                vscode.window.showErrorMessage('登录已过期，请运行 "SmartCoder: 登录" 后重新提交');
+                this._view.webview.postMessage({
+                    type: 'addAiMessage',
+                    data: { analysis: '❌ 提交失败：登录已过期，请重新登录后再提交', code: null }
+                });
+                return;
+            }
+            const errorMsg = e.response?.data?.error || e.message || "请确保后端服务器已启动 (http://localhost:3000)";
             vscode.window.showErrorMessage("连接云端失败: " + errorMsg);
             this._view.webview.postMessage({ 
                 type: 'addAiMessage', 
-                data: { analysis: `❌ 提交失败: ${errorMsg}\n\n请检查：\n1. Node 服务器是否启动在 http://localhost:3000\n2. 是否已安装 .NET SDK (dotnet --version)`, code: null } 
+                data: { analysis: `❌ 提交失败: ${errorMsg}\n\n请检查：\n1. Node 服务器是否启动在 http://localhost:3000\n2. 服务器所在机器是否已安装对应语言的编译器 / 运行环境`, code: null } 
             });
         }
     }
 
+    // ✨ 单独重跑提交中的某个测试用例，结果只更新侧边栏的用例表，不产生新的提交记录
+    private async _rerunCase(submissionId: number, caseNumber: number) {
+        try {
+            const headers = await this._auth.authHeaders();
+            const { data } = await axios.post(`${SERVER_URL}/api/submissions/${submissionId}/rerun`, { caseNumber }, { headers });
+            this._view?.webview.postMessage({ type: 'caseResultUpdate', submissionId, caseResult: withOutputDiff(data.caseResult) });
+        } catch (e: any) {
+            const errorMsg = e.response?.data?.error || e.message;
+            vscode.window.showErrorMessage(`重跑用例 ${caseNumber} 失败: ${errorMsg}`);
+            this._view?.webview.postMessage({ type: 'caseResultUpdate', submissionId, caseNumber, error: errorMsg });
+        }
+    }
+
+    // ✨ 对拍：服务器用题目的输入生成器产生随机输入，比较当前代码与参考解的输出，报告缩小后的最小反例
+    public async stressTest() {
+        const editor = vscode.window.activeTextEditor;
+        const code = editor ? editor.document.getText() : "";
+        if (!code) {
+            vscode.window.showWarningMessage("当前没有打开的编辑器或文件为空");
+            return;
+        }
+        if (!this._currentProblemId) {
+            vscode.window.showWarningMessage("请先从网页端打开一道题目，再进行对拍");
+            return;
+        }
+        if (!(await this._auth.ensureLoggedIn())) {
+            return;
+        }
+
+        const languageId = editor!.document.languageId;
+        this._view?.webview.postMessage({ type: 'addUserMessage', value: `正在对拍：${STRESS_TEST_ITERATIONS} 组随机输入，与参考解比较输出...` });
+
+        try {
+            const headers = await this._auth.authHeaders();
+            const { data } = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'SmartCoder: 正在对拍...' },
+                () => axios.post(`${SERVER_URL}/api/stress`, {
+                    problemId: this._currentProblemId,
+                    code,
+                    language: languageId,
+                    iterations: STRESS_TEST_ITERATIONS
+                }, { headers, timeout: STRESS_TEST_TIMEOUT_MS })
+            );
+
+            let analysis: string;
+            if (data.status === 'passed') {
+                analysis = `**对拍通过**\n- ${data.iterations} 组随机输入的输出都与参考解一致（随机种子 ${data.seed}）`;
+            } else if (data.status === 'failed') {
+                const c = data.counterexample;
+                analysis = `**对拍发现反例：${c.status}**\n- 第 ${data.iterations} 组随机输入出错，已缩小 ${c.shrinkSteps} 次（随机种子 ${data.seed}）`;
+                if (c.message) {
+                    analysis += `\n- ${c.message}`;
+                }
+                analysis += `\n\n**输入:**\n\`\`\`\n${c.input}\n\`\`\`\n\n**参考解输出:**\n\`\`\`\n${c.expected}\n\`\`\`\n\n**你的输出:**\n\`\`\`\n${c.actual}\n\`\`\``;
+            } else {
+                analysis = `❌ 对拍未能完成：${data.errorMessage}`;
+            }
+            this._view?.webview.postMessage({ type: 'addAiMessage', data: { analysis, code: null } });
+        } catch (e: any) {
+            if (e.response?.status === 401) {
+                await this._auth.clearToken();
+                vscode.window.showErrorMessage('登录已过期，请运行 "SmartCoder: 登录" 后重试');
+                return;
+            }
+            const errorMsg = e.response?.data?.error || e.message || "请确保后端服务器已启动 (http://localhost:3000)";
+            vscode.window.showErrorMessage("对拍失败: " + errorMsg);
+            this._view?.webview.postMessage({ type: 'addAiMessage', data: { analysis: `❌ 对拍失败: ${errorMsg}`, code: null } });
+        }
+    }
+
+    // ✨ 轮询评测任务直到 judged（排队 → 编译 → 运行 → 完成），状态变化时在侧边栏提示
+    private async _waitForJudgement(submissionId: number, headers: Record<string, string>): Promise<any> {
+        const deadline = Date.now() + JUDGE_POLL_TIMEOUT_MS;
+        let lastState = '';
+        while (Date.now() < deadline) {
+            const { data } = await axios.get(`${SERVER_URL}/api/submissions/${submissionId}`, { headers });
+            if (data.judgeState === 'judged') {
+                return data;
+            }
+            if (data.judgeState !== lastState && this._view) {
+                lastState = data.judgeState;
+                this._view.webview.postMessage({ type: 'addUserMessage', value: JUDGE_STATE_LABELS[lastState] || lastState });
+            }
+            await new Promise(resolve => setTimeout(resolve, JUDGE_POLL_INTERVAL_MS));
+        }
+        throw new Error(`评测超时（提交 #${submissionId}），请稍后在网页端查看结果`);
+    }
+
     // === 🔥 新增功能：分析运行时崩溃错误 ===
-    public async analyzeRuntimeError() {
+    // 错误输出来自 RuntimeErrorLog 捕获的真实运行（本地运行、评测、终端、调试），有多条时让学生选择
+    public async analyzeRuntimeError(captureId?: number) {
         if (!this._view) {
             // 如果侧边栏未打开，先打开它
             await vscode.commands.executeCommand('smartCoderView.focus');
@@ -815,90 +855,53 @@ ${baseIndent}}`;
         }
 
         try {
-            // 1. 获取终端选中的文本（报错堆栈）
-            // 方案：先尝试从剪贴板读取（用户可能已经复制了）
-            // 如果没有合适的文本，再尝试自动复制终端选中内容
-            
-            let errorLog = '';
-            let previousClipboard = '';
-            
-            // 先读取当前剪贴板内容
-            previousClipboard = await vscode.env.clipboard.readText();
-            
-            // 如果剪贴板内容看起来像错误堆栈（包含常见错误关键词），直接使用
-            const errorKeywords = ['Exception', 'Error', 'Stack Trace', 'at ', 'System.', 'Unhandled', 'NullReference', 'IndexOutOfRange'];
-            const looksLikeError = errorKeywords.some(keyword => previousClipboard.includes(keyword));
-            
-            if (looksLikeError && previousClipboard.trim().length > 20) {
-                // 剪贴板内容看起来像错误信息，直接使用
-                errorLog = previousClipboard;
-                vscode.window.showInformationMessage('检测到剪贴板中的错误信息，正在分析...');
-            } else {
-                // 尝试从终端复制选中内容
-                await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
-                await new Promise(resolve => setTimeout(resolve, 150));
-                
-                errorLog = await vscode.env.clipboard.readText();
-                
-                // 如果复制后还是没有合适的错误信息
-                if (!errorLog.trim() || errorLog === previousClipboard) {
-                    // 提示用户手动复制错误信息
-                    const action = await vscode.window.showWarningMessage(
-                        '未检测到错误信息。\n\n使用方法：\n1. 在终端中选中报错信息（会自动复制）\n2. 按 Ctrl+Shift+E 或通过命令面板运行"SmartCoder: 分析运行时错误"',
-                        '打开命令面板', '知道了'
-                    );
-                    
-                    if (action === '打开命令面板') {
-                        await vscode.commands.executeCommand('workbench.action.showCommands');
-                    }
-                    return;
+            // 1. 选择要分析的错误
+            const capture = captureId !== undefined ? this._runtimeErrors.find(captureId) : await this._pickRuntimeError();
+            if (!capture) {
+                if (captureId !== undefined) {
+                    vscode.window.showWarningMessage('这条错误记录已过期，请重新运行程序');
                 }
-            }
-            
-            // 验证错误信息是否有效
-            if (!errorLog.trim() || errorLog.length < 10) {
-                vscode.window.showWarningMessage('错误信息太短，请确保已选中完整的报错堆栈');
                 return;
             }
 
-            // 2. 获取当前编辑器的源代码
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showWarningMessage('请先打开源代码文件');
+            // 2. 按调用栈收集相关代码（调用链经过的方法，带行号），连同报错信息不超过 token 预算
+            const maxTokens = vscode.workspace.getConfiguration('smartcoder').get<number>('crashAnalysis.maxContextTokens', 4000);
+            const errorText = truncateToTokens(capture.text, Math.floor(maxTokens / 4));
+            const context = await this._buildCrashContext(capture, maxTokens - estimateTokens(errorText));
+            if (!context) {
+                vscode.window.showWarningMessage('找不到堆栈对应的源文件，请先打开源代码文件');
                 return;
             }
 
-            const sourceCode = editor.document.getText();
-            const fileName = editor.document.fileName.split(/[/\\]/).pop() || 'unknown';
-            const languageId = editor.document.languageId;
-
-            // 3. 显示加载状态
+            // 3. 显示加载状态和可点击的调用栈
             this._view?.webview.postMessage({ 
                 type: 'addUserMessage', 
-                value: `🔍 正在分析运行时错误...` 
+                value: `🔍 正在分析运行时错误（${RUNTIME_ERROR_SOURCE_LABELS[capture.source]}）...` 
+            });
+            this._view?.webview.postMessage({
+                type: 'runtimeError',
+                captureId: capture.id,
+                title: capture.title,
+                frames: capture.frames.map(frame => ({ location: `${frameFileName(frame)}:${frame.line}`, method: frame.method }))
             });
             this._view?.webview.postMessage({ type: 'showLoading' });
 
             // 4. 构造分析 Prompt
-            const prompt = `我的C#程序运行时崩溃了。
+            const prompt = `我的程序运行时崩溃了（来源：${RUNTIME_ERROR_SOURCE_LABELS[capture.source]}）。
 
-**控制台报错信息：**
+**报错信息：**
 \`\`\`
-${errorLog}
+${errorText}
 \`\`\`
 
-**源代码文件：** ${fileName} (${languageId})
-**完整源代码：**
-\`\`\`${languageId}
-${sourceCode}
-\`\`\`
+${context.text}
 
 请帮我：
 1. **分析错误原因**：详细解释这个错误是什么，为什么会发生。
-2. **定位问题行数**：明确指出是源代码的第几行导致了这个问题（如果堆栈跟踪中有行号，请结合源代码验证）。
+2. **定位问题行数**：明确指出是哪个文件的第几行导致了这个问题（代码前面的行号就是文件中的实际行号，请结合调用链验证）。
 3. **给出修复建议**：提供修复后的代码片段。
 
-⚠️ 必须返回 JSON 格式：{ "analysis": "Markdown格式的分析文本（包含行号定位）", "code": "修复后的完整代码或关键代码片段（如果是完整代码，包含所有必要的using语句和类结构）" }`;
+⚠️ 必须返回 JSON 格式：{ "analysis": "Markdown格式的分析文本（包含文件和行号定位）", "code": "修复后的关键代码片段（需要修改的完整方法，不要包含行号和 >> 标记）" }`;
 
             // 5. 调用 AI 分析
             await this._callAiWithHistory(prompt, "RUNTIME_ERROR_ANALYSIS");
@@ -915,6 +918,98 @@ ${sourceCode}
         }
     }
 
+    // 只有一条记录时直接使用，多条时按时间倒序列出
+    private async _pickRuntimeError(): Promise<RuntimeErrorCapture | undefined> {
+        const captures = this._runtimeErrors.captures;
+        if (captures.length === 0) {
+            vscode.window.showWarningMessage('还没有捕获到运行时错误。请通过"运行（自定义输入）"、云端评测、终端或调试运行程序，崩溃后再分析。');
+            return undefined;
+        }
+        if (captures.length === 1) {
+            return captures[0];
+        }
+        const picked = await vscode.window.showQuickPick(captures.map(capture => ({
+            label: capture.title,
+            description: `${RUNTIME_ERROR_SOURCE_LABELS[capture.source]} · ${new Date(capture.time).toLocaleTimeString()}`,
+            detail: capture.frames.length > 0 ? `${frameFileName(capture.frames[0])}:${capture.frames[0].line}` : undefined,
+            capture
+        })), { placeHolder: '选择要分析的运行时错误（最新的在最上面）' });
+        return picked?.capture;
+    }
+
+    // 调用链中属于用户代码（能对应到工作区文件）的栈帧及其文件；一个也没有时，退回到运行的文件或当前编辑器的整个文件
+    private async _buildCrashContext(capture: RuntimeErrorCapture, maxTokens: number): Promise<CrashContext | undefined> {
+        const resolved = new Map<string, vscode.Uri | undefined>();  // 递归时同一路径的栈帧很多，只查找一次
+        const files = new Map<string, CrashSourceFile>();
+        const locations: CrashFrameLocation[] = [];
+        for (const frame of capture.frames) {
+            if (!resolved.has(frame.file)) {
+                resolved.set(frame.file, await this._resolveFrameUri(capture, frame));
+            }
+            const uri = resolved.get(frame.file);
+            if (!uri || (!capture.documentUri && !vscode.workspace.getWorkspaceFolder(uri))) {
+                continue;  // 框架 / 第三方库的栈帧
+            }
+            let file = files.get(uri.toString());
+            if (!file) {
+                const document = await vscode.workspace.openTextDocument(uri);
+                file = { path: vscode.workspace.asRelativePath(uri), languageId: document.languageId, text: document.getText() };
+                files.set(uri.toString(), file);
+            }
+            locations.push({ frame, file });
+        }
+        if (locations.length > 0) {
+            return buildCrashContext(locations, maxTokens);
+        }
+
+        const document = capture.documentUri ? await vscode.workspace.openTextDocument(capture.documentUri) : vscode.window.activeTextEditor?.document;
+        if (!document) {
+            return undefined;
+        }
+        return buildFileContext({ path: vscode.workspace.asRelativePath(document.uri), languageId: document.languageId, text: document.getText() }, maxTokens);
+    }
+
+    // 点击调用栈中的栈帧：打开对应的文件并定位到出错的行
+    private async _openStackFrame(captureId: number, frameIndex: number) {
+        const capture = this._runtimeErrors.find(captureId);
+        const frame = capture?.frames[frameIndex];
+        if (!capture || !frame) {
+            vscode.window.showWarningMessage('这条错误记录已过期');
+            return;
+        }
+        const uri = await this._resolveFrameUri(capture, frame);
+        if (!uri) {
+            vscode.window.showWarningMessage(`在工作区中找不到 ${frame.file}`);
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(uri);
+        const line = Math.min(frame.line - 1, document.lineCount - 1);
+        const position = new vscode.Position(line, Math.max(0, (frame.column ?? 1) - 1));
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+    }
+
+    // 栈帧路径 → 文件：本地运行 / 评测的栈帧对应被运行的文件（堆栈指向临时目录中的副本）；
+    // 其他来源先按原路径（绝对路径或相对工作区）查找，找不到时按文件名在工作区中搜索，优先路径结尾一致的文件
+    private async _resolveFrameUri(capture: RuntimeErrorCapture, frame: StackFrame): Promise<vscode.Uri | undefined> {
+        if (capture.documentUri) {
+            return capture.documentUri;
+        }
+
+        const normalized = frame.file.replace(/\\/g, '/');
+        const candidates = path.isAbsolute(frame.file)
+            ? [vscode.Uri.file(frame.file)]
+            : (vscode.workspace.workspaceFolders ?? []).map(folder => vscode.Uri.joinPath(folder.uri, normalized));
+        for (const uri of candidates) {
+            if (await this._fileExists(uri)) {
+                return uri;
+            }
+        }
+
+        const matches = await vscode.workspace.findFiles(`**/${frameFileName(frame)}`, '**/{node_modules,bin,obj}/**', 10);
+        const suffix = normalized.split('/').slice(-2).join('/');
+        return matches.find(uri => uri.path.endsWith('/' + suffix)) ?? matches[0];
+    }
+
     // === 🔥 新增功能：生成单元测试 ===
     public async generateUnitTest() {
         const editor = vscode.window.activeTextEditor;
@@ -939,11 +1034,10 @@ ${sourceCode}
             functionRange = editor.selection;
         } else {
             // 用户没有选中代码，尝试自动检测光标所在的函数
-            const position = editor.selection.active;
-            const detectedFunction = this._detectFunctionAtPosition(document, position);
+            const detectedFunction = await this._structure.findMethodAt(document, editor.selection.active);
             if (detectedFunction) {
-                selectedText = detectedFunction.code;
                 functionRange = detectedFunction.range;
+                selectedText = document.getText(functionRange);
             } else {
                 vscode.window.showWarningMessage('请选中一个函数或方法，或将光标放在函数内部');
                 return;
@@ -956,19 +1050,20 @@ ${sourceCode}
         }
 
         // 解析函数信息
-        const functionInfo = this._parseFunctionInfo(selectedText, document, functionRange!);
-        if (!functionInfo) {
+        const signature = this._structure.parseMethodSignature(selectedText);
+        if (!signature) {
             vscode.window.showWarningMessage('无法解析函数信息，请确保选中的是完整的函数定义');
             return;
         }
+        const functionInfo = {
+            name: signature.name,
+            returnType: signature.returnType ?? null,
+            parameters: signature.parameters ?? [],
+            isConstructor: signature.kind === 'constructor'
+        };
 
-        // 获取完整的文件上下文（用于了解命名空间、类名等）
-        const fullText = document.getText();
-        const namespaceMatch = fullText.match(/namespace\s+([\w.]+)/);
-        const classMatch = fullText.match(/(?:public\s+|private\s+|protected\s+|internal\s+)?(?:static\s+)?(?:sealed\s+)?(?:abstract\s+)?class\s+(\w+)/);
-        
-        const namespace = namespaceMatch ? namespaceMatch[1] : '';
-        const className = classMatch ? classMatch[1] : '';
+        // 函数所在的命名空间和类（用于测试类的 using 和命名）
+        const { namespace, typeName: className } = await this._structure.containersAt(document, functionRange!.start);
 
         // 打开侧边栏
         if (!this._view) {
@@ -1028,16 +1123,7 @@ ${selectedText}
         if (!this._view) return;
 
         try {
-            const config = vscode.workspace.getConfiguration('smartcoder');
-            const apiKey = config.get<string>('apiKey');
-
-            if (!apiKey) {
-                this._view.webview.postMessage({ 
-                    type: 'addAiMessage', 
-                    data: { analysis: "❌ 请先配置 API Key", code: null } 
-                });
-                return;
-            }
+            const provider = createAiProvider(this._useLocalModel);
 
             const systemPrompt = `你是一个专业的 C# 单元测试生成专家，擅长使用 xUnit 和 NUnit 框架编写全面的单元测试。
 
@@ -1050,37 +1136,19 @@ ${selectedText}
 ⚠️ 必须且只能返回 JSON 格式：{ "analysis": "Markdown格式的测试说明", "code": "完整的测试类代码" }
 不要使用 markdown 代码块包裹 JSON。`;
 
-            const response = await fetch("https://api.deepseek.com/chat/completions", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": `Bearer ${apiKey}`
-                },
-                body: JSON.stringify({
-                    model: "deepseek-chat",
-                    messages: [
-                        { role: "system", content: systemPrompt },
-                        { role: "user", content: prompt }
-                    ],
-                    response_format: { type: 'json_object' },
-                    stream: false
-                })
-            });
-
-            const data = await response.json() as any;
-            if (!response.ok) throw new Error(data.error?.message || "API Error");
-            
-            const aiRawContent = data.choices[0].message.content;
-            let aiJson;
-            try {
-                aiJson = JSON.parse(aiRawContent.replace(/```json/g, '').replace(/```/g, '').trim());
-            } catch (e) {
-                aiJson = { analysis: aiRawContent, code: null };
+            const { raw: aiRawContent, streamId } = await this._streamAiReply(provider, [
+                { role: "system", content: systemPrompt },
+                { role: "user", content: prompt }
+            ]);
+            if (aiRawContent === null) {
+                return; // 用户已停止生成
             }
+            const aiJson = parseAiJson(aiRawContent);
 
             // 将测试代码信息发送到侧边栏，并附加函数信息以便应用
             this._view.webview.postMessage({ 
                 type: 'addAiMessage', 
+                streamId,
                 data: {
                     ...aiJson,
                     _unitTest: {
@@ -1102,154 +1170,6 @@ ${selectedText}
         }
     }
 
-    // === 解析函数信息 ===
-    private _parseFunctionInfo(code: string, document: vscode.TextDocument, range: vscode.Range): any | null {
-        const trimmedCode = code.trim();
-        
-        // 匹配 C# 方法定义
-        // 模式：访问修饰符 [static] [async] 返回类型 方法名(参数)
-        const methodRegex = /\b(public|private|protected|internal)\s+(static\s+)?(async\s+)?(\w+(?:<[\w\s,]+>)?\s+)?(\w+)\s*\(([^)]*)\)/;
-        const match = trimmedCode.match(methodRegex);
-        
-        if (!match) {
-            // 尝试匹配构造函数
-            const constructorRegex = /\b(public|private|protected|internal)\s+(\w+)\s*\(([^)]*)\)/;
-            const constructorMatch = trimmedCode.match(constructorRegex);
-            if (constructorMatch) {
-                return {
-                    name: constructorMatch[2],
-                    returnType: null,
-                    parameters: this._parseParameters(constructorMatch[3] || ''),
-                    isConstructor: true
-                };
-            }
-            return null;
-        }
-
-        const returnType = match[4] ? match[4].trim() : 'void';
-        const methodName = match[5];
-        const parametersStr = match[6] || '';
-
-        return {
-            name: methodName,
-            returnType: returnType,
-            parameters: this._parseParameters(parametersStr),
-            isConstructor: false
-        };
-    }
-
-    // === 解析参数列表 ===
-    private _parseParameters(parametersStr: string): Array<{ type: string, name: string }> {
-        if (!parametersStr.trim()) {
-            return [];
-        }
-
-        const parameters: Array<{ type: string, name: string }> = [];
-        const paramParts = parametersStr.split(',').map(p => p.trim());
-
-        for (const param of paramParts) {
-            // 匹配参数：类型 参数名 [= 默认值]
-            const paramMatch = param.match(/(\w+(?:<[\w\s,]+>)?(?:\[\])?)\s+(\w+)(?:\s*=.*)?/);
-            if (paramMatch) {
-                parameters.push({
-                    type: paramMatch[1],
-                    name: paramMatch[2]
-                });
-            }
-        }
-
-        return parameters;
-    }
-
-    // === 检测光标位置的函数 ===
-    private _detectFunctionAtPosition(document: vscode.TextDocument, position: vscode.Position): { code: string, range: vscode.Range } | null {
-        const text = document.getText();
-        const offset = document.offsetAt(position);
-
-        // 向前查找函数定义的开始（查找方法签名）
-        let startOffset = offset;
-        let braceCount = 0;
-        let foundMethodStart = false;
-        let methodStartPos = -1;
-
-        // 先向前找到方法签名
-        for (let i = offset; i >= 0; i--) {
-            const char = text[i];
-            
-            if (char === '}') {
-                braceCount++;
-            } else if (char === '{') {
-                if (braceCount === 0) {
-                    // 找到了方法体的开始
-                    foundMethodStart = true;
-                    methodStartPos = i;
-                    break;
-                }
-                braceCount--;
-            }
-        }
-
-        if (!foundMethodStart) {
-            return null;
-        }
-
-        // 继续向前查找方法签名的开始（查找 public/private 等关键字）
-        let methodSignatureStart = methodStartPos;
-        for (let i = methodStartPos - 1; i >= 0; i--) {
-            const char = text[i];
-            if (char === '\n' || char === ';') {
-                // 检查前面是否有方法定义的关键字
-                const beforeText = text.substring(Math.max(0, i - 50), i);
-                if (beforeText.match(/\b(public|private|protected|internal)\s+(static\s+)?(async\s+)?(\w+\s+)?(\w+)\s*\(/)) {
-                    methodSignatureStart = i + 1;
-                    break;
-                }
-            }
-        }
-
-        // 向后查找函数定义的结束（匹配大括号）
-        let endOffset = methodStartPos + 1;
-        braceCount = 1;
-        let inString = false;
-        let stringChar = '';
-
-        for (let i = methodStartPos + 1; i < text.length; i++) {
-            const char = text[i];
-            const prevChar = i > 0 ? text[i - 1] : '';
-
-            // 处理字符串
-            if (!inString && (char === '"' || char === "'")) {
-                inString = true;
-                stringChar = char;
-            } else if (inString && char === stringChar && prevChar !== '\\') {
-                inString = false;
-            }
-
-            if (!inString) {
-                if (char === '{') {
-                    braceCount++;
-                } else if (char === '}') {
-                    braceCount--;
-                    if (braceCount === 0) {
-                        endOffset = i + 1;
-                        break;
-                    }
-                }
-            }
-        }
-
-        if (braceCount !== 0) {
-            return null; // 大括号不匹配
-        }
-
-        const startPos = document.positionAt(methodSignatureStart);
-        const endPos = document.positionAt(endOffset);
-        const range = new vscode.Range(startPos, endPos);
-        const code = document.getText(range);
-
-        return { code, range };
-    }
-
     // === 🔥 新增功能：AI 修复诊断错误 ===
     public async fixDiagnostic(diagnostic: vscode.Diagnostic, documentUri: vscode.Uri, lineNumber: number) {
         if (!this._view) {
@@ -1261,57 +1181,21 @@ ${selectedText}
         try {
             // 1. 获取文档内容
             const document = await vscode.workspace.openTextDocument(documentUri);
-            const fullText = document.getText();
-            const lines = fullText.split('\n');
-            const languageId = document.languageId;
-
-            // 2. 提取错误所在行的代码和上下文（前后各 5 行）
-            const startLine = Math.max(0, lineNumber - 5);
-            const endLine = Math.min(lines.length - 1, lineNumber + 5);
-            const contextLines = lines.slice(startLine, endLine + 1);
-            const errorLineIndex = lineNumber - startLine;
-            const contextCode = contextLines.join('\n');
 
-            // 3. 提取错误行的代码
-            const errorLineCode = lines[lineNumber] || '';
-
-            // 4. 显示加载状态
+            // 2. 显示加载状态
             this._view?.webview.postMessage({ 
                 type: 'addUserMessage', 
                 value: `正在修复第 ${lineNumber + 1} 行的错误...` 
             });
             this._view?.webview.postMessage({ type: 'showLoading' });
 
-            // 5. 构造修复 Prompt
-            const prompt = `我正在修复一个编译错误（基于 LSP 诊断）。
-
-**文件类型：** ${languageId}
-**错误位置：** 第 ${lineNumber + 1} 行
-**错误信息：** ${diagnostic.message}
-**错误来源：** ${diagnostic.source || '未知'}
+            // 3. 构造修复 Prompt（错误行和前后各 5 行上下文，与灯泡菜单中的 AI 修复共用）
+            const { prompt, errorLineCode, contextCode } = buildDiagnosticFixPrompt(document, diagnostic, lineNumber);
 
-**出错的代码行：**
-\`\`\`
-${errorLineCode}
-\`\`\`
-
-**上下文代码（包含错误行，前后各 5 行）：**
-\`\`\`${languageId}
-${contextCode}
-\`\`\`
-
-**错误范围：** 第 ${diagnostic.range.start.character + 1} 列 到 第 ${diagnostic.range.end.character + 1} 列
-
-请帮我：
-1. **分析错误原因**：详细解释为什么会出现这个编译错误。
-2. **提供修复方案**：给出修复后的代码（只需要修复的部分，可以是单行、多行或整个代码块）。
-
-⚠️ 必须返回 JSON 格式：{ "analysis": "Markdown格式的分析文本", "code": "修复后的代码片段（只包含需要修改的部分，保持原有缩进）" }`;
-
-            // 6. 调用 AI 修复
+            // 4. 调用 AI 修复
             await this._callAiForDiagnosticFix(prompt, diagnostic, documentUri, lineNumber, errorLineCode, contextCode);
 
-            // 7. 聚焦到侧边栏
+            // 5. 聚焦到侧边栏
             await vscode.commands.executeCommand('smartCoderView.focus');
 
         } catch (error: any) {
@@ -1323,72 +1207,139 @@ ${contextCode}
         }
     }
 
-    // === AI 诊断修复专用调用（支持精确代码替换） ===
-    private async _callAiForDiagnosticFix(
-        prompt: string,
-        diagnostic: vscode.Diagnostic,
-        documentUri: vscode.Uri,
-        lineNumber: number,
-        errorLineCode: string,
-        contextCode: string
-    ) {
-        if (!this._view) return;
+    // === ✨ 批量修复同一文件中的多个诊断 ===
+    // 相关的诊断合成一次 AI 请求，修改在重构预览中确认后写入，再重新检查诊断，报告哪些真正解决了
+    public async fixDiagnostics(documentUri: vscode.Uri, diagnostics: vscode.Diagnostic[]) {
+        if (diagnostics.length === 1) {
+            await this.fixDiagnostic(diagnostics[0], documentUri, diagnostics[0].range.start.line);
+            return;
+        }
+        if (!this._view) {
+            // 如果侧边栏未打开，先打开它
+            await vscode.commands.executeCommand('smartCoderView.focus');
+            await new Promise(resolve => setTimeout(resolve, 300));
+        }
+
+        const batch = [...diagnostics].sort((a, b) => a.range.start.line - b.range.start.line).slice(0, MAX_DIAGNOSTICS_PER_FIX);
+        const fileLabel = vscode.workspace.asRelativePath(documentUri);
 
         try {
-            const config = vscode.workspace.getConfiguration('smartcoder');
-            const apiKey = config.get<string>('apiKey');
+            const document = await vscode.workspace.openTextDocument(documentUri);
+            const skipped = diagnostics.length - batch.length;
+            this._view?.webview.postMessage({
+                type: 'addUserMessage',
+                value: `正在批量修复 ${fileLabel} 中的 ${batch.length} 个问题...${skipped > 0 ? `（其余 ${skipped} 个请修复后再试）` : ''}`
+            });
+            this._view?.webview.postMessage({ type: 'showLoading' });
 
-            if (!apiKey) {
-                this._view.webview.postMessage({ 
-                    type: 'addAiMessage', 
-                    data: { analysis: "❌ 请先配置 API Key", code: null } 
-                });
-                return;
-            }
+            const diagnosticList = batch.map((d, i) => {
+                const code = getDiagnosticCode(d);
+                return `${i + 1}. 第 ${d.range.start.line + 1} 行第 ${d.range.start.character + 1} 列 [${getSeverityText(d.severity)}${code ? ' ' + code : ''}] ${d.message}`;
+            }).join('\n');
+
+            const prompt = `我正在修复同一个文件中的多个诊断问题（基于 LSP 诊断），它们可能相互关联，请一起考虑。
+
+**文件：** ${fileLabel}（${document.languageId}）
+
+**诊断列表：**
+${diagnosticList}
+
+**相关代码（行号 | 代码，每个问题前后各 ${DIAGNOSTIC_CONTEXT_LINES} 行）：**
+\`\`\`${document.languageId}
+${numberedExcerpt(document, batch.map(d => d.range.start.line), DIAGNOSTIC_CONTEXT_LINES)}
+\`\`\`
+
+请分析每个问题的原因，并给出修复。`;
 
             const systemPrompt = `你是一个专业的代码修复专家，擅长 Automated Program Repair (APR，自动程序修复)。
 
 你的任务是：
-1. 仔细分析 LSP 诊断错误信息，理解错误的根本原因
-2. 提供精确的代码修复方案，只修复错误部分，不要改变其他无关代码
+1. 一起分析这些诊断错误，找出它们共同的根本原因
+2. 只修改修复错误所需的行，不要改变其他无关代码
 3. 保持代码风格和缩进一致
 
-⚠️ 必须且只能返回 JSON 格式：{ "analysis": "Markdown格式的详细分析", "code": "修复后的代码片段（保持原缩进，可以是单行或多行）" }
+⚠️ 必须且只能返回 JSON 格式：{ "analysis": "Markdown格式的分析", "code": null, "edits": [{ "range": { "startLine": 起始行, "endLine": 结束行 }, "newText": "替换这些行的新代码（包含缩进）" }] }
+行号与给出的代码中的行号一致，从 1 开始并包含两端；多处修改的行范围不能重叠。
 不要使用 markdown 代码块包裹 JSON。`;
 
-            const response = await fetch("https://api.deepseek.com/chat/completions", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": `Bearer ${apiKey}`
-                },
-                body: JSON.stringify({
-                    model: "deepseek-chat",
-                    messages: [
-                        { role: "system", content: systemPrompt },
-                        { role: "user", content: prompt }
-                    ],
-                    response_format: { type: 'json_object' },
-                    stream: false
-                })
+            const provider = createAiProvider(this._useLocalModel);
+            const { raw: aiRawContent, streamId } = await this._streamAiReply(provider, [
+                { role: "system", content: systemPrompt },
+                { role: "user", content: prompt }
+            ]);
+            if (aiRawContent === null) {
+                return; // 用户已停止生成
+            }
+            const aiJson = parseAiJson(aiRawContent);
+            // 修改固定作用在这个文件上，不使用 AI 给出的路径
+            const edits = normalizeAiEdits((Array.isArray(aiJson.edits) ? aiJson.edits : []).map((edit: any) => ({ ...edit, file: fileLabel })));
+            this._view?.webview.postMessage({ type: 'addAiMessage', streamId, data: { analysis: aiJson.analysis, code: null } });
+            if (edits.length === 0) {
+                vscode.window.showWarningMessage('AI 没有给出可应用的修改');
+                return;
+            }
+
+            const before = vscode.languages.getDiagnostics(documentUri);
+            if (!await this._previewEdits([{ uri: documentUri, edits }])) {
+                return;
+            }
+
+            // 重新检查：等语言服务更新诊断后，看哪些问题真正消失了
+            const after = await waitForDiagnosticsUpdate(documentUri, DIAGNOSTIC_RECHECK_TIMEOUT_MS);
+            const { unresolved, introduced } = compareDiagnostics(batch, before, after);
+            const describe = (d: vscode.Diagnostic) => `- 第 ${d.range.start.line + 1} 行：${d.message}`;
+            let report = `🔍 **重新检查：** ${batch.length} 个问题中已解决 ${batch.length - unresolved.length} 个`;
+            if (unresolved.length > 0) {
+                report += `\n\n⚠️ 仍然存在：\n${unresolved.map(describe).join('\n')}`;
+            }
+            if (introduced.length > 0) {
+                report += `\n\n❌ 新出现的错误：\n${introduced.map(describe).join('\n')}`;
+            }
+            this._view?.webview.postMessage({ type: 'addAiMessage', data: { analysis: report, code: null } });
+
+            if (unresolved.length === 0 && introduced.length === 0) {
+                vscode.window.showInformationMessage(`${fileLabel}：${batch.length} 个问题已全部解决`);
+            } else {
+                vscode.window.showWarningMessage(`${fileLabel}：已解决 ${batch.length - unresolved.length}/${batch.length} 个问题${introduced.length > 0 ? `，新出现 ${introduced.length} 个错误` : ''}`);
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`批量修复失败: ${error.message}`);
+            this._view?.webview.postMessage({
+                type: 'addAiMessage',
+                data: { analysis: `❌ 批量修复失败: ${error.message}`, code: null }
             });
+        }
+    }
 
-            const data = await response.json() as any;
-            if (!response.ok) throw new Error(data.error?.message || "API Error");
-            
-            const aiRawContent = data.choices[0].message.content;
-            let aiJson;
-            try {
-                aiJson = JSON.parse(aiRawContent.replace(/```json/g, '').replace(/```/g, '').trim());
-            } catch (e) {
-                aiJson = { analysis: aiRawContent, code: null };
+    // === AI 诊断修复专用调用（支持精确代码替换） ===
+    private async _callAiForDiagnosticFix(
+        prompt: string,
+        diagnostic: vscode.Diagnostic,
+        documentUri: vscode.Uri,
+        lineNumber: number,
+        errorLineCode: string,
+        contextCode: string
+    ) {
+        if (!this._view) return;
+
+        try {
+            const provider = createAiProvider(this._useLocalModel);
+
+            const { raw: aiRawContent, streamId } = await this._streamAiReply(provider, [
+                { role: "system", content: DIAGNOSTIC_FIX_SYSTEM_PROMPT },
+                { role: "user", content: prompt }
+            ]);
+            if (aiRawContent === null) {
+                return; // 用户已停止生成
             }
+            const aiJson = parseAiJson(aiRawContent);
 
             // 增强 AI 响应，添加应用修复的功能
             if (aiJson.code && aiJson.code.trim() !== "null") {
                 // 将修复信息发送到侧边栏，并附加文档信息以便应用
                 this._view.webview.postMessage({ 
                     type: 'addAiMessage', 
+                    streamId,
                     data: {
                         ...aiJson,
                         _diagnosticFix: {
@@ -1398,13 +1349,16 @@ ${contextCode}
                                 start: diagnostic.range.start,
                                 end: diagnostic.range.end
                             },
-                            errorLineCode: errorLineCode
+                            errorLineCode: errorLineCode,
+                            message: diagnostic.message,
+                            severity: diagnostic.severity
                         }
                     }
                 });
             } else {
                 this._view.webview.postMessage({ 
                     type: 'addAiMessage', 
+                    streamId,
                     data: aiJson 
                 });
             }
@@ -1491,7 +1445,7 @@ ${contextCode}
     }
 
     // === 通用 AI 调用 (JSON 模式) ===
-    private async _callAiWithHistory(userMessage: string, codeContext: string = "", useLocalModel: boolean = false) {
+    private async _callAiWithHistory(userMessage: string, codeContext: string = "", useLocalModel: boolean = this._useLocalModel) {
         if (!this._view) return;
 
         // 对于崩溃分析模式，userMessage 已经包含了完整的错误信息和源代码
@@ -1503,45 +1457,34 @@ ${contextCode}
                 : userMessage);
 
         // 对于崩溃分析和题目加载，使用简化的历史记录（避免完整源代码占用太多 token）
+        const userTurn = { role: 'user', content: fullMessage };
         if (codeContext === "RUNTIME_ERROR_ANALYSIS") {
             // 只保存错误摘要，不保存完整源代码
             const errorMatch = userMessage.match(/\*\*控制台报错信息：\*\*\s*```[\s\S]*?```/);
             const errorSummary = errorMatch ? errorMatch[0].substring(0, 200) + '...' : '运行时错误分析';
-            this._history.push({ role: 'user', content: `分析运行时错误: ${errorSummary}` });
+            userTurn.content = `分析运行时错误: ${errorSummary}`;
         } else if (codeContext === "SYSTEM_PROBLEM_MODE") {
             // 题目加载模式也简化历史记录
             const problemMatch = userMessage.match(/我正在解决这个编程题目[^\n]*\n\s*([^\n]+)/);
             const problemSummary = problemMatch ? problemMatch[1].substring(0, 100) : '编程题目';
-            this._history.push({ role: 'user', content: `加载题目: ${problemSummary}...` });
-        } else {
-            // 其他情况正常加入历史记录
-        this._history.push({ role: 'user', content: fullMessage });
+            userTurn.content = `加载题目: ${problemSummary}...`;
         }
+        this._history.push(userTurn);
         
         // 如果不是由 _handleLoadProblem 触发的 loading，这里补一个
         // (简单起见，我们假设前端已经 handle 了 loading，或者重复发也没事)
         
         try {
-            const apiUrl = "https://api.deepseek.com/chat/completions";
-            const modelName = "deepseek-chat";
-            const apiKey = vscode.workspace.getConfiguration('smartcoder').get<string>('apiKey');
-
-            useLocalModel = false;
-            // ✨ 新增：如果是本地模式，修改配置
-
-                // DeepSeek 模式检查 Key
-                if (!apiKey) {
-                    this._view.webview.postMessage({ 
-                        type: 'addAiMessage', 
-                        data: { analysis: "❌ 请先配置 DeepSeek API Key", code: null } 
-                    });
-                    return;
-                }
-            
+            // ✨ 根据设置和侧边栏开关选择 DeepSeek / OpenAI 兼容接口 / 本地模型
+            const provider = createAiProvider(useLocalModel);
 
             // 根据不同的上下文模式使用不同的系统提示词
             let systemPrompt = `你是一个 C# 竞赛编程专家。
-            ⚠️ 必须且只能返回 JSON 格式：{ "analysis": "Markdown文本", "code": "C#代码或null" }
+            ⚠️ 必须且只能返回 JSON 格式：{ "analysis": "Markdown文本", "code": "C#代码或null", "edits": [] }
+            需要修改一个或多个文件的多个位置时，用 "edits" 代替 "code"（"code" 设为 null），每一项为：
+            { "file": "工作区相对路径", "range": { "startLine": 起始行, "endLine": 结束行 }, "newText": "替换这些行的新代码" }
+            或 { "file": "...", "anchor": "文件中要替换的一段原文（必须唯一）", "newText": "..." }；
+            行号从 1 开始并包含两端；没有 range 和 anchor 表示替换整个文件（文件不存在时新建）。
             不要使用 markdown 代码块包裹 JSON。`;
 
             if (codeContext === "RUNTIME_ERROR_ANALYSIS") {
@@ -1570,36 +1513,21 @@ ${contextCode}
                 messages.push(...this._history);
             }
 
-            // 发送请求
-            const response = await fetch(apiUrl, { // 使用动态的 apiUrl
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": `Bearer ${apiKey}`
-                },
-                body: JSON.stringify({
-                    model: modelName, // 使用动态的 modelName
-                    messages: messages, // 使用上面构建好的 messages
-                    response_format: { type: 'json_object' },
-                    stream: false
-                })
-            });
-
-            const data = await response.json() as any;
-            if (!response.ok) throw new Error(data.error?.message || "API Error");
-            
-            const aiRawContent = data.choices[0].message.content;
-            let aiJson;
-            try {
-                aiJson = JSON.parse(aiRawContent.replace(/```json/g, '').replace(/```/g, '').trim());
-            } catch (e) {
-                aiJson = { analysis: aiRawContent, code: null };
+            // 发送请求（流式）
+            const { raw: aiRawContent, streamId } = await this._streamAiReply(provider, messages);
+            if (aiRawContent === null) {
+                // 用户已停止生成：这一轮没有回复，去掉对应的提问，下一轮不会带上没有回答的问题
+                this._removeFromHistory(userTurn);
+                return;
             }
+            const aiJson = parseAiJson(aiRawContent);
+            aiJson.edits = normalizeAiEdits(aiJson.edits);
 
             this._history.push({ role: 'assistant', content: aiRawContent });
-            this._view.webview.postMessage({ type: 'addAiMessage', data: aiJson });
+            this._view.webview.postMessage({ type: 'addAiMessage', streamId, data: aiJson });
 
         } catch (error: any) {
+            this._removeFromHistory(userTurn);
             this._view.webview.postMessage({ 
                 type: 'addAiMessage', 
                 data: { analysis: `❌ 错误: ${error.message}`, code: null } 
@@ -1607,6 +1535,65 @@ ${contextCode}
         }
     }
 
+    // 按对象移除：停止时可能已经有新的一轮加入了历史记录
+    private _removeFromHistory(message: { role: string, content: string }) {
+        const index = this._history.indexOf(message);
+        if (index >= 0) {
+            this._history.splice(index, 1);
+        }
+    }
+
+    // === 流式调用 AI，并把增量推送到侧边栏 ===
+    // 返回完整的原始回复和流 ID（最终结果用同一个 streamId 替换流式气泡）；
+    // 用户点击"停止"时 raw 为 null，已生成的部分保留在界面上
+    private async _streamAiReply(provider: AiProvider, messages: ChatMessage[]): Promise<{ raw: string | null, streamId: string }> {
+        // 同一时间只保留一个请求
+        this._abortController?.abort();
+        const controller = new AbortController();
+        this._abortController = controller;
+
+        const streamId = `stream-${++this._streamSeq}`;
+        let lastText = '';
+        let lastPostTime = 0;
+
+        this._view?.webview.postMessage({ type: 'streamStart', streamId });
+
+        try {
+            const raw = await provider.chatStream(messages, (_delta, text) => {
+                lastText = text;
+                // 节流：每 50ms 最多刷新一次界面
+                const now = Date.now();
+                if (now - lastPostTime < 50) {
+                    return;
+                }
+                lastPostTime = now;
+                this._view?.webview.postMessage({
+                    type: 'addAiMessage',
+                    streamId,
+                    partial: true,
+                    data: { analysis: extractStreamingAnalysis(text), code: null }
+                });
+            }, { jsonMode: true, signal: controller.signal });
+            return { raw, streamId };
+        } catch (error) {
+            if (controller.signal.aborted) {
+                const partialAnalysis = extractStreamingAnalysis(lastText);
+                this._view?.webview.postMessage({
+                    type: 'addAiMessage',
+                    streamId,
+                    data: { analysis: `${partialAnalysis}${partialAnalysis ? '\n\n' : ''}⏹ 已停止生成`, code: null }
+                });
+                return { raw: null, streamId };
+            }
+            throw error;
+        } finally {
+            if (this._abortController === controller) {
+                this._abortController = undefined;
+                this._view?.webview.postMessage({ type: 'streamEnd', streamId });
+            }
+        }
+    }
+
     // === 🔥 智能代码应用：支持智能覆盖和诊断修复 ===
     private async _applyCodeToEditor(code: string, diagnosticFix?: any, unitTest?: any) {
         // 情况0：单元测试模式（创建新测试文件）
@@ -1688,6 +1675,7 @@ ${contextCode}
 
         // 情况1：诊断修复模式（最精确的替换）
         if (diagnosticFix) {
+            let autoRepair: { document: vscode.TextDocument, originalText: string, before: vscode.Diagnostic[], range: vscode.Range } | undefined;
             try {
                 const targetUri = vscode.Uri.parse(diagnosticFix.documentUri);
                 const targetDocument = await vscode.workspace.openTextDocument(targetUri);
@@ -1706,41 +1694,51 @@ ${contextCode}
                 await vscode.window.showTextDocument(targetDocument);
                 const targetEditor = vscode.window.activeTextEditor;
                 if (targetEditor) {
-                    // 计算缩进（保持原代码的缩进）
-                    const originalLine = targetDocument.lineAt(range.start.line);
-                    const leadingWhitespace = originalLine.text.match(/^\s*/)?.[0] || '';
-                    const fixedCode = this._preserveIndentation(code, leadingWhitespace);
+                    // 替换出错的整行，保持原代码的缩进（与灯泡菜单中的 AI 修复相同）
+                    const fix = diagnosticFixEdit(targetDocument, range, code);
+                    const originalText = targetDocument.getText();
+                    const before = vscode.languages.getDiagnostics(targetUri);
 
                     await targetEditor.edit(builder => {
-                        builder.replace(range, fixedCode);
+                        builder.replace(fix.range, fix.newText);
                     });
 
                     // 跳转到修复位置
                     targetEditor.selection = new vscode.Selection(range.start, range.start);
                     targetEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
 
-                    vscode.window.showInformationMessage('诊断错误已修复');
+                    if (vscode.workspace.getConfiguration('smartcoder.autoRepair').get<boolean>('enabled', false)) {
+                        autoRepair = { document: targetDocument, originalText, before, range };
+                    } else {
+                        vscode.window.showInformationMessage('诊断错误已修复');
+                    }
                 }
             } catch (error: any) {
                 vscode.window.showErrorMessage(`应用修复失败: ${error.message}`);
                 // 降级到普通应用模式
                 this._applyCodeToEditor(code);
             }
+
+            // ✨ 自动修复模式：检查修复是否生效，剩余或新出现的错误继续交给 AI
+            if (autoRepair) {
+                const fixing = autoRepair.before.find(d => d.message === diagnosticFix.message && d.range.isEqual(autoRepair!.range))
+                    ?? new vscode.Diagnostic(autoRepair.range, diagnosticFix.message || diagnosticFix.errorLineCode || '', diagnosticFix.severity ?? vscode.DiagnosticSeverity.Error);
+                await this._autoRepair(autoRepair.document, autoRepair.originalText, fixing, autoRepair.before, code);
+            }
             return;
         }
 
-        // 情况1：用户选中了代码，直接替换选中区域
+        // 情况1：用户选中了代码，审阅对选中区域的修改
         if (!editor.selection.isEmpty) {
-            await editor.edit(builder => {
-                builder.replace(editor.selection, code);
-            });
-            vscode.window.showInformationMessage('代码已应用到选中区域');
+            if (await this._review.start(document, editor.selection, code)) {
+                vscode.window.showInformationMessage('已在编辑器中标出对选中区域的修改，请逐处接受或拒绝');
+            }
             return;
         }
 
         // 情况2：智能匹配和替换
         // 尝试识别代码类型（类、方法、完整文件等）
-        const codeType = this._detectCodeType(code);
+        const codeType = this._structure.describeSnippet(code);
         
         let targetRange: vscode.Range | null = null;
 
@@ -1748,13 +1746,13 @@ ${contextCode}
             case 'class':
                 // 查找类定义并替换整个类
                 if (codeType.name) {
-                    targetRange = this._findClassRange(document, codeType.name);
+                    targetRange = await this._structure.findTypeRange(document, codeType.name);
                 }
                 break;
             case 'method':
-                // 查找方法定义并替换方法体
+                // 查找方法定义并替换整个方法
                 if (codeType.name) {
-                    targetRange = this._findMethodRange(document, codeType.name);
+                    targetRange = await this._structure.findMethodRange(document, codeType.name);
                 }
                 break;
             case 'full_file':
@@ -1767,23 +1765,10 @@ ${contextCode}
         }
 
         if (targetRange) {
-            // 显示预览并确认
-            const preview = document.getText(targetRange);
-            const action = await vscode.window.showInformationMessage(
-                `检测到 ${codeType.type === 'class' ? '类' : codeType.type === 'method' ? '方法' : '完整文件'}，是否替换？`,
-                '替换',
-                '取消',
-                '查看差异'
-            );
-
-            if (action === '替换') {
-                await editor.edit(builder => {
-                    builder.replace(targetRange!, code);
-                });
-                vscode.window.showInformationMessage('代码已智能替换');
-            } else if (action === '查看差异') {
-                // 打开差异视图（需要创建临时文件）
-                await this._showDiff(preview, code, codeType.name || '代码', editor, targetRange!);
+            // ✨ 在编辑器中行内审阅，逐处接受 / 拒绝
+            const label = codeType.type === 'class' ? `类 ${codeType.name}` : codeType.type === 'method' ? `方法 ${codeType.name}` : '整个文件';
+            if (await this._review.start(document, targetRange, code)) {
+                vscode.window.showInformationMessage(`已在编辑器中标出对${label}的修改，请逐处接受或拒绝`);
             }
         } else {
             // 无法智能匹配，提供选项
@@ -1799,265 +1784,244 @@ ${contextCode}
                     builder.insert(editor.selection.active, code);
                 });
             } else if (action === '替换整个文件') {
-                const confirm = await vscode.window.showWarningMessage(
-                    '确定要替换整个文件吗？此操作不可撤销。',
-                    '确定',
-                    '取消'
+                const fullRange = new vscode.Range(
+                    document.positionAt(0),
+                    document.positionAt(fullText.length)
                 );
-                if (confirm === '确定') {
-                    await editor.edit(builder => {
-                        const fullRange = new vscode.Range(
-                            document.positionAt(0),
-                            document.positionAt(fullText.length)
-                        );
-                        builder.replace(fullRange, code);
-                    });
-                    vscode.window.showInformationMessage('文件已替换');
+                if (await this._review.start(document, fullRange, code)) {
+                    vscode.window.showInformationMessage('已在编辑器中标出对整个文件的修改，请逐处接受或拒绝');
                 }
             }
         }
     }
 
-    // 检测代码类型
-    private _detectCodeType(code: string): { type: 'class' | 'method' | 'full_file' | 'unknown', name?: string } {
-        const trimmedCode = code.trim();
-        
-        // 检测完整文件（包含 using、namespace、class 等）
-        if (trimmedCode.includes('using ') && (trimmedCode.includes('namespace ') || trimmedCode.includes('class '))) {
-            return { type: 'full_file', name: undefined };
-        }
+    // === ✨ 自动修复：应用修复后重新检查（语言服务诊断或 dotnet build），
+    // 把仍然存在或新出现的错误连同上一次的尝试发回 AI，最多重复 N 次，最后汇总每次尝试，可以回滚到修复前的代码 ===
+    private async _autoRepair(document: vscode.TextDocument, originalText: string, fixing: vscode.Diagnostic, before: vscode.Diagnostic[], firstFix: string) {
+        const config = vscode.workspace.getConfiguration('smartcoder.autoRepair');
+        const maxIterations = Math.max(1, config.get<number>('maxIterations', 3));
+        const useBuild = config.get<string>('verifyWith', 'diagnostics') === 'build' && document.languageId === 'csharp' && document.uri.scheme === 'file';
+        const fileLabel = vscode.workspace.asRelativePath(document.uri);
 
-        // 检测类定义（更精确的正则）
-        const classMatch = trimmedCode.match(/\b(public\s+|private\s+|protected\s+|internal\s+)?(static\s+)?(sealed\s+)?(abstract\s+)?class\s+(\w+)/);
-        if (classMatch) {
-            return { type: 'class', name: classMatch[5] };
-        }
+        const attempts: { label: string, changes: number, errors: vscode.Diagnostic[] }[] = [{ label: '侧边栏修复', changes: 1, errors: [] }];
+        const messages: ChatMessage[] = [{ role: 'system', content: AUTO_REPAIR_SYSTEM_PROMPT }];
+        let previousAttempt = `修复的诊断：第 ${fixing.range.start.line + 1} 行 ${fixing.message}\n\n上一次尝试的修复代码：\n\`\`\`\n${firstFix}\n\`\`\``;
+        let outcome = '';
 
-        // 检测方法定义（C# 方法通常有访问修饰符和返回类型）
-        // 匹配模式：访问修饰符 [static] [async] 返回类型 方法名(参数)
-        const methodMatch = trimmedCode.match(/\b(public|private|protected|internal)\s+(static\s+)?(async\s+)?(\w+\s+)?(\w+)\s*\(/);
-        if (methodMatch && !trimmedCode.includes('class ') && !trimmedCode.includes('namespace ')) {
-            return { type: 'method', name: methodMatch[5] };
-        }
+        try {
+            for (let iteration = 1; ; iteration++) {
+                const errors = await this._checkRepair(document, fixing, before, useBuild);
+                attempts[attempts.length - 1].errors = errors;
+                if (errors.length === 0) {
+                    outcome = '✅ 错误已全部消失';
+                    break;
+                }
+                if (iteration > maxIterations) {
+                    outcome = `⚠️ 已尝试 ${maxIterations} 次，仍有 ${errors.length} 个错误`;
+                    break;
+                }
 
-        // 检测 Main 方法（特殊处理）
-        if (trimmedCode.includes('static void Main') || trimmedCode.includes('static int Main')) {
-            return { type: 'method', name: 'Main' };
-        }
+                this._view?.webview.postMessage({ type: 'addUserMessage', value: `🔁 自动修复第 ${iteration} 次：${fileLabel} 还有 ${errors.length} 个错误` });
+                this._view?.webview.postMessage({ type: 'showLoading' });
 
-        return { type: 'unknown' };
-    }
+                const errorList = errors.map((d, i) => `${i + 1}. 第 ${d.range.start.line + 1} 行 [${getDiagnosticCode(d) || getSeverityText(d.severity)}] ${d.message}`).join('\n');
+                messages.push({
+                    role: 'user',
+                    content: `${previousAttempt ? previousAttempt + '\n\n' : ''}应用修复后${useBuild ? ' dotnet build ' : '重新检查'}发现以下错误：
+${errorList}
 
-    // 查找类定义的范围
-    private _findClassRange(document: vscode.TextDocument, className: string): vscode.Range | null {
-        const text = document.getText();
-        // 更精确的类匹配：匹配 class ClassName 后面可能跟 : 或 {
-        const classRegex = new RegExp(`\\b(public\\s+|private\\s+|protected\\s+|internal\\s+)?(static\\s+)?(sealed\\s+)?(abstract\\s+)?class\\s+${className}\\b`);
-        const match = text.match(classRegex);
-        
-        if (!match || match.index === undefined) {
-            return null;
-        }
+**当前代码（行号 | 代码）：**
+\`\`\`${document.languageId}
+${numberedExcerpt(document, errors.map(d => d.range.start.line), DIAGNOSTIC_CONTEXT_LINES)}
+\`\`\``
+                });
+                previousAttempt = '';
 
-        // 找到类定义的开始位置（class 关键字）
-        const classStartIndex = match.index;
-        const startPos = document.positionAt(classStartIndex);
-        
-        // 从类名后开始查找第一个 {，然后匹配大括号
-        let braceCount = 0;
-        let foundStartBrace = false;
-        let endIndex = classStartIndex;
-        let inString = false;
-        let stringChar = '';
-
-        for (let i = classStartIndex; i < text.length; i++) {
-            const char = text[i];
-            const prevChar = i > 0 ? text[i - 1] : '';
-
-            // 处理字符串（忽略字符串内的大括号）
-            if (!inString && (char === '"' || char === "'")) {
-                inString = true;
-                stringChar = char;
-            } else if (inString && char === stringChar && prevChar !== '\\') {
-                inString = false;
-            }
+                const { raw: aiRawContent, streamId } = await this._streamAiReply(createAiProvider(this._useLocalModel), messages);
+                if (aiRawContent === null) {
+                    outcome = '⏹ 已停止自动修复';
+                    break;
+                }
+                messages.push({ role: 'assistant', content: aiRawContent });
+                const aiJson = parseAiJson(aiRawContent);
+                this._view?.webview.postMessage({ type: 'addAiMessage', streamId, data: { analysis: aiJson.analysis, code: null } });
 
-            if (!inString) {
-                if (char === '{') {
-                    if (!foundStartBrace) {
-                        foundStartBrace = true;
-                        endIndex = i + 1;
-                    }
-                    braceCount++;
-                } else if (char === '}') {
-                    braceCount--;
-                    if (foundStartBrace && braceCount === 0) {
-                        endIndex = i + 1;
-                        break;
-                    }
+                // 自动模式直接写入（不打开预览），最后可以整体回滚
+                const edits = normalizeAiEdits((Array.isArray(aiJson.edits) ? aiJson.edits : []).map((edit: any) => ({ ...edit, file: fileLabel })));
+                const { hunks } = resolveFileEdits(document.getText(), edits);
+                if (hunks.length === 0) {
+                    outcome = '⚠️ AI 没有给出可应用的修改，自动修复结束';
+                    break;
+                }
+                const workspaceEdit = new vscode.WorkspaceEdit();
+                for (const hunk of hunks) {
+                    workspaceEdit.replace(document.uri, new vscode.Range(document.positionAt(hunk.start), document.positionAt(hunk.end)), hunk.edit.newText);
+                }
+                if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+                    outcome = '❌ 无法写入修改，自动修复结束';
+                    break;
                 }
+                attempts.push({ label: `自动修复 ${iteration}`, changes: hunks.length, errors: [] });
+            }
+        } catch (error: any) {
+            outcome = `❌ 自动修复出错：${error.message}`;
+        }
+
+        // 汇总每次尝试
+        const rows = attempts.map((attempt, i) => `| ${i + 1} | ${attempt.label} | ${attempt.changes} 处 | ${attempt.errors.length} |`).join('\n');
+        const summary = `### 🔧 自动修复汇总：${fileLabel}\n\n| 次数 | 来源 | 修改 | 剩余错误 |\n| --- | --- | --- | --- |\n${rows}\n\n${outcome}`;
+        this._view?.webview.postMessage({ type: 'addAiMessage', data: { analysis: summary, code: null } });
+
+        const finalVersion = document.version;
+        const action = await vscode.window.showInformationMessage(`自动修复结束：${outcome}`, '保留修改', '回滚到原始代码');
+        if (action !== '回滚到原始代码') {
+            return;
+        }
+        if (document.isClosed) {
+            vscode.window.showWarningMessage('文件已关闭，无法回滚');
+            return;
+        }
+        if (document.version !== finalVersion) {
+            const confirm = await vscode.window.showWarningMessage('自动修复结束后文件又被修改过，回滚会丢弃这些修改，确定回滚吗？', { modal: true }, '回滚');
+            if (confirm !== '回滚') {
+                return;
             }
         }
+        const rollback = new vscode.WorkspaceEdit();
+        rollback.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), originalText);
+        if (await vscode.workspace.applyEdit(rollback)) {
+            vscode.window.showInformationMessage('已回滚到修复前的代码');
+        }
+    }
 
-        if (!foundStartBrace) {
-            return null; // 没找到类的大括号
+    // 自动修复的检查：返回仍然存在的原诊断和新出现的错误
+    private async _checkRepair(document: vscode.TextDocument, fixing: vscode.Diagnostic, before: vscode.Diagnostic[], useBuild: boolean): Promise<vscode.Diagnostic[]> {
+        if (!useBuild) {
+            const after = await waitForDiagnosticsUpdate(document.uri, DIAGNOSTIC_RECHECK_TIMEOUT_MS);
+            const { unresolved, introduced } = compareDiagnostics([fixing], before, after);
+            return [...unresolved, ...introduced.filter(d => !unresolved.includes(d))];
         }
 
-        const endPos = document.positionAt(endIndex);
-        return new vscode.Range(startPos, endPos);
+        // dotnet build 读取磁盘上的文件，先保存
+        await document.save();
+        const project = findCSharpProject(document.uri.fsPath);
+        if (!project) {
+            throw new Error('找不到 .csproj 项目文件，无法用 dotnet build 检查');
+        }
+        const errors = await runDotnetBuild(project);
+        return errors
+            .filter(error => path.resolve(error.file) === path.resolve(document.uri.fsPath))
+            .map(error => {
+                const position = new vscode.Position(Math.max(0, error.line - 1), Math.max(0, error.column - 1));
+                const diagnostic = new vscode.Diagnostic(new vscode.Range(position, position), error.message, vscode.DiagnosticSeverity.Error);
+                diagnostic.code = error.code;
+                return diagnostic;
+            });
     }
 
-    // 查找方法定义的范围
-    private _findMethodRange(document: vscode.TextDocument, methodName: string): vscode.Range | null {
-        const text = document.getText();
-        // 更精确的方法匹配：访问修饰符 [static] [async] 返回类型 方法名(参数)
-        const methodRegex = new RegExp(`\\b(public|private|protected|internal)\\s+(static\\s+)?(async\\s+)?(\\w+\\s+)?${methodName}\\s*\\([^)]*\\)\\s*{?`, 'g');
-        let match: RegExpExecArray | null;
-        
-        while ((match = methodRegex.exec(text)) !== null) {
-            const startIndex = match.index;
-            const startPos = document.positionAt(startIndex);
-            
-            // 从方法签名后开始查找方法体
-            // 找到方法签名的结束位置（通常是 ) 或 {）
-            let methodSignatureEnd = startIndex + match[0].length;
-            while (methodSignatureEnd < text.length && text[methodSignatureEnd] !== '{' && text[methodSignatureEnd] !== ';') {
-                methodSignatureEnd++;
+    // === ✨ 多处修改：合成一个 WorkspaceEdit，在重构预览中逐处确认，一次撤销全部 ===
+    private async _applyAiEdits(edits: AiEdit[]) {
+        if (edits.length === 0) {
+            vscode.window.showWarningMessage('AI 回复中没有可应用的修改');
+            return;
+        }
+
+        try {
+            // 按文件分组：同一文件的修改一起解析，检查是否重叠
+            const groups = new Map<string, { uri: vscode.Uri, edits: AiEdit[] }>();
+            for (const edit of edits) {
+                const uri = await this._resolveEditTarget(edit.file);
+                const group = groups.get(uri.toString()) ?? { uri, edits: [] };
+                group.edits.push(edit);
+                groups.set(uri.toString(), group);
             }
 
-            // 如果是抽象方法或接口方法（以 ; 结尾），跳过
-            if (text[methodSignatureEnd] === ';') {
-                continue;
+            if (await this._previewEdits([...groups.values()])) {
+                vscode.window.showInformationMessage(`已应用修改（涉及 ${groups.size} 个文件），可以用一次撤销全部还原`);
             }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`应用修改失败: ${error.message}`);
+        }
+    }
 
-            // 从第一个 { 开始匹配大括号
-            let braceCount = 0;
-            let foundStartBrace = false;
-            let endIndex = methodSignatureEnd;
-            let inString = false;
-            let stringChar = '';
-
-            for (let i = methodSignatureEnd; i < text.length; i++) {
-                const char = text[i];
-                const prevChar = i > 0 ? text[i - 1] : '';
-
-                // 处理字符串
-                if (!inString && (char === '"' || char === "'")) {
-                    inString = true;
-                    stringChar = char;
-                } else if (inString && char === stringChar && prevChar !== '\\') {
-                    inString = false;
-                }
-
-                if (!inString) {
-                    if (char === '{') {
-                        if (!foundStartBrace) {
-                            foundStartBrace = true;
-                            endIndex = i + 1;
-                        }
-                        braceCount++;
-                    } else if (char === '}') {
-                        braceCount--;
-                        if (foundStartBrace && braceCount === 0) {
-                            endIndex = i + 1;
-                            break;
-                        }
-                    }
+    // 把按文件分组的修改合成一个 WorkspaceEdit 并打开重构预览，返回用户是否确认应用
+    private async _previewEdits(groups: { uri: vscode.Uri, edits: AiEdit[] }[]): Promise<boolean> {
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        const failures: string[] = [];
+        let hunkCount = 0;
+        for (const { uri, edits } of groups) {
+            const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString())
+                ?? (await this._fileExists(uri) ? await vscode.workspace.openTextDocument(uri) : undefined);
+            const { hunks, failures: fileFailures } = resolveFileEdits(document ? document.getText() : null, edits);
+            const fileLabel = vscode.workspace.asRelativePath(uri);
+            failures.push(...fileFailures.map(failure => `${fileLabel}（${describeAiEdit(failure.edit)}）：${failure.reason}`));
+
+            for (const hunk of hunks) {
+                // 同一 label 的修改在预览中归为一组，每处修改可以单独取消勾选
+                const metadata = { needsConfirmation: true, label: fileLabel, description: describeAiEdit(hunk.edit) };
+                if (document) {
+                    const range = new vscode.Range(document.positionAt(hunk.start), document.positionAt(hunk.end));
+                    workspaceEdit.replace(uri, range, hunk.edit.newText, metadata);
+                } else {
+                    workspaceEdit.createFile(uri, { contents: new TextEncoder().encode(hunk.edit.newText) }, metadata);
                 }
+                hunkCount++;
             }
+        }
 
-            if (foundStartBrace) {
-                const endPos = document.positionAt(endIndex);
-                return new vscode.Range(startPos, endPos);
+        if (hunkCount === 0) {
+            vscode.window.showErrorMessage(`无法定位任何修改：\n${failures.join('\n')}`);
+            return false;
+        }
+        if (failures.length > 0) {
+            const action = await vscode.window.showWarningMessage(
+                `${failures.length} 处修改无法定位，将被跳过`,
+                { modal: true, detail: failures.join('\n') },
+                '预览其余修改'
+            );
+            if (action !== '预览其余修改') {
+                return false;
             }
         }
 
-        return null;
+        // 带 needsConfirmation 的修改会打开重构预览，用户确认后才写入
+        return vscode.workspace.applyEdit(workspaceEdit, { isRefactoring: true });
     }
 
-    // 保留缩进辅助方法
-    private _preserveIndentation(code: string, baseIndent: string): string {
-        const lines = code.split('\n');
-        if (lines.length <= 1) {
-            // 单行代码，直接加上基础缩进
-            return baseIndent + code.trim();
+    // AI 给出的路径：绝对路径直接使用；相对路径依次在各工作区文件夹中查找，
+    // 都不存在时匹配当前编辑器的文件（AI 常只给文件名），否则视为在第一个工作区文件夹下新建
+    private async _resolveEditTarget(file: string): Promise<vscode.Uri> {
+        if (path.isAbsolute(file)) {
+            return vscode.Uri.file(file);
         }
 
-        // 多行代码：第一行加基础缩进，其他行保持相对缩进
-        const result = lines.map((line, index) => {
-            if (index === 0) {
-                return baseIndent + line.trimStart();
+        const relative = file.replace(/\\/g, '/').replace(/^\.\//, '');
+        const candidates = (vscode.workspace.workspaceFolders ?? []).map(folder => vscode.Uri.joinPath(folder.uri, relative));
+        for (const uri of candidates) {
+            if (await this._fileExists(uri)) {
+                return uri;
             }
-            // 计算相对缩进（保留代码块内部的缩进结构）
-            const relativeIndent = line.match(/^\s*/)?.[0] || '';
-            return baseIndent + relativeIndent + line.trimStart();
-        });
+        }
 
-        return result.join('\n');
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        if (activeUri && (activeUri.path === relative || activeUri.path.endsWith('/' + relative))) {
+            return activeUri;
+        }
+        if (candidates.length > 0) {
+            return candidates[0];
+        }
+        if (activeUri && activeUri.scheme === 'file') {
+            return vscode.Uri.joinPath(activeUri, '..', relative);
+        }
+        throw new Error(`没有打开的工作区，无法确定 ${file} 的位置`);
     }
 
-    // 显示差异视图
-    private async _showDiff(oldCode: string, newCode: string, label: string, editor?: vscode.TextEditor, targetRange?: vscode.Range) {
+    private async _fileExists(uri: vscode.Uri): Promise<boolean> {
         try {
-            // 生成唯一的 URI（使用时间戳避免冲突）
-            const timestamp = Date.now();
-            const sanitizedLabel = label.replace(/[^a-zA-Z0-9]/g, '_');
-            const oldUri = vscode.Uri.parse(`smartcoder-diff:old-${sanitizedLabel}-${timestamp}.cs`);
-            const newUri = vscode.Uri.parse(`smartcoder-diff:new-${sanitizedLabel}-${timestamp}.cs`);
-
-            // 更新内容提供者的内容
-            this._diffProvider.updateContent(oldUri, oldCode);
-            this._diffProvider.updateContent(newUri, newCode);
-
-            // 打开差异视图
-            await vscode.commands.executeCommand(
-                'vscode.diff',
-                oldUri,
-                newUri,
-                `${label} (原代码) ↔ ${label} (新代码)`
-            );
-
-            // ✨ Task 3: After showing diff, ask if user wants to apply changes
-            if (editor && targetRange) {
-                // Wait a bit for the diff view to open
-                await new Promise(resolve => setTimeout(resolve, 500));
-                
-                const applyAction = await vscode.window.showInformationMessage(
-                    'Reviewing Diff... Do you want to apply these changes now?',
-                    'Yes, Apply',
-                    'No'
-                );
-
-                if (applyAction === 'Yes, Apply') {
-                    // ✨ Fix: Re-acquire the editor as it might be closed after diff view opens
-                    const currentEditor = vscode.window.activeTextEditor;
-                    if (!currentEditor) {
-                        // Try to reopen the original document
-                        const document = await vscode.workspace.openTextDocument(editor.document.uri);
-                        const reopenedEditor = await vscode.window.showTextDocument(document);
-                        
-                        if (reopenedEditor) {
-                            await reopenedEditor.edit(builder => {
-                                builder.replace(targetRange, newCode);
-                            });
-                            vscode.window.showInformationMessage('代码已应用');
-                        } else {
-                            vscode.window.showErrorMessage('无法打开编辑器以应用更改');
-                        }
-                    } else {
-                        // Use the currently active editor
-                        const document = currentEditor.document;
-                        const range = targetRange;
-                        
-                        await currentEditor.edit(builder => {
-                            builder.replace(range, newCode);
-                        });
-                        vscode.window.showInformationMessage('✅ 代码已应用');
-                    }
-                }
-            }
-        } catch (error: any) {
-            vscode.window.showErrorMessage(`打开差异视图失败: ${error.message}`);
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
         }
     }
 
@@ -2271,6 +2235,70 @@ ${contextCode}
                     font-weight: 500;
                 }
 
+                /* === Test Case Report === */
+                .case-report {
+                    margin: 8px;
+                    font-size: 12px;
+                }
+
+                .case-report table {
+                    width: 100%;
+                    border-collapse: collapse;
+                }
+
+                .case-report th,
+                .case-report td {
+                    padding: 3px 6px;
+                    text-align: left;
+                    border-bottom: 1px solid var(--vscode-widget-border);
+                }
+
+                .case-report tr.case-row {
+                    cursor: pointer;
+                }
+
+                .case-report tr.case-row:hover {
+                    background: var(--vscode-list-hoverBackground);
+                }
+
+                .case-status-pass {
+                    color: var(--vscode-testing-iconPassed, #73c991);
+                }
+
+                .case-status-fail {
+                    color: var(--vscode-errorForeground);
+                }
+
+                .case-detail-label {
+                    margin-top: 6px;
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .case-detail pre {
+                    margin: 2px 0;
+                    padding: 4px 6px;
+                    max-height: 200px;
+                    overflow: auto;
+                    background: var(--vscode-textCodeBlock-background);
+                    white-space: pre-wrap;
+                }
+
+                .diff-line.removed {
+                    background: var(--vscode-diffEditor-removedTextBackground);
+                }
+
+                .diff-line.added {
+                    background: var(--vscode-diffEditor-insertedTextBackground);
+                }
+
+                .case-rerun-btn {
+                    background: transparent;
+                    color: var(--vscode-textLink-foreground);
+                    border: none;
+                    cursor: pointer;
+                    font-size: 11px;
+                }
+
                 /* === Performance Dashboard (Badge Style) === */
                 .performance-dashboard {
                     display: flex;
@@ -2445,6 +2473,26 @@ ${contextCode}
                     background: var(--vscode-button-hoverBackground);
                 }
 
+                .edit-list {
+                    margin: 0;
+                    padding: 6px 8px 6px 24px;
+                    font-family: 'Consolas', 'Monaco', monospace;
+                    font-size: 12px;
+                }
+
+                .edit-location {
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                .frame-link {
+                    color: var(--vscode-textLink-foreground);
+                    cursor: pointer;
+                }
+
+                .frame-link:hover {
+                    text-decoration: underline;
+                }
+
                 /* === Sticky Input Area === */
                 .input-area {
                     position: sticky;
@@ -2491,7 +2539,7 @@ ${contextCode}
                     gap: 6px;
                 }
 
-                #submitCloudBtn {
+                #submitCloudBtn, #stressTestBtn {
                     height: 26px;
                     background: transparent;
                     color: var(--vscode-foreground);
@@ -2505,7 +2553,25 @@ ${contextCode}
                     display: none;
                 }
 
-                #submitCloudBtn:hover {
+                #submitCloudBtn:hover, #stressTestBtn:hover {
+                    background: var(--vscode-toolbar-hoverBackground);
+                }
+
+                #stopBtn {
+                    height: 26px;
+                    background: transparent;
+                    color: var(--vscode-errorForeground);
+                    border: 1px solid var(--vscode-widget-border);
+                    padding: 4px 10px;
+                    border-radius: 2px;
+                    cursor: pointer;
+                    font-size: 12px;
+                    font-weight: 400;
+                    transition: background 0.15s;
+                    display: none;
+                }
+
+                #stopBtn:hover {
                     background: var(--vscode-toolbar-hoverBackground);
                 }
 
@@ -2679,6 +2745,8 @@ ${contextCode}
                 <textarea id="msgInput" placeholder="输入问题... (Ctrl+Enter发送)"></textarea>
                 <div class="button-row">
                     <button id="submitCloudBtn">提交到网页端</button>
+                    <button id="stressTestBtn" title="用随机输入与参考解比较输出">对拍</button>
+                    <button id="stopBtn" title="停止生成">停止</button>
                     <button id="sendBtn">发送</button>
                 </div>
             </div>
@@ -2708,11 +2776,26 @@ ${contextCode}
                     }
                 });
 
+                // ✨ 本地模型开关：同步给扩展端，其他 AI 功能也按此选择模型
+                useLocalModelCheckbox.addEventListener('change', () => {
+                    vscode.postMessage({ type: 'setUseLocalModel', value: useLocalModelCheckbox.checked });
+                });
+
+                // ✨ 停止当前 AI 生成
+                document.getElementById('stopBtn').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'stopGeneration' });
+                });
+
                 // 🔥 云端提交按钮点击事件
                 document.getElementById('submitCloudBtn').addEventListener('click', () => {
                     vscode.postMessage({ type: 'submitToCloud' });
                 });
 
+                // ✨ 对拍按钮
+                document.getElementById('stressTestBtn').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'stressTest' });
+                });
+
                 // 更新性能仪表板
                 function updatePerformanceDashboard(runtime, memory) {
                     if (runtime !== undefined && memory !== undefined && runtime >= 0 && memory >= 0) {
@@ -2743,6 +2826,7 @@ ${contextCode}
                             document.getElementById('pTitle').textContent = msg.title || '未知';
                             document.getElementById('pId').textContent = msg.id || '-';
                             document.getElementById('submitCloudBtn').style.display = 'inline-block';
+                            document.getElementById('stressTestBtn').style.display = 'inline-block';
                             addMessage('system', { text: '已连接云端，请开始解题！' });
                             break;
                         case 'setCodeContext':
@@ -2755,7 +2839,17 @@ ${contextCode}
                             break;
                         case 'addAiMessage':
                             document.getElementById('loading')?.remove();
-                            addMessage('ai', msg.data);
+                            if (msg.partial) {
+                                // 流式增量：只刷新同一个气泡的文本
+                                updateStreamingMessage(msg.streamId, msg.data.analysis);
+                                break;
+                            }
+                            const aiDiv = addMessage('ai', msg.data);
+                            // 最终结果替换掉流式气泡，保持消息位置不变
+                            const streamDiv = msg.streamId ? document.getElementById(msg.streamId) : null;
+                            if (streamDiv) {
+                                streamDiv.replaceWith(aiDiv);
+                            }
                             // 检查是否有性能数据
                             if (msg.data && msg.data.runtime !== undefined && msg.data.memory !== undefined) {
                                 updatePerformanceDashboard(msg.data.runtime, msg.data.memory);
@@ -2772,12 +2866,27 @@ ${contextCode}
                             chatDiv.appendChild(div);
                             chatDiv.scrollTop = chatDiv.scrollHeight;
                             break;
+                        case 'streamStart':
+                            document.getElementById('stopBtn').style.display = 'inline-block';
+                            break;
+                        case 'streamEnd':
+                            document.getElementById('stopBtn').style.display = 'none';
+                            break;
                         case 'updatePerformance':
                             updatePerformanceDashboard(msg.runtime, msg.memory);
                             break;
                         case 'updateOutput':
                             updateOutputTerminal(msg.output);
                             break;
+                        case 'judgeReport':
+                            renderJudgeReport(msg.submissionId, msg.caseResults);
+                            break;
+                        case 'caseResultUpdate':
+                            updateCaseResult(msg);
+                            break;
+                        case 'runtimeError':
+                            renderRuntimeError(msg);
+                            break;
                     }
                 });
 
@@ -2804,7 +2913,7 @@ ${contextCode}
                         type: 'askAI', 
                         value: text || "请分析", 
                         codeContext: currentCodeContext,
-                        useLocalModel: false  // 告诉后端使用什么模型
+                        useLocalModel: useLocal  // 告诉后端使用什么模型
                     });
                     msgInput.value = '';
                     clearContext();
@@ -2881,6 +2990,18 @@ ${contextCode}
                             
                             html += \`<div class="code-box"><div class="code-header"><span>\${fixLabel}</span><button class="apply-btn" onclick="applyCode('\${codeB64}', '\${fixInfoB64}', '\${unitTestInfoB64}')">应用</button></div><div class="code-content">\${codeHtml}</div></div>\`;
                         }
+
+                        // ✨ 多处修改：列出每处修改的位置，在重构预览中逐处确认
+                        if (Array.isArray(data.edits) && data.edits.length > 0) {
+                            const editsB64 = btoa(unescape(encodeURIComponent(JSON.stringify(data.edits))));
+                            const items = data.edits.map(edit => {
+                                const location = edit.range
+                                    ? '第 ' + edit.range.startLine + '-' + edit.range.endLine + ' 行'
+                                    : (edit.anchor ? '按原文定位' : '整个文件');
+                                return '<li>' + escapeHtml(edit.file) + ' <span class="edit-location">' + location + '</span></li>';
+                            }).join('');
+                            html += \`<div class="code-box"><div class="code-header"><span>\${data.edits.length} 处修改</span><button class="apply-btn" onclick="applyEdits('\${editsB64}')">预览并应用</button></div><ul class="edit-list">\${items}</ul></div>\`;
+                        }
                         div.innerHTML = html;
                         
                         // Highlight code blocks after rendering
@@ -2892,8 +3013,137 @@ ${contextCode}
                     }
                     chatDiv.appendChild(div);
                     chatDiv.scrollTop = chatDiv.scrollHeight;
+                    return div;
+                }
+
+                // ✨ 测试用例结果表：点击一行展开输入和期望 / 实际输出的逐行对比，"重跑"单独重新运行该用例
+                function escapeHtml(text) {
+                    return String(text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;');
+                }
+
+                function renderLineDiff(rows) {
+                    const prefixes = { same: ' ', removed: '-', added: '+' };
+                    return rows.map(row => \`<div class="diff-line \${row.kind}">\${prefixes[row.kind]} \${escapeHtml(row.text)}</div>\`).join('');
+                }
+
+                function renderCaseDetail(c) {
+                    if (c.hidden) {
+                        return \`<div class="case-detail">隐藏用例，不显示输入和输出\${c.message ? '：' + escapeHtml(c.message) : ''}</div>\`;
+                    }
+                    let html = '<div class="case-detail">';
+                    if (c.message) {
+                        html += \`<div>\${escapeHtml(c.message)}</div>\`;
+                    }
+                    html += \`<div class="case-detail-label">输入</div><pre>\${escapeHtml(c.input)}</pre>\`;
+                    html += \`<div class="case-detail-label">输出对比（- 期望，+ 实际）</div><pre>\${renderLineDiff(c.outputDiff || [])}</pre>\`;
+                    if (c.stderr) {
+                        html += \`<div class="case-detail-label">stderr</div><pre>\${escapeHtml(c.stderr)}</pre>\`;
+                    }
+                    return html + '</div>';
+                }
+
+                // 用例的两行：摘要行 + 默认折叠的详情行
+                function createCaseRows(submissionId, c) {
+                    const row = document.createElement('tr');
+                    row.className = 'case-row';
+                    row.dataset.caseNumber = c.caseNumber;
+                    const statusClass = c.status === 'Accepted' ? 'case-status-pass' : 'case-status-fail';
+                    row.innerHTML = \`<td>\${c.caseNumber}\${c.hidden ? ' 🔒' : ''}</td><td class="\${statusClass}">\${escapeHtml(c.status)}</td>\`
+                        + \`<td>\${c.runtime}ms</td><td>\${(c.memory / 1024).toFixed(2)}KB</td><td><button class="case-rerun-btn">重跑</button></td>\`;
+
+                    const detailRow = document.createElement('tr');
+                    detailRow.className = 'case-detail-row';
+                    detailRow.style.display = 'none';
+                    detailRow.innerHTML = \`<td colspan="5">\${renderCaseDetail(c)}</td>\`;
+
+                    row.addEventListener('click', () => {
+                        detailRow.style.display = detailRow.style.display === 'none' ? '' : 'none';
+                    });
+                    row.querySelector('.case-rerun-btn').addEventListener('click', (event) => {
+                        event.stopPropagation();
+                        event.target.disabled = true;
+                        event.target.textContent = '运行中...';
+                        vscode.postMessage({ type: 'rerunCase', submissionId, caseNumber: c.caseNumber });
+                    });
+                    return [row, detailRow];
+                }
+
+                function renderJudgeReport(submissionId, caseResults) {
+                    const div = document.createElement('div');
+                    div.className = 'case-report';
+                    div.dataset.submissionId = submissionId;
+                    div.innerHTML = '<table><thead><tr><th>用例</th><th>状态</th><th>时间</th><th>内存</th><th></th></tr></thead><tbody></tbody></table>';
+                    const tbody = div.querySelector('tbody');
+                    for (const c of caseResults) {
+                        tbody.append(...createCaseRows(submissionId, c));
+                    }
+                    chatDiv.appendChild(div);
+                    chatDiv.scrollTop = chatDiv.scrollHeight;
+                }
+
+                // 崩溃的调用栈：每个栈帧可点击，跳转到对应文件的出错行
+                function renderRuntimeError(msg) {
+                    const div = document.createElement('div');
+                    div.className = 'code-box';
+                    div.innerHTML = \`<div class="code-header"><span>💥 \${escapeHtml(msg.title)}</span></div>\`;
+                    if (msg.frames.length > 0) {
+                        const list = document.createElement('ul');
+                        list.className = 'edit-list';
+                        msg.frames.forEach((frame, index) => {
+                            const item = document.createElement('li');
+                            item.innerHTML = \`<span class="frame-link">\${escapeHtml(frame.location)}</span> <span class="edit-location">\${escapeHtml(frame.method || '')}</span>\`;
+                            item.querySelector('.frame-link').addEventListener('click', () => {
+                                vscode.postMessage({ type: 'openFrame', captureId: msg.captureId, frameIndex: index });
+                            });
+                            list.appendChild(item);
+                        });
+                        div.appendChild(list);
+                    }
+                    chatDiv.appendChild(div);
+                    chatDiv.scrollTop = chatDiv.scrollHeight;
+                }
+
+                // 重跑完成：替换对应用例的两行，并展开详情
+                function updateCaseResult(msg) {
+                    const report = chatDiv.querySelector(\`.case-report[data-submission-id="\${msg.submissionId}"]\`);
+                    const caseNumber = msg.caseResult ? msg.caseResult.caseNumber : msg.caseNumber;
+                    const row = report && report.querySelector(\`tr.case-row[data-case-number="\${caseNumber}"]\`);
+                    if (!row) {
+                        return;
+                    }
+                    if (!msg.caseResult) {
+                        const button = row.querySelector('.case-rerun-btn');
+                        button.disabled = false;
+                        button.textContent = '重跑';
+                        return;
+                    }
+                    const [newRow, newDetailRow] = createCaseRows(msg.submissionId, msg.caseResult);
+                    newDetailRow.style.display = '';
+                    row.nextElementSibling.replaceWith(newDetailRow);
+                    row.replaceWith(newRow);
+                }
+
+                // 流式生成中的 AI 气泡（按 streamId 复用同一个元素）
+                function updateStreamingMessage(streamId, analysis) {
+                    let div = document.getElementById(streamId);
+                    if (!div) {
+                        div = document.createElement('div');
+                        div.id = streamId;
+                        div.className = 'message ai';
+                        chatDiv.appendChild(div);
+                    }
+                    if (typeof marked !== 'undefined') {
+                        div.innerHTML = marked.parse(analysis || '');
+                    } else {
+                        div.textContent = analysis || '';
+                    }
+                    chatDiv.scrollTop = chatDiv.scrollHeight;
                 }
 
+                window.applyEdits = (b64) => {
+                    vscode.postMessage({ type: 'applyEdits', edits: JSON.parse(decodeURIComponent(escape(atob(b64)))) });
+                };
+
                 window.applyCode = (b64, fixInfoB64, unitTestInfoB64) => {
                     const code = decodeURIComponent(escape(atob(b64)));
                     const message = { type: 'applyCode', value: code };
@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import { diffLines, shiftLineRange } from './lineDiff';
+
+// === 行内审阅 ===
+// 建议的修改直接写进真实的编辑器：旧行（删除线）后面紧跟新行（高亮），每处修改上方有 CodeLens "接受 / 拒绝"，
+// 第一处修改上方还有"全部接受 / 全部拒绝"。接受删掉旧行，拒绝删掉新行。
+// CodeLens 命令带着文档 URI 和版本号：文档在 CodeLens 生成之后有任何变化，命令都不会执行，
+// 过期的建议不会被应用到错误的文件或位置。
+// 审阅期间文件里同时有旧行和新行：保存（包括自动保存）时先撤下未处理的新行，文件按原来的内容保存，保存完成后再放回新行继续审阅；
+// 文档在审阅中被关闭后又以同样的内容打开（例如切换语言模式、热退出恢复），撤销未处理的修改。
+
+interface ReviewHunk {
+    id: number;
+    line: number;       // 旧行的第一行；旧行在 [line, line + oldCount)
+    oldCount: number;
+    newCount: number;   // 新行紧跟在旧行之后
+}
+
+type ReviewAction = 'accept' | 'reject';
+
+export class InlineReviewController implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly _reviews = new Map<string, ReviewHunk[]>();
+    private readonly _closedReviews = new Map<string, { hunks: ReviewHunk[], text: string }>();  // 审阅中被关闭的文档
+    private readonly _savingReviews = new Map<string, { hunks: ReviewHunk[], newLines: string[][] }>();  // 保存期间暂时撤下的新行
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    private readonly _removedDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+        textDecoration: 'line-through',
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+    private readonly _addedDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('diffEditor.insertedLineBackground'),
+        overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _applying = false;  // 正在写入自己的修改，这期间的文档变化不当作用户编辑
+    private _nextHunkId = 1;
+
+    constructor() {
+        this._disposables.push(
+            vscode.languages.registerCodeLensProvider([{ scheme: 'file' }, { scheme: 'untitled' }], this),
+            vscode.commands.registerCommand('smartcoder.review.accept', (uri: string, version: number, hunkId: number) => this._resolve(uri, version, 'accept', hunkId)),
+            vscode.commands.registerCommand('smartcoder.review.reject', (uri: string, version: number, hunkId: number) => this._resolve(uri, version, 'reject', hunkId)),
+            vscode.commands.registerCommand('smartcoder.review.acceptAll', (uri: string, version: number) => this._resolve(uri, version, 'accept')),
+            vscode.commands.registerCommand('smartcoder.review.rejectAll', (uri: string, version: number) => this._resolve(uri, version, 'reject')),
+            vscode.workspace.onDidChangeTextDocument(e => this._onDocumentChanged(e)),
+            vscode.workspace.onWillSaveTextDocument(e => this._onWillSave(e)),
+            vscode.workspace.onDidSaveTextDocument(document => this._onDidSave(document)),
+            vscode.workspace.onDidCloseTextDocument(document => this._onDocumentClosed(document)),
+            vscode.workspace.onDidOpenTextDocument(document => this._onDocumentOpened(document)),
+            vscode.window.onDidChangeVisibleTextEditors(() => this._refreshDecorations())
+        );
+    }
+
+    // 开始审阅：把 range 的内容换成 newText 的建议标在编辑器中（range 所在的行整体参与比较）
+    async start(document: vscode.TextDocument, range: vscode.Range, newText: string): Promise<boolean> {
+        const key = document.uri.toString();
+        if (this._reviews.has(key)) {
+            vscode.window.showWarningMessage('这个文件中还有未处理的建议，请先全部接受或拒绝');
+            return false;
+        }
+
+        const lineRange = new vscode.Range(range.start.line, 0, range.end.line, document.lineAt(range.end.line).text.length);
+        const prefix = document.lineAt(range.start.line).text.substring(0, range.start.character);
+        const suffix = document.lineAt(range.end.line).text.substring(range.end.character);
+        const oldLines = document.getText(lineRange).split(/\r?\n/);
+        const newLines = (prefix + newText.replace(/\r\n/g, '\n') + suffix).split('\n');
+
+        const changes = diffLines(oldLines, newLines);
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage('建议的代码与当前代码相同');
+            return false;
+        }
+
+        // 相同的行保持不动，每处修改的新行插在对应的旧行之后
+        const merged: string[] = [];
+        const hunks: ReviewHunk[] = [];
+        let oldIndex = 0;
+        for (const change of changes) {
+            merged.push(...oldLines.slice(oldIndex, change.oldStart));
+            hunks.push({ id: this._nextHunkId++, line: range.start.line + merged.length, oldCount: change.oldLines.length, newCount: change.newLines.length });
+            merged.push(...change.oldLines, ...change.newLines);
+            oldIndex = change.oldStart + change.oldLines.length;
+        }
+        merged.push(...oldLines.slice(oldIndex));
+
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        if (!await this._edit(edit => edit.replace(document.uri, lineRange, merged.join(eol)))) {
+            return false;
+        }
+        this._reviews.set(key, hunks);
+        this._refresh();
+        return true;
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const hunks = this._reviews.get(document.uri.toString());
+        if (!hunks) {
+            return [];
+        }
+
+        const uri = document.uri.toString();
+        const lenses: vscode.CodeLens[] = [];
+        hunks.forEach((hunk, index) => {
+            const range = new vscode.Range(hunk.line, 0, hunk.line, 0);
+            if (index === 0 && hunks.length > 1) {
+                lenses.push(new vscode.CodeLens(range, { title: `✓ 全部接受（${hunks.length} 处）`, command: 'smartcoder.review.acceptAll', arguments: [uri, document.version] }));
+                lenses.push(new vscode.CodeLens(range, { title: '✗ 全部拒绝', command: 'smartcoder.review.rejectAll', arguments: [uri, document.version] }));
+            }
+            lenses.push(new vscode.CodeLens(range, { title: '✓ 接受', command: 'smartcoder.review.accept', arguments: [uri, document.version, hunk.id] }));
+            lenses.push(new vscode.CodeLens(range, { title: '✗ 拒绝', command: 'smartcoder.review.reject', arguments: [uri, document.version, hunk.id] }));
+        });
+        return lenses;
+    }
+
+    dispose() {
+        this._reviews.clear();
+        this._closedReviews.clear();
+        this._savingReviews.clear();
+        this._removedDecoration.dispose();
+        this._addedDecoration.dispose();
+        this._onDidChangeCodeLenses.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+
+    // 接受 / 拒绝一处（hunkId）或全部修改
+    private async _resolve(uri: string, version: number, action: ReviewAction, hunkId?: number) {
+        const hunks = this._reviews.get(uri);
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri);
+        if (!hunks || !document || document.version !== version) {
+            vscode.window.showWarningMessage('这条建议已过期（文件在此之后被修改过），请使用最新的接受 / 拒绝按钮');
+            this._onDidChangeCodeLenses.fire();
+            return;
+        }
+
+        const targets = hunkId === undefined ? hunks : hunks.filter(hunk => hunk.id === hunkId);
+        // 接受删除旧行，拒绝删除新行；各处修改之间至少隔着一行相同的代码，删除范围不会重叠
+        const removals = targets.map(hunk => action === 'accept'
+            ? { line: hunk.line, count: hunk.oldCount }
+            : { line: hunk.line + hunk.oldCount, count: hunk.newCount });
+
+        const applied = await this._edit(edit => {
+            for (const removal of removals.filter(r => r.count > 0)) {
+                edit.delete(document.uri, linesRange(document, removal.line, removal.count));
+            }
+        });
+        if (!applied) {
+            return;
+        }
+
+        // 剩下的修改按上方删除的行数上移
+        const remaining = hunks.filter(hunk => !targets.includes(hunk));
+        for (const hunk of remaining) {
+            hunk.line -= removals.filter(r => r.line < hunk.line).reduce((sum, r) => sum + r.count, 0);
+        }
+        if (remaining.length === 0) {
+            this._end(uri);
+        } else {
+            this._reviews.set(uri, remaining);
+            this._refresh();
+        }
+    }
+
+    // 用户手动编辑：建议跟着移动；改到旧行或新行时，旧行和新行的范围随之伸缩，继续标记并提供接受 / 拒绝，
+    // 不会留下没有标记的新旧代码。旧行和新行都被删光的建议才视为已由用户处理
+    private _onDocumentChanged(e: vscode.TextDocumentChangeEvent) {
+        const key = e.document.uri.toString();
+        let hunks = this._reviews.get(key);
+        if (!hunks || this._applying || e.contentChanges.length === 0) {
+            return;
+        }
+
+        const changes = [...e.contentChanges].sort((a, b) => b.range.start.line - a.range.start.line);
+        for (const change of changes) {
+            const edit = {
+                startLine: change.range.start.line,
+                endLine: change.range.end.line,
+                insertedLines: change.text.match(/\n/g)?.length ?? 0
+            };
+            hunks = hunks.filter(hunk => {
+                const oldRange = shiftLineRange(hunk.line, hunk.oldCount, edit);
+                const newRange = shiftLineRange(hunk.line + hunk.oldCount, hunk.newCount, edit);
+                hunk.line = oldRange.start;
+                hunk.oldCount = oldRange.count;
+                hunk.newCount = newRange.count;
+                return hunk.oldCount + hunk.newCount > 0;
+            });
+        }
+
+        if (hunks.length === 0) {
+            this._end(key);
+        } else {
+            this._reviews.set(key, hunks);
+            this._refresh();
+        }
+    }
+
+    // 保存时暂时撤下未处理的新行，磁盘上的文件不会同时留下旧代码和新代码
+    private _onWillSave(e: vscode.TextDocumentWillSaveEvent) {
+        const key = e.document.uri.toString();
+        const hunks = this._reviews.get(key);
+        if (!hunks) {
+            return;
+        }
+        const newLines = hunks.map(hunk => {
+            const lines: string[] = [];
+            for (let line = hunk.line + hunk.oldCount; line < hunk.line + hunk.oldCount + hunk.newCount; line++) {
+                lines.push(e.document.lineAt(line).text);
+            }
+            return lines;
+        });
+        // 先暂停审阅，撤下新行产生的文档变化不再调整建议的位置
+        this._reviews.delete(key);
+        this._savingReviews.set(key, { hunks, newLines });
+        e.waitUntil(Promise.resolve(rejectEdits(e.document, hunks)));
+    }
+
+    // 保存完成后放回新行，继续审阅（文档因此又变为未保存状态）
+    private async _onDidSave(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        const saving = this._savingReviews.get(key);
+        if (!saving) {
+            return;
+        }
+        this._savingReviews.delete(key);
+
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        let removedAbove = 0;
+        const restored = await this._edit(edit => {
+            saving.hunks.forEach((hunk, index) => {
+                const lines = saving.newLines[index];
+                if (lines.length === 0) {
+                    return;
+                }
+                // 撤下新行之后，新行原来的位置：上方每处修改的新行都已撤下
+                const line = hunk.line + hunk.oldCount - removedAbove;
+                removedAbove += lines.length;
+                if (line < document.lineCount) {
+                    edit.insert(document.uri, new vscode.Position(line, 0), lines.join(eol) + eol);
+                } else {
+                    edit.insert(document.uri, document.lineAt(document.lineCount - 1).range.end, eol + lines.join(eol));
+                }
+            });
+        });
+        if (restored) {
+            this._reviews.set(key, saving.hunks);
+        }
+        this._refresh();
+    }
+
+    private _onDocumentClosed(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        const hunks = this._reviews.get(key);
+        if (hunks) {
+            this._closedReviews.set(key, { hunks, text: document.getText() });
+            this._end(key);
+        }
+    }
+
+    // 关闭时未保存的修改被丢弃的话，重新打开的内容不同，不需要处理
+    private async _onDocumentOpened(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        const closed = this._closedReviews.get(key);
+        this._closedReviews.delete(key);
+        if (closed && document.getText() === closed.text) {
+            const edits = rejectEdits(document, closed.hunks);
+            if (await this._edit(edit => edit.set(document.uri, edits))) {
+                vscode.window.showInformationMessage('审阅中关闭了文件，已撤销未处理的建议');
+            }
+        }
+    }
+
+    private async _edit(build: (edit: vscode.WorkspaceEdit) => void): Promise<boolean> {
+        const edit = new vscode.WorkspaceEdit();
+        build(edit);
+        this._applying = true;
+        try {
+            return await vscode.workspace.applyEdit(edit);
+        } finally {
+            this._applying = false;
+        }
+    }
+
+    private _end(uri: string) {
+        if (this._reviews.delete(uri)) {
+            this._refresh();
+        }
+    }
+
+    private _refresh() {
+        this._refreshDecorations();
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    private _refreshDecorations() {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const hunks = this._reviews.get(editor.document.uri.toString()) ?? [];
+            editor.setDecorations(this._removedDecoration, hunks.filter(h => h.oldCount > 0).map(h => new vscode.Range(h.line, 0, h.line + h.oldCount - 1, 0)));
+            editor.setDecorations(this._addedDecoration, hunks.filter(h => h.newCount > 0).map(h => new vscode.Range(h.line + h.oldCount, 0, h.line + h.oldCount + h.newCount - 1, 0)));
+        }
+    }
+}
+
+// 全部拒绝：删除每处修改的新行
+function rejectEdits(document: vscode.TextDocument, hunks: ReviewHunk[]): vscode.TextEdit[] {
+    return hunks
+        .filter(hunk => hunk.newCount > 0)
+        .map(hunk => vscode.TextEdit.delete(linesRange(document, hunk.line + hunk.oldCount, hunk.newCount)));
+}
+
+// 第 line 行起的 count 整行（连同换行符）；删到文件末尾时改为删除前一行的换行符
+function linesRange(document: vscode.TextDocument, line: number, count: number): vscode.Range {
+    const end = line + count;
+    if (end < document.lineCount) {
+        return new vscode.Range(line, 0, end, 0);
+    }
+    const last = document.lineAt(document.lineCount - 1).range.end;
+    return line > 0 ? new vscode.Range(line - 1, document.lineAt(line - 1).text.length, last.line, last.character) : new vscode.Range(0, 0, last.line, last.character);
+}
@@ -0,0 +1,527 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { runInSandbox, SandboxLimits } from './sandbox';
+import { CheckerSpec, CheckResult, normalizeCheckerSpec, runBuiltinChecker } from './checker';
+import { CommandSpec, CONSOLE_CSPROJ, getLanguageRunner, getSupportedLanguageIds, LanguageRunner, ToolchainMissingError } from './languageRunners';
+
+const execFileAsync = promisify(execFile);
+
+// === 评测核心：编译一次，在沙箱中逐个（并行）运行测试用例并比较输出 ===
+// 不依赖 vscode，插件和后端的评测队列（server/judgeQueue.js 通过 out/judge.js）共用同一套逻辑。
+
+// 评测结果状态
+export type JudgeStatus = 'Accepted' | 'Wrong Answer' | 'Runtime Error' | 'Compile Error' | 'Time Limit Exceeded' | 'Memory Limit Exceeded';
+
+// 评测阶段，用于汇报进度
+export type JudgePhase = 'compiling' | 'running';
+
+export interface TestCase {
+    input: string;
+    expected: string;
+    visibility?: 'sample' | 'hidden';   // 缺省为 sample；hidden 用例答错时不在结果中展示期望输出
+}
+
+// 隐藏用例不通过时的说明（不包含期望输出，避免学生据此凑答案）
+const HIDDEN_CASE_MESSAGE = '输出与期望不一致（隐藏用例，不显示具体数据）';
+
+// 隐藏用例的说明一律换成固定文字：运行错误的说明来自 stderr，学生可以把输入打印到 stderr 再异常退出来读取隐藏输入
+function hiddenCaseMessage(status: JudgeStatus): string {
+    return status === 'Wrong Answer' ? HIDDEN_CASE_MESSAGE : `${status}（隐藏用例，不显示具体数据）`;
+}
+
+// 单个测试用例的评测结果
+// 隐藏用例（hidden 为 true）不返回 input / expected / actual / stderr，避免学生据此凑答案
+export interface JudgeCaseResult {
+    caseNumber: number;   // 从 1 开始
+    status: JudgeStatus;
+    runtime: number;      // ms
+    memory: number;       // bytes
+    allocatedBytes?: number;   // GC 累计分配量（只有 C# 提供）
+    message: string;      // 不通过时的说明
+    hidden?: boolean;
+    input?: string;
+    expected?: string;
+    actual?: string;
+    stderr?: string;
+}
+
+export interface JudgeResult {
+    output: string;
+    runtime: number;
+    memory: number;
+    status: JudgeStatus;
+    failedCase?: number;
+    errorMessage?: string;
+    caseResults?: JudgeCaseResult[];
+}
+
+export interface JudgeOptions {
+    limits: SandboxLimits;
+    parallelism?: number;                       // 同时运行的用例数，缺省按 CPU 核数自动选择
+    onPhase?: (phase: JudgePhase) => void;      // 进入编译 / 运行阶段时回调
+    onCaseResult?: (result: JudgeCaseResult) => void;   // 每个测试用例评测完成时回调
+    continueAfterFailure?: boolean;             // 某个用例失败后仍运行其余用例（缺省遇到失败即停止）
+    caseNumbers?: number[];                     // 只运行这些用例（从 1 开始），用于单独重跑某个用例
+}
+
+// 用例详情中每段文本的最大长度，避免大数据撑大提交记录
+const CASE_DETAIL_LIMIT = 4096;
+
+function clipDetail(text: string): string {
+    return text.length > CASE_DETAIL_LIMIT ? `${text.substring(0, CASE_DETAIL_LIMIT)}\n…（共 ${text.length} 个字符，已截断）` : text;
+}
+
+// 学生代码编译失败（消息即整理后的编译错误）
+class CompileError extends Error { }
+
+// 一次运行的结果
+export interface CaseRunResult {
+    status: JudgeStatus;
+    output: string;
+    runtime: number;
+    memory: number;
+    message: string;
+    stderr: string;
+    allocatedBytes?: number;   // GC 累计分配量（只有 C# 提供）
+}
+
+// 默认并行度：留一半核心给系统，减少并行对计时的干扰
+export function defaultJudgeParallelism(): number {
+    return Math.max(1, Math.floor(os.cpus().length / 2));
+}
+
+// 解析监控代码输出的性能数据段，返回去掉性能段后的程序输出
+function parsePerfOutput(stdout: string): { output: string; runtime?: number; memory?: number; allocatedBytes?: number } {
+    const perfStart = stdout.indexOf('===SMARTCODER_PERF_START===');
+    const perfEnd = stdout.indexOf('===SMARTCODER_PERF_END===');
+    if (perfStart === -1 || perfEnd === -1) {
+        return { output: stdout };
+    }
+
+    const perfSection = stdout.substring(perfStart, perfEnd);
+    const runtimeMatch = perfSection.match(/RUNTIME_MS:(\d+)/);
+    const memoryMatch = perfSection.match(/MEMORY_BYTES:(\d+)/);
+    const allocatedMatch = perfSection.match(/GC_ALLOCATED_BYTES:(\d+)/);
+    return {
+        output: stdout.substring(0, perfStart).trim(),
+        runtime: runtimeMatch ? parseInt(runtimeMatch[1], 10) : undefined,
+        memory: memoryMatch ? parseInt(memoryMatch[1], 10) : undefined,
+        allocatedBytes: allocatedMatch ? parseInt(allocatedMatch[1], 10) : undefined
+    };
+}
+
+// 在评测沙箱中运行一次编译好的程序，并把沙箱结果映射为评测状态
+async function runInJudgeSandbox(runner: LanguageRunner, run: CommandSpec, cwd: string, input: string, limits: SandboxLimits): Promise<CaseRunResult> {
+    const result = await runInSandbox(run.command, run.args, {
+        cwd,
+        input,
+        timeLimitMs: limits.timeLimitMs,
+        memoryLimitMb: limits.memoryLimitMb,
+        graceMs: runner.graceMs, // 运行时 / 解释器启动开销
+        env: run.env
+    });
+
+    const perf = parsePerfOutput(result.stdout);
+    const runtime = perf.runtime ?? result.wallTimeMs;
+    const memory = perf.memory ?? result.peakMemoryBytes;
+    const stderr = result.stderr.trim();
+    const runtimeError = runner.parseRuntimeError(stderr, result.exitCode, result.signal);
+
+    let status: JudgeStatus = 'Accepted';
+    let message = '';
+
+    if (result.verdict === 'Time Limit Exceeded') {
+        status = 'Time Limit Exceeded';
+        message = `运行超过 ${limits.timeLimitMs}ms 限制，已终止`;
+    } else if (result.verdict === 'Memory Limit Exceeded' || runner.isOutOfMemory(stderr)) {
+        status = 'Memory Limit Exceeded';
+        message = `内存超过 ${limits.memoryLimitMb}MB 限制，已终止`;
+    } else if (result.verdict === 'Runtime Error' || runtimeError) {
+        status = 'Runtime Error';
+        message = runtimeError || stderr || `Process exited with code ${result.exitCode}`;
+    } else if (runtime > limits.timeLimitMs) {
+        status = 'Time Limit Exceeded';
+        message = `运行时间 ${runtime}ms 超过 ${limits.timeLimitMs}ms 限制`;
+    }
+
+    return { status, output: perf.output, runtime, memory, message, stderr, allocatedBytes: perf.allocatedBytes };
+}
+
+// 编译 Special Judge 程序，返回 DLL 路径
+async function buildSpecialJudge(tempDir: string, spec: CheckerSpec): Promise<string> {
+    if (!spec.source || !spec.source.trim()) {
+        throw new Error('Special Judge 缺少 source（C# 源码）');
+    }
+
+    const checkerDir = path.join(tempDir, 'Checker');
+    const buildDir = path.join(checkerDir, 'build');
+    fs.mkdirSync(checkerDir, { recursive: true });
+    fs.writeFileSync(path.join(checkerDir, 'Checker.csproj'), CONSOLE_CSPROJ);
+    fs.writeFileSync(path.join(checkerDir, 'Program.cs'), spec.source, 'utf8');
+
+    try {
+        await execFileAsync('dotnet', ['build', '-c', 'Release', '-o', buildDir], {
+            cwd: checkerDir,
+            timeout: 30000,
+            maxBuffer: 1024 * 1024 * 10
+        });
+    } catch (buildError: any) {
+        const buildOutput = buildError.stdout || buildError.stderr || buildError.message;
+        throw new Error(`Special Judge 编译失败：\n${buildOutput}`);
+    }
+    return path.join(buildDir, 'Checker.dll');
+}
+
+// 运行 Special Judge：参数为 <input文件> <expected文件> <actual文件>，退出码 0 表示通过，输出作为说明
+async function runSpecialJudge(checkerDll: string, caseDir: string, input: string, expected: string, actual: string): Promise<CheckResult> {
+    fs.mkdirSync(caseDir, { recursive: true });
+    const inputFile = path.join(caseDir, 'input.txt');
+    const expectedFile = path.join(caseDir, 'expected.txt');
+    const actualFile = path.join(caseDir, 'actual.txt');
+    fs.writeFileSync(inputFile, input, 'utf8');
+    fs.writeFileSync(expectedFile, expected, 'utf8');
+    fs.writeFileSync(actualFile, actual, 'utf8');
+
+    const result = await runInSandbox('dotnet', [checkerDll, inputFile, expectedFile, actualFile], {
+        cwd: caseDir,
+        timeLimitMs: 5000,
+        memoryLimitMb: 512,
+        graceMs: 1000
+    });
+
+    const message = (result.stdout + result.stderr).trim();
+    if (result.verdict === 'OK') {
+        return { passed: true, message };
+    }
+    if (result.verdict !== 'Runtime Error') {
+        return { passed: false, message: `Special Judge 异常（${result.verdict}）` };
+    }
+    return { passed: false, message: message || `Special Judge 判定不通过（退出码 ${result.exitCode}）` };
+}
+
+// 准备程序并编译一次，返回在沙箱中运行单个输入的函数；编译失败抛出 CompileError，工具链缺失抛出 ToolchainMissingError
+export async function buildProgram(projectDir: string, code: string, languageId: string, limits: SandboxLimits, onPhase?: (phase: JudgePhase) => void): Promise<(input: string) => Promise<CaseRunResult>> {
+    // 按语言选择运行器
+    const runner = getLanguageRunner(languageId);
+    if (!runner) {
+        throw new Error(`暂不支持评测 ${languageId} 代码（支持：${getSupportedLanguageIds().join(', ')}）`);
+    }
+
+    // 1. 创建临时目录
+    fs.mkdirSync(projectDir, { recursive: true });
+
+    // 2. 写入源文件（由运行器注入性能监控、生成项目文件）
+    const program = runner.prepare(projectDir, code, limits);
+
+    // 3. 检查工具链
+    try {
+        await execFileAsync(runner.toolCheck.command, runner.toolCheck.args, { timeout: 5000 });
+    } catch (checkError) {
+        throw new ToolchainMissingError(runner);
+    }
+
+    // 4. 只编译一次，之后每个用例直接运行编译产物（C# 运行生成的 DLL，不再 dotnet run），
+    //    避免每次重新检查项目，沙箱也能准确限制和测量用户程序本身
+    onPhase?.('compiling');
+    if (program.compile) {
+        try {
+            await execFileAsync(program.compile.command, program.compile.args, {
+                cwd: projectDir,
+                timeout: 60000,
+                maxBuffer: 1024 * 1024 * 10
+            });
+        } catch (buildError: any) {
+            const buildOutput = [buildError.stdout, buildError.stderr].filter(Boolean).join('\n') || buildError.message;
+            throw new CompileError(`编译失败：\n${runner.parseCompileError(buildOutput)}`);
+        }
+    }
+
+    const debug = program.debug;
+    if (!debug) {
+        return (input: string) => runInJudgeSandbox(runner, program.run, projectDir, input, limits);
+    }
+
+    // 运行出错时（只在第一次出错时构建一次）用 Debug 构建重新运行同一输入，只替换错误信息，状态和耗时仍以正式构建为准
+    let debugBuild: Promise<boolean> | undefined;
+    return async (input: string) => {
+        const result = await runInJudgeSandbox(runner, program.run, projectDir, input, limits);
+        if (result.status !== 'Runtime Error') {
+            return result;
+        }
+        debugBuild ??= execFileAsync(debug.compile.command, debug.compile.args, {
+            cwd: projectDir,
+            timeout: 60000,
+            maxBuffer: 1024 * 1024 * 10
+        }).then(() => true, () => false);
+        if (!await debugBuild) {
+            return result;
+        }
+        const rerun = await runInJudgeSandbox(runner, debug.run, projectDir, input, limits);
+        return rerun.status === 'Runtime Error' ? { ...result, message: rerun.message, stderr: rerun.stderr } : result;
+    };
+}
+
+// 评测一份代码（类似 LeetCode 评测）
+// testCases 为空时只用空输入运行一次；checker 为题目的输出比较方式（problems.json 的 checker 字段），缺省按行比较。
+// 总是返回有效结果：编译失败、工具链缺失等异常都映射为 Compile Error。
+export async function judgeCode(code: string, languageId: string, testCases: TestCase[] | undefined, checker: unknown, options: JudgeOptions): Promise<JudgeResult> {
+    const judgeLimits = options.limits;
+    const tempDir = path.join(os.tmpdir(), `smartcoder-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    const projectDir = path.join(tempDir, 'CodeProject');
+
+    try {
+        // 1~4. 写入源文件、检查工具链、编译
+        const runCase = await buildProgram(projectDir, code, languageId, judgeLimits, options.onPhase);
+
+        // Special Judge 与学生代码一样只编译一次
+        const checkerSpec = normalizeCheckerSpec(checker);
+        const specialJudgeDll = (checkerSpec.type === 'special' && testCases && testCases.length > 0)
+            ? await buildSpecialJudge(tempDir, checkerSpec)
+            : undefined;
+
+        // 5. 在沙箱中运行：超时 / 超内存会结束整个进程树
+        options.onPhase?.('running');
+
+        if (testCases && testCases.length > 0) {
+            // 并行运行互不依赖的测试用例；某个用例失败后不再启动编号更大的用例（continueAfterFailure 时全部运行）
+            const parallelism = options.parallelism && options.parallelism > 0 ? Math.floor(options.parallelism) : defaultJudgeParallelism();
+            const selected = testCases.map((_, i) => i).filter(i => !options.caseNumbers || options.caseNumbers.includes(i + 1));
+            const results: Array<CaseRunResult | undefined> = new Array(testCases.length);
+            const caseDetails: Array<JudgeCaseResult | undefined> = new Array(testCases.length);
+            let firstFailure = testCases.length;
+            let nextSlot = 0;
+
+            const worker = async () => {
+                while (nextSlot < selected.length) {
+                    const i = selected[nextSlot++];
+                    if (i > firstFailure && !options.continueAfterFailure) {
+                        return;
+                    }
+
+                    const testCase = testCases[i];
+                    const hidden = testCase.visibility === 'hidden';
+                    const caseResult = await runCase(testCase.input);
+
+                    if (caseResult.status === 'Accepted') {
+                        const check = specialJudgeDll
+                            ? await runSpecialJudge(specialJudgeDll, path.join(tempDir, `case-${i + 1}`), testCase.input, testCase.expected, caseResult.output)
+                            : runBuiltinChecker(checkerSpec, testCase.expected, caseResult.output);
+                        if (!check.passed) {
+                            caseResult.status = 'Wrong Answer';
+                            caseResult.message = check.message;
+                        }
+                    }
+                    if (hidden) {
+                        // 只保留状态和耗时：输出、stderr 和说明都可能带出隐藏用例的数据
+                        caseResult.message = caseResult.status === 'Accepted' ? '' : hiddenCaseMessage(caseResult.status);
+                        caseResult.output = '';
+                        caseResult.stderr = '';
+                    }
+
+                    results[i] = caseResult;
+                    const detail: JudgeCaseResult = { caseNumber: i + 1, status: caseResult.status, runtime: caseResult.runtime, memory: caseResult.memory, message: caseResult.message };
+                    if (caseResult.allocatedBytes !== undefined) {
+                        detail.allocatedBytes = caseResult.allocatedBytes;
+                    }
+                    if (hidden) {
+                        detail.hidden = true;
+                    } else {
+                        detail.input = clipDetail(testCase.input);
+                        detail.expected = clipDetail(testCase.expected);
+                        detail.actual = clipDetail(caseResult.output);
+                        detail.stderr = clipDetail(caseResult.stderr);
+                    }
+                    caseDetails[i] = detail;
+                    options.onCaseResult?.(detail);
+                    if (caseResult.status !== 'Accepted') {
+                        firstFailure = Math.min(firstFailure, i);
+                    }
+                }
+            };
+            await Promise.all(Array.from({ length: Math.min(parallelism, selected.length) }, () => worker()));
+
+            // 每个已运行用例的结果（按用例编号排序）
+            const caseResults = caseDetails.filter((c): c is JudgeCaseResult => c !== undefined);
+            const totalRuntime = Math.max(0, ...caseResults.map(c => c.runtime));
+            const totalMemory = Math.max(0, ...caseResults.map(c => c.memory));
+
+            if (firstFailure === testCases.length) {
+                return {
+                    output: results.filter((r, i) => r !== undefined && testCases[i].visibility !== 'hidden').map(r => r!.output).join('\n'),
+                    runtime: totalRuntime,
+                    memory: totalMemory,
+                    status: 'Accepted',
+                    caseResults
+                };
+            }
+
+            const failed = results[firstFailure]!;
+            const errorMessage = failed.status === 'Wrong Answer'
+                ? `Failed at Case ${firstFailure + 1}: ${failed.message}`
+                : `${failed.status} at Case ${firstFailure + 1}: ${failed.message}`;
+            return {
+                output: errorMessage,
+                runtime: totalRuntime,
+                memory: totalMemory,
+                status: failed.status,
+                failedCase: firstFailure + 1,
+                errorMessage,
+                caseResults
+            };
+        }
+
+        // 无测试用例模式
+        const runResult = await runCase('');
+        let output = runResult.output;
+        if (runResult.status !== 'Accepted' && runResult.message) {
+            output += (output ? '\n' : '') + runResult.message;
+        }
+        return {
+            output,
+            runtime: runResult.runtime,
+            memory: runResult.memory,
+            status: runResult.status,
+            errorMessage: runResult.status === 'Accepted' ? undefined : runResult.message
+        };
+    } catch (error: any) {
+        let errorOutput = '';
+
+        if (error instanceof ToolchainMissingError || error instanceof CompileError) {
+            errorOutput = error.message;
+        } else if (error.stdout) {
+            errorOutput = `编译/运行错误：\n${error.stdout}`;
+            if (error.stderr) {
+                errorOutput += `\n${error.stderr}`;
+            }
+        } else if (error.stderr) {
+            errorOutput = `错误：\n${error.stderr}`;
+        } else {
+            errorOutput = `代码运行失败：${error.message || '未知错误'}`;
+        }
+
+        return {
+            output: errorOutput,
+            runtime: -1,
+            memory: -1,
+            status: 'Compile Error',
+            errorMessage: errorOutput
+        };
+    } finally {
+        try {
+            if (fs.existsSync(tempDir)) {
+                fs.rmSync(tempDir, { recursive: true, force: true });
+            }
+        } catch (cleanupError) {
+            console.error('清理临时目录失败:', cleanupError);
+        }
+    }
+}
+
+// === 自定义输入运行 ===
+// 编译后用给定的标准输入运行一次，不比较输出，供学生本地调试（不经过服务器，不产生提交记录）
+
+export interface RunOutcome {
+    status: JudgeStatus;   // Accepted 表示正常结束
+    stdout: string;
+    stderr: string;
+    runtime: number;       // ms，编译失败时为 -1
+    memory: number;        // bytes，编译失败时为 -1
+    allocatedBytes?: number;   // GC 累计分配量（只有 C# 提供）
+    message: string;       // 编译错误 / 运行错误 / 超限的说明
+}
+
+export async function runWithInput(code: string, languageId: string, input: string, limits: SandboxLimits): Promise<RunOutcome> {
+    const tempDir = path.join(os.tmpdir(), `smartcoder-run-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+
+    try {
+        let runCase: (input: string) => Promise<CaseRunResult>;
+        try {
+            runCase = await buildProgram(path.join(tempDir, 'CodeProject'), code, languageId, limits);
+        } catch (error: any) {
+            return { status: 'Compile Error', stdout: '', stderr: '', runtime: -1, memory: -1, message: error.message || String(error) };
+        }
+
+        const run = await runCase(input);
+        return { status: run.status, stdout: run.output, stderr: run.stderr, runtime: run.runtime, memory: run.memory, allocatedBytes: run.allocatedBytes, message: run.message };
+    } finally {
+        try {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        } catch (cleanupError) {
+            console.error('清理临时目录失败:', cleanupError);
+        }
+    }
+}
+
+// === 用参考解校验测试用例 ===
+// AI 出题时给出的期望输出可能是错的：用参考解逐个运行测试输入，
+//   rewrite：期望输出以参考解的输出为准（不一致时改写）
+//   filter：只保留参考解输出与期望输出一致的用例
+// 参考解在某个输入上运行失败（超时、运行错误等）时丢弃该用例；参考解无法编译时 compiled 为 false。
+
+export type ReferenceMode = 'rewrite' | 'filter';
+
+export interface ReferenceCaseReport {
+    caseNumber: number;   // 原用例编号，从 1 开始
+    action: 'kept' | 'rewritten' | 'dropped';
+    reason: string;
+}
+
+export interface ReferenceVerification {
+    compiled: boolean;
+    errorMessage?: string;   // 编译失败 / 工具链缺失时的说明
+    testCases: TestCase[];   // 校验后的用例
+    report: ReferenceCaseReport[];
+}
+
+// 与参考解输出比较时使用的 checker：Special Judge 的期望输出只是参考答案，改为按行比较
+export function referenceComparisonSpec(checker: unknown): CheckerSpec {
+    const checkerSpec = normalizeCheckerSpec(checker);
+    return checkerSpec.type === 'special' ? { type: 'lines' } : checkerSpec;
+}
+
+export async function verifyWithReference(code: string, languageId: string, testCases: TestCase[], checker: unknown, mode: ReferenceMode, limits: SandboxLimits): Promise<ReferenceVerification> {
+    const tempDir = path.join(os.tmpdir(), `smartcoder-ref-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+
+    try {
+        let runCase: (input: string) => Promise<CaseRunResult>;
+        try {
+            runCase = await buildProgram(path.join(tempDir, 'CodeProject'), code, languageId, limits);
+        } catch (error: any) {
+            return { compiled: false, errorMessage: error.message || String(error), testCases: [], report: [] };
+        }
+
+        const compareSpec = referenceComparisonSpec(checker);
+
+        const verified: TestCase[] = [];
+        const report: ReferenceCaseReport[] = [];
+        for (let i = 0; i < testCases.length; i++) {
+            const testCase = testCases[i];
+            const run = await runCase(testCase.input);
+            if (run.status !== 'Accepted') {
+                report.push({ caseNumber: i + 1, action: 'dropped', reason: `参考解 ${run.status}：${run.message}` });
+                continue;
+            }
+
+            const check = runBuiltinChecker(compareSpec, testCase.expected, run.output);
+            if (check.passed) {
+                verified.push(testCase);
+                report.push({ caseNumber: i + 1, action: 'kept', reason: '' });
+            } else if (mode === 'rewrite') {
+                verified.push({ ...testCase, expected: run.output });
+                report.push({ caseNumber: i + 1, action: 'rewritten', reason: check.message });
+            } else {
+                report.push({ caseNumber: i + 1, action: 'dropped', reason: check.message });
+            }
+        }
+        return { compiled: true, testCases: verified, report };
+    } finally {
+        try {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        } catch (cleanupError) {
+            console.error('清理临时目录失败:', cleanupError);
+        }
+    }
+}
@@ -0,0 +1,421 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SandboxLimits } from './sandbox';
+
+// === 语言运行器注册表 ===
+// 评测流程按 document.languageId 选择运行器；每个运行器负责：
+// 写入源文件（必要时生成性能监控入口程序）、编译命令、运行命令、编译 / 运行错误的解析。
+// 性能监控统一输出 ===SMARTCODER_PERF_START=== ... ===SMARTCODER_PERF_END=== 段，
+// 没有监控入口的语言（如 C++）由沙箱测量墙钟时间和内存峰值。
+
+export interface CommandSpec {
+    command: string;
+    args: string[];
+    env?: NodeJS.ProcessEnv;
+}
+
+export interface PreparedProgram {
+    compile?: CommandSpec;   // 没有编译步骤的语言（解释执行）为空，可用 check 做语法检查
+    run: CommandSpec;
+    // 运行出错时用来重新运行、取得准确堆栈行号的 Debug 构建（只有编译优化会让行号错位的语言提供）
+    debug?: { compile: CommandSpec; run: CommandSpec };
+}
+
+export interface LanguageRunner {
+    languageId: string;
+    displayName: string;
+    toolCheck: CommandSpec;        // 检查工具链是否安装
+    installHint: string;           // 未安装时的提示
+    graceMs: number;               // 运行时 / 解释器启动开销的宽限时间
+    harnessFiles: string[];        // 入口程序的文件名：崩溃堆栈中其余的栈帧都来自学生代码
+    // 在 workDir 中写入源文件和辅助文件，返回编译和运行命令
+    prepare(workDir: string, code: string, limits: SandboxLimits): PreparedProgram;
+    // 从编译器输出中提取错误信息
+    parseCompileError(output: string): string;
+    // 判断一次运行是否出错，返回错误说明；正常时返回 null
+    parseRuntimeError(stderr: string, exitCode: number | null, signal: string | null): string | null;
+    // 是否为内存不足导致的错误（托管堆 / 解释器堆上限）
+    isOutOfMemory(stderr: string): boolean;
+}
+
+// 工具链未安装（区别于代码本身的编译错误）
+export class ToolchainMissingError extends Error {
+    constructor(public readonly runner: LanguageRunner) {
+        super(`❌ 错误：未检测到 ${runner.displayName} 运行环境\n\n${runner.installHint}`);
+        this.name = 'ToolchainMissingError';
+    }
+}
+
+const PERF_MARKER_START = '===SMARTCODER_PERF_START===';
+const PERF_MARKER_END = '===SMARTCODER_PERF_END===';
+
+// 只保留包含关键字的行，全都不匹配时返回原文
+function pickLines(output: string, pattern: RegExp, maxLines: number = 20): string {
+    const lines = output.split(/\r?\n/).filter(line => pattern.test(line));
+    // 去重（dotnet build 会把每个错误输出两遍）
+    const unique = Array.from(new Set(lines.map(line => line.trim())));
+    return unique.length > 0 ? unique.slice(0, maxLines).join('\n') : output.trim();
+}
+
+// 通用的进程退出判断：被信号终止或退出码非 0 视为运行错误
+function exitFailure(stderr: string, exitCode: number | null, signal: string | null): string | null {
+    if (signal) {
+        const names: Record<string, string> = { 'SIGSEGV': '段错误（非法内存访问）', 'SIGFPE': '算术异常（如除以 0）', 'SIGABRT': '程序异常终止' };
+        return `进程被信号 ${signal} 终止${names[signal] ? '：' + names[signal] : ''}${stderr.trim() ? '\n' + stderr.trim() : ''}`;
+    }
+    if (exitCode !== 0) {
+        return stderr.trim() || `Process exited with code ${exitCode}`;
+    }
+    return null;
+}
+
+// === C# ===
+
+// 评测入口程序：加载学生程序集并通过反射调用其入口点，不修改学生代码。
+// 编译器为 async Main 和顶级语句生成的同步入口点（<Main>、<Main>$）同样适用。
+// 内存报告进程的工作集峰值和 GC 累计分配量；学生代码调用 Environment.Exit 时在 ProcessExit 中输出。
+const CSHARP_HARNESS = `using System;
+using System.Diagnostics;
+using System.IO;
+using System.Reflection;
+using System.Threading;
+
+static class SmartCoderHarness
+{
+    static readonly Stopwatch Watch = new Stopwatch();
+    static int _reported;
+
+    static int Main(string[] args)
+    {
+        var entry = Assembly.LoadFrom(Path.Combine(AppContext.BaseDirectory, "CodeProject.dll")).EntryPoint;
+        if (entry == null)
+        {
+            Console.Error.WriteLine("EXCEPTION: 程序没有入口点（缺少 Main 方法或顶级语句）");
+            return 1;
+        }
+        AppDomain.CurrentDomain.ProcessExit += (sender, e) => Report();
+
+        Watch.Start();
+        try
+        {
+            var result = entry.Invoke(null, entry.GetParameters().Length == 0 ? null : new object[] { args });
+            return result is int exitCode ? exitCode : 0;
+        }
+        catch (TargetInvocationException ex) when (ex.InnerException != null)
+        {
+            Console.Error.WriteLine("EXCEPTION: " + ex.InnerException);
+            return 1;
+        }
+        finally
+        {
+            Report();
+        }
+    }
+
+    static void Report()
+    {
+        if (Interlocked.Exchange(ref _reported, 1) == 1)
+        {
+            return;
+        }
+        Watch.Stop();
+        long peakWorkingSet;
+        using (var process = Process.GetCurrentProcess())
+        {
+            peakWorkingSet = Math.Max(process.PeakWorkingSet64, Environment.WorkingSet);
+        }
+        Console.Out.Flush();
+        Console.WriteLine("\\n${PERF_MARKER_START}");
+        Console.WriteLine("RUNTIME_MS:" + Watch.ElapsedMilliseconds);
+        Console.WriteLine("MEMORY_BYTES:" + peakWorkingSet);
+        Console.WriteLine("GC_ALLOCATED_BYTES:" + GC.GetTotalAllocatedBytes(true));
+        Console.WriteLine("${PERF_MARKER_END}");
+    }
+}
+`;
+
+const CSHARP_HARNESS_DIR = 'SmartCoderHarness';
+
+// 评测用的控制台项目文件（学生代码和 Special Judge 共用）
+export const CONSOLE_CSPROJ = `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <OutputType>Exe</OutputType>
+    <TargetFramework>net8.0</TargetFramework>
+    <ImplicitUsings>enable</ImplicitUsings>
+    <Nullable>enable</Nullable>
+  </PropertyGroup>
+</Project>`;
+
+// 学生项目：排除入口程序所在的子目录（否则两个项目的源文件会编译到一起）
+const STUDENT_CSPROJ = CONSOLE_CSPROJ.replace('  </PropertyGroup>', `    <DefaultItemExcludes>$(DefaultItemExcludes);${CSHARP_HARNESS_DIR}/**</DefaultItemExcludes>\n  </PropertyGroup>`);
+
+// 入口程序项目：引用学生项目只是为了一次构建两个项目，运行时按路径加载学生程序集
+const HARNESS_CSPROJ = `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <OutputType>Exe</OutputType>
+    <TargetFramework>net8.0</TargetFramework>
+  </PropertyGroup>
+  <ItemGroup>
+    <ProjectReference Include="../CodeProject.csproj" ReferenceOutputAssembly="false" />
+  </ItemGroup>
+</Project>`;
+
+const csharpRunner: LanguageRunner = {
+    languageId: 'csharp',
+    displayName: '.NET SDK',
+    toolCheck: { command: 'dotnet', args: ['--version'] },
+    installHint: '请先安装 .NET SDK：\n1. 访问 https://dotnet.microsoft.com/download\n2. 下载并安装 .NET SDK 6.0 或更高版本\n3. 安装后运行 "dotnet --version" 验证',
+    graceMs: 1000,
+    harnessFiles: ['Harness.cs'],
+    prepare(workDir, code, limits) {
+        fs.writeFileSync(path.join(workDir, 'CodeProject.csproj'), STUDENT_CSPROJ);
+        fs.writeFileSync(path.join(workDir, 'Program.cs'), code, 'utf8');
+        const harnessDir = path.join(workDir, CSHARP_HARNESS_DIR);
+        fs.mkdirSync(harnessDir, { recursive: true });
+        fs.writeFileSync(path.join(harnessDir, `${CSHARP_HARNESS_DIR}.csproj`), HARNESS_CSPROJ);
+        fs.writeFileSync(path.join(harnessDir, 'Harness.cs'), CSHARP_HARNESS, 'utf8');
+
+        // 只构建一次（Release，两个项目输出到同一目录），之后直接运行入口程序的 DLL；
+        // Release 优化后崩溃堆栈中的行号会错位，运行出错时再用 Debug 构建重新运行一次取得准确的行号
+        const project = path.join(harnessDir, `${CSHARP_HARNESS_DIR}.csproj`);
+        const build = (configuration: string, buildDir: string) => ({
+            compile: { command: 'dotnet', args: ['build', project, '-c', configuration, '-o', buildDir] },
+            run: {
+                command: 'dotnet',
+                args: [path.join(buildDir, `${CSHARP_HARNESS_DIR}.dll`)],
+                env: {
+                    // 托管堆硬上限（十六进制字节数）：超限时抛 OutOfMemoryException，各平台都能判定 MLE
+                    DOTNET_GCHeapHardLimit: (limits.memoryLimitMb * 1024 * 1024).toString(16)
+                }
+            }
+        });
+        return { ...build('Release', path.join(workDir, 'build')), debug: build('Debug', path.join(workDir, 'build-debug')) };
+    },
+    parseCompileError(output) {
+        return pickLines(output, /error CS\d+/);
+    },
+    parseRuntimeError(stderr, exitCode, signal) {
+        // 入口程序捕获学生代码的异常并输出 "EXCEPTION: ..."
+        if (stderr.includes('EXCEPTION:')) {
+            return stderr.substring(stderr.indexOf('EXCEPTION:') + 'EXCEPTION:'.length).trim();
+        }
+        return exitFailure(stderr, exitCode, signal);
+    },
+    isOutOfMemory(stderr) {
+        return stderr.includes('OutOfMemoryException');
+    }
+};
+
+// === Python ===
+
+const PYTHON_HARNESS = `import runpy, sys, time
+_smartcoder_start = time.perf_counter()
+try:
+    runpy.run_path('main.py', run_name='__main__')
+finally:
+    _smartcoder_elapsed = int((time.perf_counter() - _smartcoder_start) * 1000)
+    sys.stdout.flush()
+    print("\\n${PERF_MARKER_START}")
+    print(f"RUNTIME_MS:{_smartcoder_elapsed}")
+    try:
+        import resource
+        _smartcoder_rss = resource.getrusage(resource.RUSAGE_SELF).ru_maxrss
+        print(f"MEMORY_BYTES:{_smartcoder_rss if sys.platform == 'darwin' else _smartcoder_rss * 1024}")
+    except ImportError:
+        pass
+    print("${PERF_MARKER_END}")
+`;
+
+const pythonCommand = process.platform === 'win32' ? 'python' : 'python3';
+
+const pythonRunner: LanguageRunner = {
+    languageId: 'python',
+    displayName: 'Python 3',
+    toolCheck: { command: pythonCommand, args: ['--version'] },
+    installHint: '请先安装 Python 3：https://www.python.org/downloads/ ，安装后运行 "python3 --version" 验证',
+    graceMs: 500,
+    harnessFiles: ['smartcoder_runner.py'],
+    prepare(workDir, code) {
+        fs.writeFileSync(path.join(workDir, 'main.py'), code, 'utf8');
+        fs.writeFileSync(path.join(workDir, 'smartcoder_runner.py'), PYTHON_HARNESS, 'utf8');
+        return {
+            // 解释执行，编译步骤只做语法检查
+            compile: { command: pythonCommand, args: ['-m', 'py_compile', 'main.py'] },
+            run: { command: pythonCommand, args: ['smartcoder_runner.py'] }
+        };
+    },
+    parseCompileError(output) {
+        return pickLines(output, /File "|Error/);
+    },
+    parseRuntimeError(stderr, exitCode, signal) {
+        const failure = exitFailure(stderr, exitCode, signal);
+        if (!failure || !stderr.includes('Traceback')) {
+            return failure;
+        }
+        // 去掉评测包装层（runpy）的栈帧，只保留用户代码
+        const lines = stderr.split(/\r?\n/);
+        const kept: string[] = [];
+        for (let i = 0; i < lines.length; i++) {
+            if (/File ".*(runpy\.py|smartcoder_runner\.py)"/.test(lines[i])) {
+                i++; // 连同下一行的源码一起跳过
+                continue;
+            }
+            kept.push(lines[i]);
+        }
+        return kept.join('\n').trim();
+    },
+    isOutOfMemory(stderr) {
+        return /\bMemoryError\b/.test(stderr);
+    }
+};
+
+// === C++ ===
+
+const cppRunner: LanguageRunner = {
+    languageId: 'cpp',
+    displayName: 'g++ (C++17)',
+    toolCheck: { command: 'g++', args: ['--version'] },
+    installHint: '请先安装 g++：Linux 使用包管理器安装 build-essential，macOS 安装 Xcode Command Line Tools，Windows 安装 MinGW-w64',
+    graceMs: 200,
+    harnessFiles: [],
+    prepare(workDir, code) {
+        fs.writeFileSync(path.join(workDir, 'main.cpp'), code, 'utf8');
+        const binary = path.join(workDir, process.platform === 'win32' ? 'main.exe' : 'main');
+        // 不注入监控：运行时间和内存由沙箱测量
+        return {
+            compile: { command: 'g++', args: ['-O2', '-std=c++17', '-o', binary, 'main.cpp'] },
+            run: { command: binary, args: [] }
+        };
+    },
+    parseCompileError(output) {
+        return pickLines(output, /error:/);
+    },
+    parseRuntimeError(stderr, exitCode, signal) {
+        return exitFailure(stderr, exitCode, signal);
+    },
+    isOutOfMemory(stderr) {
+        return stderr.includes('std::bad_alloc');
+    }
+};
+
+// === Java ===
+
+// 通过反射调用学生的 main，统计运行时间和堆内存峰值
+const JAVA_HARNESS = `import java.lang.management.*;
+
+public class SmartCoderRunner {
+    public static void main(String[] args) throws Throwable {
+        long start = System.nanoTime();
+        try {
+            Class.forName(args[0]).getMethod("main", String[].class).invoke(null, (Object) new String[0]);
+        } catch (java.lang.reflect.InvocationTargetException e) {
+            throw e.getCause();
+        } finally {
+            long elapsed = (System.nanoTime() - start) / 1_000_000;
+            long peak = 0;
+            for (MemoryPoolMXBean pool : ManagementFactory.getMemoryPoolMXBeans()) {
+                if (pool.getType() == MemoryType.HEAP) {
+                    peak += pool.getPeakUsage().getUsed();
+                }
+            }
+            System.out.flush();
+            System.out.println("\\n${PERF_MARKER_START}");
+            System.out.println("RUNTIME_MS:" + elapsed);
+            System.out.println("MEMORY_BYTES:" + peak);
+            System.out.println("${PERF_MARKER_END}");
+        }
+    }
+}
+`;
+
+const javaRunner: LanguageRunner = {
+    languageId: 'java',
+    displayName: 'JDK',
+    toolCheck: { command: 'javac', args: ['-version'] },
+    installHint: '请先安装 JDK 17 或更高版本（参见 JDK安装说明.md），安装后运行 "javac -version" 验证',
+    graceMs: 1000,
+    harnessFiles: ['SmartCoderRunner.java'],
+    prepare(workDir, code, limits) {
+        // 文件名必须与 public 类名一致；没有 public 类时按 Main 处理
+        const classMatch = code.match(/public\s+(?:final\s+)?class\s+(\w+)/);
+        const mainClass = classMatch ? classMatch[1] : 'Main';
+        fs.writeFileSync(path.join(workDir, `${mainClass}.java`), code, 'utf8');
+        fs.writeFileSync(path.join(workDir, 'SmartCoderRunner.java'), JAVA_HARNESS, 'utf8');
+        return {
+            compile: { command: 'javac', args: ['-encoding', 'UTF-8', '-d', 'classes', `${mainClass}.java`, 'SmartCoderRunner.java'] },
+            run: {
+                command: 'java',
+                args: [`-Xmx${limits.memoryLimitMb}m`, '-Xss64m', '-cp', 'classes', 'SmartCoderRunner', mainClass]
+            }
+        };
+    },
+    parseCompileError(output) {
+        return pickLines(output, /error:/);
+    },
+    parseRuntimeError(stderr, exitCode, signal) {
+        const failure = exitFailure(stderr, exitCode, signal);
+        if (!failure) {
+            return null;
+        }
+        // 去掉评测包装层（反射调用）的栈帧
+        return failure.split(/\r?\n/)
+            .filter(line => !/at (java\.base\/)?(jdk\.internal\.reflect|java\.lang\.reflect)\.|at SmartCoderRunner\./.test(line))
+            .join('\n');
+    },
+    isOutOfMemory(stderr) {
+        return stderr.includes('java.lang.OutOfMemoryError');
+    }
+};
+
+// === JavaScript (Node.js) ===
+
+const JAVASCRIPT_HARNESS = `const start = process.hrtime.bigint();
+process.on('exit', () => {
+    const runtime = Number((process.hrtime.bigint() - start) / 1000000n);
+    const memory = process.resourceUsage().maxRSS * 1024;
+    process.stdout.write('\\n${PERF_MARKER_START}\\nRUNTIME_MS:' + runtime + '\\nMEMORY_BYTES:' + memory + '\\n${PERF_MARKER_END}\\n');
+});
+require('./main.js');
+`;
+
+const javascriptRunner: LanguageRunner = {
+    languageId: 'javascript',
+    displayName: 'Node.js',
+    toolCheck: { command: 'node', args: ['--version'] },
+    installHint: '请先安装 Node.js：https://nodejs.org/ ，安装后运行 "node --version" 验证',
+    graceMs: 500,
+    harnessFiles: ['smartcoder_runner.js'],
+    prepare(workDir, code, limits) {
+        fs.writeFileSync(path.join(workDir, 'main.js'), code, 'utf8');
+        fs.writeFileSync(path.join(workDir, 'smartcoder_runner.js'), JAVASCRIPT_HARNESS, 'utf8');
+        return {
+            // 解释执行，编译步骤只做语法检查
+            compile: { command: 'node', args: ['--check', 'main.js'] },
+            run: { command: 'node', args: [`--max-old-space-size=${limits.memoryLimitMb}`, 'smartcoder_runner.js'] }
+        };
+    },
+    parseCompileError(output) {
+        return output.trim();
+    },
+    parseRuntimeError(stderr, exitCode, signal) {
+        return exitFailure(stderr, exitCode, signal);
+    },
+    isOutOfMemory(stderr) {
+        return stderr.includes('JavaScript heap out of memory');
+    }
+};
+
+// === 注册表 ===
+
+const LANGUAGE_RUNNERS = new Map<string, LanguageRunner>(
+    [csharpRunner, pythonRunner, cppRunner, javaRunner, javascriptRunner].map(runner => [runner.languageId, runner])
+);
+
+// 按 VS Code 的 languageId 查找运行器
+export function getLanguageRunner(languageId: string): LanguageRunner | undefined {
+    return LANGUAGE_RUNNERS.get(languageId);
+}
+
+export function getSupportedLanguageIds(): string[] {
+    return Array.from(LANGUAGE_RUNNERS.keys());
+}
@@ -0,0 +1,108 @@
+// === 按行比较 ===
+// 最长公共子序列（LCS），把两段文本的差异分成若干处修改（hunk）：删除旧的若干行，在同一位置插入新的若干行。
+// 不依赖 vscode：行内审阅用它决定哪些行标成删除、哪些行标成新增，并在用户编辑时跟踪这些行的位置；
+// 侧边栏的用例结果表用它对比期望输出与实际输出。
+
+export interface LineHunk {
+    oldStart: number;       // 在旧文本中的起始行（从 0 开始）；纯插入时为插入位置
+    oldLines: string[];
+    newStart: number;       // 在新文本中的起始行
+    newLines: string[];
+}
+
+export function diffLines(oldLines: string[], newLines: string[]): LineHunk[] {
+    // 先去掉相同的开头和结尾，只对中间部分做 LCS
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+        && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    const width = b.length + 1;
+    // lcs[i * width + j]：a[i..] 与 b[j..] 的最长公共子序列长度
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[i] === b[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    const hunks: LineHunk[] = [];
+    let current: LineHunk | undefined;
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            current = undefined;
+            i++;
+            j++;
+            continue;
+        }
+        if (!current) {
+            current = { oldStart: prefix + i, oldLines: [], newStart: prefix + j, newLines: [] };
+            hunks.push(current);
+        }
+        if (j >= b.length || (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+            current.oldLines.push(a[i++]);
+        } else {
+            current.newLines.push(b[j++]);
+        }
+    }
+    return hunks;
+}
+
+// 逐行对比的一行：两边相同、只在旧文本中（删除）或只在新文本中（新增）
+export interface LineDiffRow {
+    kind: 'same' | 'removed' | 'added';
+    text: string;
+}
+
+// 把两段文本按行对齐成对比视图（评测结果的期望 / 实际输出）；比较时忽略行尾空白，显示原文
+export function diffTextRows(oldText: string, newText: string): LineDiffRow[] {
+    const oldLines = oldText.split('\n');
+    const newLines = newText.split('\n');
+    const trimEnd = (lines: string[]) => lines.map(line => line.trimEnd());
+    const rows: LineDiffRow[] = [];
+    let i = 0;
+    for (const hunk of diffLines(trimEnd(oldLines), trimEnd(newLines))) {
+        for (; i < hunk.oldStart; i++) {
+            rows.push({ kind: 'same', text: oldLines[i] });
+        }
+        for (let k = 0; k < hunk.oldLines.length; k++, i++) {
+            rows.push({ kind: 'removed', text: oldLines[i] });
+        }
+        for (let k = 0; k < hunk.newLines.length; k++) {
+            rows.push({ kind: 'added', text: newLines[hunk.newStart + k] });
+        }
+    }
+    for (; i < oldLines.length; i++) {
+        rows.push({ kind: 'same', text: oldLines[i] });
+    }
+    return rows;
+}
+
+// 一次编辑按行看的效果：第 startLine 行到第 endLine 行被替换，替换后比原来的第 startLine 行多出 insertedLines 行
+export interface LineEdit {
+    startLine: number;
+    endLine: number;
+    insertedLines: number;
+}
+
+// 编辑之后区间 [start, start + count) 的位置和行数：startLine 之后被替换掉的行从区间中去掉，
+// 新插入的行紧跟在 startLine 之后，归入 startLine 所在的区间
+export function shiftLineRange(start: number, count: number, edit: LineEdit): { start: number, count: number } {
+    const overlap = (from: number, to: number) => Math.max(0, Math.min(edit.endLine, to) - Math.max(edit.startLine + 1, from) + 1);
+    const removedBefore = overlap(0, start - 1);
+    const removedInside = overlap(start, start + count - 1);
+    const insertedBefore = edit.startLine < start ? edit.insertedLines : 0;
+    const insertedInside = edit.startLine >= start && edit.startLine < start + count ? edit.insertedLines : 0;
+    return { start: start - removedBefore + insertedBefore, count: count - removedInside + insertedInside };
+}
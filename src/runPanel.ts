@@ -0,0 +1,342 @@
+import * as vscode from 'vscode';
+import { runWithInput, RunOutcome } from './judge';
+import { getLanguageRunner, getSupportedLanguageIds } from './languageRunners';
+import { RuntimeErrorLog } from './runtimeErrors';
+
+// === 自定义输入运行面板 ===
+// 学生输入（或从文件 / 最近记录中选择）标准输入，在本地编译运行当前文件，查看 stdout、stderr 和性能数据。
+// 只在本地运行，不访问服务器，不产生提交记录、不计入统计。
+// 运行时崩溃记录到 RuntimeErrorLog，面板上可以直接让 AI 分析。
+
+const RUN_LIMITS = { timeLimitMs: 5000, memoryLimitMb: 256 };
+const RECENT_INPUTS_KEY = 'smartcoder.recentRunInputs';
+const MAX_RECENT_INPUTS = 10;
+
+export class RunWithInputPanel {
+    private static _current?: RunWithInputPanel;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _document: vscode.TextDocument;
+    private _running = false;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    // 打开面板（已打开则显示并切换到当前文件）
+    public static show(context: vscode.ExtensionContext, runtimeErrors: RuntimeErrorLog) {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showWarningMessage('请先打开要运行的代码文件');
+            return;
+        }
+        if (!getLanguageRunner(editor.document.languageId)) {
+            vscode.window.showWarningMessage(`暂不支持运行 ${editor.document.languageId} 代码（支持：${getSupportedLanguageIds().join(', ')}）`);
+            return;
+        }
+
+        if (RunWithInputPanel._current) {
+            RunWithInputPanel._current._setDocument(editor.document);
+            RunWithInputPanel._current._panel.reveal(vscode.ViewColumn.Beside);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel('smartcoderRunWithInput', '运行（自定义输入）', vscode.ViewColumn.Beside, {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        });
+        RunWithInputPanel._current = new RunWithInputPanel(panel, context, runtimeErrors, editor.document);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly _context: vscode.ExtensionContext,
+        private readonly _runtimeErrors: RuntimeErrorLog,
+        document: vscode.TextDocument
+    ) {
+        this._panel = panel;
+        this._document = document;
+        this._panel.webview.html = this._getHtml();
+
+        this._panel.onDidDispose(() => this._dispose(), null, this._disposables);
+        this._panel.webview.onDidReceiveMessage(async (data) => {
+            switch (data.type) {
+                case 'ready':
+                    this._setDocument(this._document);
+                    this._postRecentInputs();
+                    break;
+                case 'run':
+                    await this._run(String(data.input ?? ''));
+                    break;
+                case 'loadInputFile':
+                    await this._loadInputFile();
+                    break;
+                case 'analyzeError':
+                    await vscode.commands.executeCommand('smartcoder.analyzeTerminal', data.captureId);
+                    break;
+            }
+        }, null, this._disposables);
+
+        // 切换到另一个可运行的文件时，运行目标跟着切换
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor && getLanguageRunner(editor.document.languageId)) {
+                this._setDocument(editor.document);
+            }
+        }, null, this._disposables);
+    }
+
+    private _setDocument(document: vscode.TextDocument) {
+        this._document = document;
+        this._panel.webview.postMessage({ type: 'setTarget', fileName: vscode.workspace.asRelativePath(document.uri), languageId: document.languageId });
+    }
+
+    // 用文档的当前内容运行（包括未保存的修改）
+    private async _run(input: string) {
+        if (this._running) {
+            return;
+        }
+        if (this._document.isClosed) {
+            vscode.window.showWarningMessage('要运行的文件已关闭，请重新打开后再运行');
+            return;
+        }
+
+        this._running = true;
+        this._panel.webview.postMessage({ type: 'running' });
+        await this._rememberInput(input);
+
+        let outcome: RunOutcome;
+        try {
+            outcome = await runWithInput(this._document.getText(), this._document.languageId, input, RUN_LIMITS);
+        } catch (e: any) {
+            outcome = { status: 'Runtime Error', stdout: '', stderr: '', runtime: -1, memory: -1, message: e.message || String(e) };
+        } finally {
+            this._running = false;
+        }
+        const errorText = Array.from(new Set([outcome.message, outcome.stderr].filter(Boolean))).join('\n\n');
+        const capture = outcome.status === 'Runtime Error' ? this._runtimeErrors.recordProgramCrash('run', errorText, this._document) : undefined;
+        this._panel.webview.postMessage({ type: 'result', outcome, errorText, captureId: capture?.id });
+    }
+
+    private async _loadInputFile() {
+        const files = await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: '作为输入', filters: { '文本文件': ['txt', 'in'], '所有文件': ['*'] } });
+        if (!files || files.length === 0) {
+            return;
+        }
+        const content = await vscode.workspace.fs.readFile(files[0]);
+        this._panel.webview.postMessage({ type: 'setInput', input: Buffer.from(content).toString('utf8') });
+    }
+
+    // 最近使用的输入保存在工作区状态中，最新的在前
+    private async _rememberInput(input: string) {
+        if (!input.trim()) {
+            return;
+        }
+        const recent = this._context.workspaceState.get<string[]>(RECENT_INPUTS_KEY, []).filter(item => item !== input);
+        await this._context.workspaceState.update(RECENT_INPUTS_KEY, [input, ...recent].slice(0, MAX_RECENT_INPUTS));
+        this._postRecentInputs();
+    }
+
+    private _postRecentInputs() {
+        this._panel.webview.postMessage({ type: 'recentInputs', inputs: this._context.workspaceState.get<string[]>(RECENT_INPUTS_KEY, []) });
+    }
+
+    private _dispose() {
+        RunWithInputPanel._current = undefined;
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+
+    private _getHtml() {
+        return `<!DOCTYPE html>
+        <html lang="zh-CN">
+        <head>
+            <meta charset="UTF-8">
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    padding: 8px 12px;
+                }
+
+                .toolbar {
+                    display: flex;
+                    gap: 8px;
+                    align-items: center;
+                    margin: 8px 0;
+                }
+
+                #target {
+                    color: var(--vscode-descriptionForeground);
+                }
+
+                textarea, pre {
+                    width: 100%;
+                    box-sizing: border-box;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                    background: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, var(--vscode-widget-border));
+                    padding: 6px;
+                }
+
+                textarea {
+                    height: 140px;
+                    resize: vertical;
+                }
+
+                pre {
+                    min-height: 2em;
+                    max-height: 300px;
+                    overflow: auto;
+                    white-space: pre-wrap;
+                    margin: 4px 0 12px;
+                }
+
+                button {
+                    background: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: none;
+                    padding: 4px 12px;
+                    cursor: pointer;
+                }
+
+                button.secondary {
+                    background: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                }
+
+                button:disabled {
+                    opacity: 0.6;
+                    cursor: default;
+                }
+
+                select {
+                    background: var(--vscode-dropdown-background);
+                    color: var(--vscode-dropdown-foreground);
+                    border: 1px solid var(--vscode-dropdown-border);
+                    max-width: 240px;
+                }
+
+                .status-ok {
+                    color: var(--vscode-testing-iconPassed, #73c991);
+                }
+
+                .status-error {
+                    color: var(--vscode-errorForeground);
+                }
+
+                .label {
+                    color: var(--vscode-descriptionForeground);
+                }
+            </style>
+        </head>
+        <body>
+            <div id="target">运行文件：-</div>
+
+            <div class="toolbar">
+                <span class="label">标准输入</span>
+                <button id="loadFileBtn" class="secondary">从文件载入</button>
+                <select id="recentSelect"><option value="">最近的输入...</option></select>
+            </div>
+            <textarea id="input" placeholder="在这里输入程序的标准输入"></textarea>
+
+            <div class="toolbar">
+                <button id="runBtn">▶ 运行</button>
+                <span id="status"></span>
+                <button id="analyzeBtn" class="secondary" style="display: none;">🔍 AI 分析错误</button>
+            </div>
+
+            <div class="label">stdout</div>
+            <pre id="stdout"></pre>
+            <div class="label">stderr / 错误信息</div>
+            <pre id="stderr"></pre>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const input = document.getElementById('input');
+                const runBtn = document.getElementById('runBtn');
+                const status = document.getElementById('status');
+                const recentSelect = document.getElementById('recentSelect');
+                const analyzeBtn = document.getElementById('analyzeBtn');
+                let recentInputs = [];
+                let captureId;
+
+                runBtn.addEventListener('click', () => {
+                    vscode.postMessage({ type: 'run', input: input.value });
+                });
+                // Ctrl+Enter 运行
+                input.addEventListener('keydown', (event) => {
+                    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+                        event.preventDefault();
+                        runBtn.click();
+                    }
+                });
+                analyzeBtn.addEventListener('click', () => {
+                    vscode.postMessage({ type: 'analyzeError', captureId });
+                });
+                document.getElementById('loadFileBtn').addEventListener('click', () => {
+                    vscode.postMessage({ type: 'loadInputFile' });
+                });
+                recentSelect.addEventListener('change', () => {
+                    if (recentSelect.value !== '') {
+                        input.value = recentInputs[Number(recentSelect.value)];
+                        recentSelect.value = '';
+                    }
+                });
+
+                function formatMemory(bytes) {
+                    return bytes >= 1024 * 1024 ? (bytes / 1024 / 1024).toFixed(2) + 'MB' : (bytes / 1024).toFixed(2) + 'KB';
+                }
+
+                window.addEventListener('message', event => {
+                    const msg = event.data;
+                    switch (msg.type) {
+                        case 'setTarget':
+                            document.getElementById('target').textContent = '运行文件：' + msg.fileName + '（' + msg.languageId + '）';
+                            break;
+                        case 'setInput':
+                            input.value = msg.input;
+                            break;
+                        case 'recentInputs':
+                            recentInputs = msg.inputs;
+                            recentSelect.innerHTML = '<option value="">最近的输入...</option>';
+                            recentInputs.forEach((item, i) => {
+                                const option = document.createElement('option');
+                                option.value = String(i);
+                                const firstLine = item.split('\\n')[0];
+                                option.textContent = firstLine.length > 40 ? firstLine.substring(0, 40) + '…' : firstLine;
+                                recentSelect.appendChild(option);
+                            });
+                            break;
+                        case 'running':
+                            runBtn.disabled = true;
+                            analyzeBtn.style.display = 'none';
+                            status.className = '';
+                            status.textContent = '编译运行中...';
+                            break;
+                        case 'result': {
+                            const outcome = msg.outcome;
+                            runBtn.disabled = false;
+                            status.className = outcome.status === 'Accepted' ? 'status-ok' : 'status-error';
+                            status.textContent = outcome.status === 'Accepted' ? '运行结束' : outcome.status;
+                            if (outcome.runtime >= 0) {
+                                status.textContent += '  ⏱ ' + outcome.runtime + 'ms  💾 ' + formatMemory(outcome.memory);
+                            }
+                            if (outcome.allocatedBytes !== undefined) {
+                                status.textContent += '  ♻ GC 分配 ' + formatMemory(outcome.allocatedBytes);
+                            }
+                            document.getElementById('stdout').textContent = outcome.stdout;
+                            document.getElementById('stderr').textContent = msg.errorText;
+                            // 运行时崩溃：可以直接让 AI 分析这次的错误输出
+                            captureId = msg.captureId;
+                            analyzeBtn.style.display = captureId !== undefined ? '' : 'none';
+                            break;
+                        }
+                    }
+                });
+
+                vscode.postMessage({ type: 'ready' });
+            </script>
+        </body>
+        </html>`;
+    }
+}
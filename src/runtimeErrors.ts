@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { getLanguageRunner } from './languageRunners';
+import { frameFileName, looksLikeRuntimeError, parseStackFrames, StackFrame, summarizeError } from './stackTrace';
+
+// === 捕获运行时错误 ===
+// 崩溃分析的输入直接来自真实的运行结果，不再依赖剪贴板：
+// - 本地运行（自定义输入面板）和云端评测的 Runtime Error
+// - 终端中执行失败的命令（shell integration 读取命令输出）
+// - 调试会话中抛出的异常（DebugAdapterTracker 拦截 stopped 事件，再向调试适配器请求异常信息和调用栈）
+
+export type RuntimeErrorSource = 'run' | 'judge' | 'terminal' | 'debug';
+
+export const RUNTIME_ERROR_SOURCE_LABELS: Record<RuntimeErrorSource, string> = {
+    run: '本地运行',
+    judge: '云端评测',
+    terminal: '终端',
+    debug: '调试'
+};
+
+export interface RuntimeErrorCapture {
+    id: number;
+    source: RuntimeErrorSource;
+    title: string;              // 异常摘要
+    text: string;               // 完整的错误输出 / 堆栈
+    frames: StackFrame[];
+    documentUri?: vscode.Uri;   // 运行的源文件（本地运行和评测在临时目录中编译，堆栈里的路径指向临时文件）
+    time: number;
+}
+
+const MAX_CAPTURES = 10;
+const MAX_CAPTURED_OUTPUT = 64 * 1024;  // 终端和调试输出只保留最后 64KB
+const MAX_DEBUG_FRAMES = 20;
+
+export class RuntimeErrorLog implements vscode.Disposable {
+    private readonly _captures: RuntimeErrorCapture[] = [];  // 最新的在前
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _nextId = 1;
+
+    constructor() {
+        this._disposables.push(
+            vscode.window.onDidStartTerminalShellExecution(e => this._watchTerminalExecution(e.execution)),
+            vscode.debug.registerDebugAdapterTrackerFactory('*', {
+                createDebugAdapterTracker: session => this._createDebugTracker(session)
+            })
+        );
+    }
+
+    get captures(): readonly RuntimeErrorCapture[] {
+        return this._captures;
+    }
+
+    find(id: number): RuntimeErrorCapture | undefined {
+        return this._captures.find(capture => capture.id === id);
+    }
+
+    // 记录一次运行时错误；frames 未给出时从输出中解析
+    record(source: RuntimeErrorSource, text: string, options: { documentUri?: vscode.Uri, frames?: StackFrame[], title?: string } = {}): RuntimeErrorCapture | undefined {
+        const clean = stripAnsi(text).trim();
+        if (!clean) {
+            return undefined;
+        }
+        const capture: RuntimeErrorCapture = {
+            id: this._nextId++,
+            source,
+            title: options.title || summarizeError(clean),
+            text: clean,
+            frames: options.frames ?? parseStackFrames(clean),
+            documentUri: options.documentUri,
+            time: Date.now()
+        };
+        this._captures.unshift(capture);
+        this._captures.splice(MAX_CAPTURES);
+        return capture;
+    }
+
+    // 本地运行 / 评测的崩溃：学生代码在临时目录中运行，去掉入口程序的栈帧，其余栈帧都对应回被运行的文件
+    recordProgramCrash(source: 'run' | 'judge', text: string, document: vscode.TextDocument): RuntimeErrorCapture | undefined {
+        const harnessFiles = getLanguageRunner(document.languageId)?.harnessFiles ?? [];
+        const frames = parseStackFrames(stripAnsi(text)).filter(frame => !harnessFiles.includes(frameFileName(frame)));
+        return this.record(source, text, { documentUri: document.uri, frames });
+    }
+
+    dispose() {
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+
+    // 终端：读取命令的全部输出，命令以非 0 退出且输出像崩溃时记录
+    private async _watchTerminalExecution(execution: vscode.TerminalShellExecution) {
+        const exitCode = new Promise<number | undefined>(resolve => {
+            const listener = vscode.window.onDidEndTerminalShellExecution(e => {
+                if (e.execution === execution) {
+                    listener.dispose();
+                    resolve(e.exitCode);
+                }
+            });
+        });
+
+        let output = '';
+        try {
+            for await (const data of execution.read()) {
+                output = (output + data).slice(-MAX_CAPTURED_OUTPUT);
+            }
+        } catch {
+            return;  // 终端被关闭
+        }
+
+        const code = await exitCode;
+        const clean = stripAnsi(output);
+        if (code !== 0 && looksLikeRuntimeError(clean)) {
+            this.record('terminal', `$ ${execution.commandLine.value}\n${clean}`, { title: summarizeError(clean) });
+        }
+    }
+
+    // 调试：异常断点停下时读取异常信息和调用栈；没有停在异常上但进程以非 0 退出时，记录 stderr 输出
+    private _createDebugTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+        let stderr = '';
+        let capturedException = false;
+        return {
+            onDidSendMessage: (message: any) => {
+                if (message?.type !== 'event') {
+                    return;
+                }
+                if (message.event === 'output' && message.body?.category === 'stderr') {
+                    stderr = (stderr + message.body.output).slice(-MAX_CAPTURED_OUTPUT);
+                } else if (message.event === 'stopped' && message.body?.reason === 'exception') {
+                    capturedException = true;
+                    this._captureDebugException(session, message.body.threadId, message.body.text || message.body.description);
+                } else if (message.event === 'exited' && message.body?.exitCode !== 0 && !capturedException && looksLikeRuntimeError(stderr)) {
+                    this.record('debug', stderr);
+                }
+            }
+        };
+    }
+
+    private async _captureDebugException(session: vscode.DebugSession, threadId: number, description?: string) {
+        // exceptionInfo 不是所有调试适配器都支持，失败时只用调用栈
+        const info = await Promise.resolve(session.customRequest('exceptionInfo', { threadId })).catch(() => undefined);
+        const trace = await Promise.resolve(session.customRequest('stackTrace', { threadId, startFrame: 0, levels: MAX_DEBUG_FRAMES })).catch(() => undefined);
+
+        const frames: StackFrame[] = (trace?.stackFrames ?? [])
+            .filter((frame: any) => frame.source?.path && frame.line > 0)
+            .map((frame: any) => ({
+                file: frame.source.path,
+                line: frame.line,
+                column: frame.column || undefined,
+                method: frame.name,
+                text: `at ${frame.name} in ${frame.source.path}:line ${frame.line}`
+            }));
+        const header = [info?.details?.typeName || info?.exceptionId, info?.details?.message || info?.description || description]
+            .filter(Boolean)
+            .join(': ');
+        const stack = info?.details?.stackTrace || frames.map(frame => '   ' + frame.text).join('\n');
+
+        this.record('debug', `${header || '调试时抛出异常'}\n${stack}`, {
+            title: header || undefined,
+            frames: frames.length > 0 ? frames : undefined
+        });
+    }
+}
+
+// 终端输出带颜色等控制序列，解析前去掉
+function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, '');
+}
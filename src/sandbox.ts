@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import { exec, spawn } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+// === 评测沙箱：带时间 / 内存限制地运行学生程序 ===
+// Linux 上优先用 systemd-run（cgroup：MemoryMax / TasksMax），其次用 prlimit（CPU 时间、进程数）；
+// 所有平台都会轮询内存峰值并在超限或超时后杀掉整个进程树。
+// 输出大小由读取 stdout / stderr 时计数限制，不用 RLIMIT_FSIZE：.NET 8 的 W^X 双重映射会把 memfd 写到 16MB 以上，
+// 设置文件大小上限后每个 dotnet 进程都会被 SIGXFSZ 杀掉。
+
+export interface SandboxLimits {
+    timeLimitMs: number;     // 用户程序允许的运行时间
+    memoryLimitMb: number;   // 用户程序允许的内存（RSS）
+}
+
+export interface SandboxOptions extends SandboxLimits {
+    cwd: string;
+    input?: string;
+    env?: NodeJS.ProcessEnv;
+    graceMs?: number;        // 运行时启动开销的宽限时间，超过 timeLimitMs + graceMs 强制结束
+    isolation?: IsolationMode;   // 指定隔离方式（测试用），默认自动检测
+}
+
+export type SandboxVerdict = 'OK' | 'Runtime Error' | 'Time Limit Exceeded' | 'Memory Limit Exceeded';
+
+export interface SandboxResult {
+    verdict: SandboxVerdict;
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    stdout: string;
+    stderr: string;
+    wallTimeMs: number;
+    peakMemoryBytes: number;   // 0 表示当前平台无法测量
+}
+
+export type IsolationMode = 'systemd-run' | 'prlimit' | 'none';
+
+const MEMORY_POLL_INTERVAL_MS = 50;
+const MAX_OUTPUT_BYTES = 16 * 1024 * 1024;   // 输出超过 16MB 视为运行错误（防止刷屏耗尽内存）
+const MAX_TASKS = 64;                        // 防 fork 炸弹
+
+let isolationModePromise: Promise<IsolationMode> | undefined;
+
+// 检测一次当前系统可用的隔离方式，结果缓存
+function detectIsolationMode(): Promise<IsolationMode> {
+    if (!isolationModePromise) {
+        isolationModePromise = (async (): Promise<IsolationMode> => {
+            if (process.platform !== 'linux') {
+                return 'none';
+            }
+            try {
+                await execAsync('systemd-run --user --scope --quiet -p MemoryMax=64M true', { timeout: 5000 });
+                return 'systemd-run';
+            } catch {
+                // 没有 systemd 用户会话（容器、WSL 等），退回 prlimit
+            }
+            try {
+                await execAsync('prlimit --version', { timeout: 5000 });
+                return 'prlimit';
+            } catch {
+                return 'none';
+            }
+        })();
+    }
+    return isolationModePromise;
+}
+
+// 按隔离方式包装命令
+function wrapCommand(mode: IsolationMode, command: string, args: string[], options: SandboxOptions): { command: string, args: string[] } {
+    const hardLimitMs = options.timeLimitMs + (options.graceMs ?? 0);
+
+    switch (mode) {
+        case 'systemd-run':
+            return {
+                command: 'systemd-run',
+                args: [
+                    '--user', '--scope', '--quiet',
+                    '-p', `MemoryMax=${options.memoryLimitMb}M`,
+                    '-p', 'MemorySwapMax=0',
+                    '-p', `TasksMax=${MAX_TASKS}`,
+                    '--', command, ...args
+                ]
+            };
+        case 'prlimit':
+            // RLIMIT_NPROC 按用户计数（包括用户自己已经在运行的进程和线程），所以上限是当前数量再加 MAX_TASKS。
+            // 尽力而为：并行评测的程序共享这个额度，root 用户不受 RLIMIT_NPROC 限制；严格的隔离需要 systemd-run
+            return {
+                command: 'prlimit',
+                args: [
+                    `--cpu=${Math.ceil(hardLimitMs / 1000) + 1}`,
+                    `--nproc=${countUserTasks() + MAX_TASKS}`,
+                    '--core=0',
+                    '--', command, ...args
+                ]
+            };
+        default:
+            return { command, args };
+    }
+}
+
+// 当前用户的进程（线程）总数，读 /proc
+function countUserTasks(): number {
+    const uid = process.getuid?.();
+    let total = 0;
+    for (const entry of fs.readdirSync('/proc')) {
+        if (!/^\d+$/.test(entry)) {
+            continue;
+        }
+        try {
+            const status = fs.readFileSync(`/proc/${entry}/status`, 'utf8');
+            if (Number(status.match(/^Uid:\s+(\d+)/m)?.[1]) === uid) {
+                total += Number(status.match(/^Threads:\s+(\d+)/m)?.[1] ?? 1);
+            }
+        } catch {
+            // 进程已退出
+        }
+    }
+    return total;
+}
+
+// 读取进程树当前的 RSS 总和（仅 Linux，读 /proc）
+function readProcessTreeRss(pid: number): number {
+    let total = 0;
+    try {
+        const status = fs.readFileSync(`/proc/${pid}/status`, 'utf8');
+        const rssMatch = status.match(/VmRSS:\s+(\d+)\s+kB/);
+        if (rssMatch) {
+            total += parseInt(rssMatch[1], 10) * 1024;
+        }
+        for (const tid of fs.readdirSync(`/proc/${pid}/task`)) {
+            const children = fs.readFileSync(`/proc/${pid}/task/${tid}/children`, 'utf8').trim();
+            if (children) {
+                for (const childPid of children.split(/\s+/)) {
+                    total += readProcessTreeRss(parseInt(childPid, 10));
+                }
+            }
+        }
+    } catch {
+        // 进程已退出
+    }
+    return total;
+}
+
+// 结束整个进程树：POSIX 下子进程是进程组组长，直接杀进程组；Windows 用 taskkill /T
+export function killProcessTree(pid: number) {
+    try {
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+        } else {
+            process.kill(-pid, 'SIGKILL');
+        }
+    } catch {
+        // 进程已退出
+    }
+}
+
+export async function runInSandbox(command: string, args: string[], options: SandboxOptions): Promise<SandboxResult> {
+    const mode = options.isolation ?? await detectIsolationMode();
+    const wrapped = wrapCommand(mode, command, args, options);
+    const hardLimitMs = options.timeLimitMs + (options.graceMs ?? 0);
+    const memoryLimitBytes = options.memoryLimitMb * 1024 * 1024;
+
+    return new Promise<SandboxResult>((resolve) => {
+        const startTime = Date.now();
+        const child = spawn(wrapped.command, wrapped.args, {
+            cwd: options.cwd,
+            env: options.env ? { ...process.env, ...options.env } : process.env,
+            stdio: ['pipe', 'pipe', 'pipe'],
+            detached: process.platform !== 'win32'   // 独立进程组，便于整组结束
+        });
+
+        let stdout = '';
+        let stderr = '';
+        let outputBytes = 0;
+        let peakMemoryBytes = 0;
+        let killedFor: SandboxVerdict | null = null;
+
+        const kill = (verdict: SandboxVerdict) => {
+            if (killedFor || child.pid === undefined) {
+                return;
+            }
+            killedFor = verdict;
+            killProcessTree(child.pid);
+        };
+
+        const onOutput = (chunk: Buffer, isStdout: boolean) => {
+            outputBytes += chunk.length;
+            if (outputBytes > MAX_OUTPUT_BYTES) {
+                kill('Runtime Error');
+                return;
+            }
+            if (isStdout) {
+                stdout += chunk.toString();
+            } else {
+                stderr += chunk.toString();
+            }
+        };
+        child.stdout.on('data', (data: Buffer) => onOutput(data, true));
+        child.stderr.on('data', (data: Buffer) => onOutput(data, false));
+
+        const timer = setTimeout(() => kill('Time Limit Exceeded'), hardLimitMs);
+        const memoryPoller = process.platform === 'linux' && child.pid !== undefined
+            ? setInterval(() => {
+                const rss = readProcessTreeRss(child.pid!);
+                peakMemoryBytes = Math.max(peakMemoryBytes, rss);
+                if (rss > memoryLimitBytes) {
+                    kill('Memory Limit Exceeded');
+                }
+            }, MEMORY_POLL_INTERVAL_MS)
+            : undefined;
+
+        const finish = (exitCode: number | null, signal: NodeJS.Signals | null, spawnError?: Error) => {
+            clearTimeout(timer);
+            if (memoryPoller) {
+                clearInterval(memoryPoller);
+            }
+
+            let verdict: SandboxVerdict;
+            if (killedFor) {
+                verdict = killedFor;
+                if (killedFor === 'Runtime Error') {
+                    stderr += `\n输出超过 ${MAX_OUTPUT_BYTES / 1024 / 1024}MB 上限`;
+                }
+            } else if (signal === 'SIGXCPU') {
+                verdict = 'Time Limit Exceeded';   // prlimit --cpu 触发
+            } else if (signal === 'SIGKILL' && mode === 'systemd-run') {
+                verdict = 'Memory Limit Exceeded'; // cgroup OOM killer
+            } else if (spawnError || exitCode !== 0) {
+                verdict = 'Runtime Error';
+            } else {
+                verdict = 'OK';
+            }
+
+            resolve({
+                verdict,
+                exitCode,
+                signal,
+                stdout,
+                stderr: spawnError ? `${stderr}${spawnError.message}` : stderr,
+                wallTimeMs: Date.now() - startTime,
+                peakMemoryBytes
+            });
+        };
+
+        child.on('close', (exitCode, signal) => finish(exitCode, signal));
+        child.on('error', (err) => finish(null, null, err));
+
+        // 程序可能不读 stdin 就退出，忽略 EPIPE
+        child.stdin.on('error', () => { });
+        child.stdin.end(options.input ?? '');
+    });
+}
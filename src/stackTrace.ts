@@ -0,0 +1,82 @@
+// === 解析运行时错误的堆栈 ===
+// 不依赖 vscode：本地运行、云端评测、终端和调试会话捕获的错误输出都交给这里，拆成一个个可点击跳转的栈帧。
+
+export interface StackFrame {
+    file: string;       // 原样保留堆栈中的路径（可能是临时目录中的绝对路径，也可能只有文件名）
+    line: number;       // 从 1 开始
+    column?: number;
+    method?: string;
+    text: string;       // 堆栈中的原始一行
+}
+
+interface FramePattern {
+    pattern: RegExp;
+    map: (match: RegExpMatchArray) => Omit<StackFrame, 'text'>;
+}
+
+const FRAME_PATTERNS: FramePattern[] = [
+    // C#：at Program.Main(String[] args) in /src/Program.cs:line 12（中文系统：在 ... 位置 ...:行号 12）
+    {
+        pattern: /^\s*(?:at|在)\s+(.+?)\s+(?:in|位置)\s+(.+?):(?:line|行号)\s*(\d+)\s*$/,
+        map: m => ({ method: m[1], file: m[2], line: Number(m[3]) })
+    },
+    // Python：File "/src/main.py", line 3, in solve
+    {
+        pattern: /^\s*File "(.+?)", line (\d+)(?:, in (.+?))?\s*$/,
+        map: m => ({ file: m[1], line: Number(m[2]), method: m[3] })
+    },
+    // Java：at Main.solve(Main.java:15)
+    {
+        pattern: /^\s*at\s+([\w$.<>/]+)\(([^():]+\.(?:java|kt)):(\d+)\)\s*$/,
+        map: m => ({ method: m[1], file: m[2], line: Number(m[3]) })
+    },
+    // JavaScript：at solve (/src/main.js:10:5) 或 at /src/main.js:10:5
+    {
+        pattern: /^\s*at\s+(?:(.+?)\s+\()?((?:[A-Za-z]:)?[^():]+?):(\d+):(\d+)\)?\s*$/,
+        map: m => ({ method: m[1], file: m[2], line: Number(m[3]), column: Number(m[4]) })
+    },
+    // C / C++（AddressSanitizer、gdb）：#0 0x4011d6 in main /src/a.cpp:12:5 或 #1 solve (n=3) at a.cpp:5
+    {
+        pattern: /^\s*#\d+\s+(?:0x[0-9a-fA-F]+\s+in\s+)?(\S+).*?\s((?:[A-Za-z]:)?[^\s:]+\.(?:c|cc|cpp|cxx|h|hpp)):(\d+)(?::(\d+))?/,
+        map: m => ({ method: m[1], file: m[2], line: Number(m[3]), column: m[4] ? Number(m[4]) : undefined })
+    }
+];
+
+// 运行时错误的标志：即使没有可解析的栈帧，也认为输出是一次崩溃
+const RUNTIME_ERROR_MARKERS = /Unhandled exception|EXCEPTION:|Traceback \(most recent call last\)|Exception in thread|Segmentation fault|core dumped|terminate called|AddressSanitizer|未经处理的异常/;
+
+// 按出现顺序提取栈帧；运行时内部的帧（node:internal、<frozen ...> 等）没有对应的源文件，直接跳过
+export function parseStackFrames(text: string): StackFrame[] {
+    const frames: StackFrame[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        for (const { pattern, map } of FRAME_PATTERNS) {
+            const match = line.match(pattern);
+            if (!match) {
+                continue;
+            }
+            const frame = map(match);
+            if (!frame.file.startsWith('<') && !frame.file.startsWith('node:')) {
+                frames.push({ ...frame, text: line.trim() });
+            }
+            break;
+        }
+    }
+    return frames;
+}
+
+// 栈帧的文件名（堆栈可能来自 Windows，两种路径分隔符都要处理）
+export function frameFileName(frame: StackFrame): string {
+    return frame.file.split(/[\\/]/).pop() || frame.file;
+}
+
+export function looksLikeRuntimeError(text: string): boolean {
+    return RUNTIME_ERROR_MARKERS.test(text) || parseStackFrames(text).length > 0;
+}
+
+// 错误摘要（用于列表标题）：第一行形如 "XxxException: ..." / "XxxError: ..." 的非栈帧行，找不到时取第一行
+export function summarizeError(text: string, maxLength = 120): string {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    const frameLines = new Set(parseStackFrames(text).map(frame => frame.text));
+    const summary = lines.find(line => !frameLines.has(line) && /\b[\w.]*(?:Exception|Error)\b/.test(line)) ?? lines[0] ?? '';
+    return summary.length > maxLength ? summary.substring(0, maxLength) + '…' : summary;
+}
@@ -0,0 +1,444 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runBuiltinChecker } from './checker';
+import { buildProgram, CaseRunResult, JudgeStatus, referenceComparisonSpec } from './judge';
+import { SandboxLimits } from './sandbox';
+
+// === 对拍（压力测试）：随机生成输入，比较学生程序与参考解的输出 ===
+// 题目通过 generator 字段声明输入的生成方式：
+//   { "type": "spec", "fields": [...] }                              按字段描述生成，每个字段输出一行
+//   { "type": "program", "language": "csharp", "source": "..." }    生成器程序：从标准输入读入 "<seed> <size>"，输出一组测试输入
+// 发现不一致后自动缩小反例：删减数组 / 字符串元素、把数值向 0 收缩；生成器程序则尝试更小的 size。
+// 不依赖 vscode，后端通过 out/stressTest.js 调用。
+
+// 字段描述中的 min / max / length 可以是数字，也可以是前面某个 int 字段的 name（如数组长度为 "n"）
+export type Bound = number | string;
+export type LengthSpec = Bound | { min: Bound; max: Bound };
+
+export interface IntFieldSpec {
+    type: 'int';
+    name?: string;
+    min: Bound;
+    max: Bound;
+}
+
+export interface StringFieldSpec {
+    type: 'string';
+    name?: string;
+    length: LengthSpec;
+    alphabet?: string;   // 缺省为小写字母
+}
+
+// 数组输出为一行，元素以空格分隔
+export interface ArrayFieldSpec {
+    type: 'array';
+    name?: string;
+    length: LengthSpec;
+    item: IntFieldSpec | StringFieldSpec;
+}
+
+export type FieldSpec = IntFieldSpec | StringFieldSpec | ArrayFieldSpec;
+
+export interface SpecGenerator {
+    type: 'spec';
+    fields: FieldSpec[];
+}
+
+export interface ProgramGenerator {
+    type: 'program';
+    language?: string;   // 缺省为 csharp
+    source: string;
+    maxSize?: number;    // size 从 1 逐渐增大到 maxSize，缺省 100
+}
+
+export type GeneratorSpec = SpecGenerator | ProgramGenerator;
+
+export type FieldValue = number | string | Array<number | string>;
+
+export interface StressOptions {
+    limits: SandboxLimits;
+    iterations?: number;      // 随机输入组数，缺省 200
+    timeBudgetMs?: number;    // 总时间预算（含缩小反例），缺省 60 秒
+    seed?: number;            // 随机种子，缺省随机；相同种子可复现同一组输入
+    onProgress?: (completed: number, total: number) => void;
+}
+
+export interface StressCounterexample {
+    input: string;
+    expected: string;         // 参考解输出
+    actual: string;           // 学生程序输出
+    status: JudgeStatus;
+    message: string;
+    originalInput: string;    // 缩小前最初发现的输入
+    shrinkSteps: number;      // 成功缩小的次数
+}
+
+export interface StressResult {
+    status: 'passed' | 'failed' | 'error';
+    iterations: number;       // 实际比较过的随机输入组数
+    skipped: number;          // 参考解自身运行失败而跳过的输入数
+    seed: number;
+    errorMessage?: string;    // 编译失败、生成器出错等
+    counterexample?: StressCounterexample;
+}
+
+const DEFAULT_ITERATIONS = 200;
+const DEFAULT_TIME_BUDGET_MS = 60000;
+const DEFAULT_MAX_SIZE = 100;
+const DEFAULT_ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+const MAX_SHRINK_ATTEMPTS = 300;
+
+// 可复现的伪随机数（mulberry32）
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function randomInt(random: () => number, lo: number, hi: number): number {
+    return lo + Math.floor(random() * (hi - lo + 1));
+}
+
+function resolveBound(bound: Bound, env: Record<string, number>): number {
+    if (typeof bound === 'number') {
+        return bound;
+    }
+    if (env[bound] === undefined) {
+        throw new Error(`生成器字段引用了未定义的 ${bound}（只能引用前面的 int 字段）`);
+    }
+    return env[bound];
+}
+
+function lengthRange(length: LengthSpec, env: Record<string, number>): [number, number] {
+    if (typeof length === 'object') {
+        return [resolveBound(length.min, env), resolveBound(length.max, env)];
+    }
+    const n = resolveBound(length, env);
+    return [n, n];
+}
+
+function generateScalar(field: IntFieldSpec | StringFieldSpec, env: Record<string, number>, random: () => number): number | string {
+    if (field.type === 'int') {
+        const lo = resolveBound(field.min, env);
+        const hi = resolveBound(field.max, env);
+        if (lo > hi) {
+            throw new Error(`生成器字段 ${field.name || 'int'} 的范围无效：[${lo}, ${hi}]`);
+        }
+        return randomInt(random, lo, hi);
+    }
+    const [lo, hi] = lengthRange(field.length, env);
+    const alphabet = field.alphabet || DEFAULT_ALPHABET;
+    let text = '';
+    for (let i = randomInt(random, lo, hi); i > 0; i--) {
+        text += alphabet[randomInt(random, 0, alphabet.length - 1)];
+    }
+    return text;
+}
+
+// 按字段描述生成一组输入（相同 seed 结果相同）
+export function generateFromSpec(spec: SpecGenerator, seed: number): FieldValue[] {
+    const random = createRandom(seed);
+    const env: Record<string, number> = {};
+    return spec.fields.map(field => {
+        let value: FieldValue;
+        if (field.type === 'array') {
+            const [lo, hi] = lengthRange(field.length, env);
+            value = Array.from({ length: randomInt(random, lo, hi) }, () => generateScalar(field.item, env, random));
+        } else {
+            value = generateScalar(field, env, random);
+        }
+        if (field.name && typeof value === 'number') {
+            env[field.name] = value;
+        }
+        return value;
+    });
+}
+
+// 每个字段一行，数组元素以空格分隔
+export function renderInput(values: FieldValue[]): string {
+    return values.map(value => Array.isArray(value) ? value.join(' ') : String(value)).join('\n') + '\n';
+}
+
+function isScalarValid(field: IntFieldSpec | StringFieldSpec, value: number | string, env: Record<string, number>): boolean {
+    if (field.type === 'int') {
+        return typeof value === 'number' && value >= resolveBound(field.min, env) && value <= resolveBound(field.max, env);
+    }
+    const [lo, hi] = lengthRange(field.length, env);
+    const alphabet = field.alphabet || DEFAULT_ALPHABET;
+    return typeof value === 'string' && value.length >= lo && value.length <= hi && [...value].every(c => alphabet.includes(c));
+}
+
+// 缩小后的输入是否仍满足字段描述
+function isValid(spec: SpecGenerator, values: FieldValue[]): boolean {
+    const env: Record<string, number> = {};
+    try {
+        for (let i = 0; i < spec.fields.length; i++) {
+            const field = spec.fields[i];
+            const value = values[i];
+            if (field.type === 'array') {
+                const [lo, hi] = lengthRange(field.length, env);
+                if (!Array.isArray(value) || value.length < lo || value.length > hi || !value.every(item => isScalarValid(field.item, item, env))) {
+                    return false;
+                }
+            } else if (Array.isArray(value) || !isScalarValid(field, value, env)) {
+                return false;
+            }
+            if (field.name && typeof value === 'number') {
+                env[field.name] = value;
+            }
+        }
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// 替换第 index 个字段；如果该字段的长度由某个 int 字段决定，同步修改那个字段
+function replaceField(spec: SpecGenerator, values: FieldValue[], index: number, value: FieldValue): FieldValue[] {
+    const next = [...values];
+    next[index] = value;
+    const field = spec.fields[index];
+    if (field.type !== 'int' && typeof field.length === 'string' && typeof value !== 'number') {
+        const lengthIndex = spec.fields.findIndex(f => f.type === 'int' && f.name === field.length);
+        if (lengthIndex >= 0) {
+            next[lengthIndex] = value.length;
+        }
+    }
+    return next;
+}
+
+// 数值向 0 收缩的候选值
+function shrinkNumber(value: number): number[] {
+    const candidates = [0, Math.trunc(value / 2), value - Math.sign(value)];
+    return candidates.filter((c, i) => c !== value && Math.abs(c) < Math.abs(value) && candidates.indexOf(c) === i);
+}
+
+// 单个元素的缩小候选：数值向 0 收缩；字符串的字符换成字母表第一个字符；数组中的字符串去掉首字符
+function shrinkItem(field: StringFieldSpec | ArrayFieldSpec, item: number | string): Array<number | string> {
+    if (typeof item === 'number') {
+        return shrinkNumber(item);
+    }
+    if (field.type === 'string') {
+        const first = (field.alphabet || DEFAULT_ALPHABET)[0];
+        return item !== first ? [first] : [];
+    }
+    return item.length > 0 ? [item.slice(1)] : [];
+}
+
+// 缩小候选：先整段删除数组 / 字符串元素（从删一半到逐个删除），再收缩单个数值
+function* specShrinkCandidates(spec: SpecGenerator, values: FieldValue[]): Generator<FieldValue[]> {
+    for (let i = 0; i < spec.fields.length; i++) {
+        const field = spec.fields[i];
+        const value = values[i];
+        if (field.type === 'int') {
+            for (const candidate of shrinkNumber(value as number)) {
+                yield replaceField(spec, values, i, candidate);
+            }
+            continue;
+        }
+
+        const items: Array<number | string> = typeof value === 'string' ? [...value] : value as Array<number | string>;
+        const rebuild = (next: Array<number | string>): FieldValue => field.type === 'string' ? next.join('') : next;
+        for (let size = Math.floor(items.length / 2); size >= 1; size = Math.floor(size / 2)) {
+            for (let start = 0; start + size <= items.length; start += size) {
+                yield replaceField(spec, values, i, rebuild([...items.slice(0, start), ...items.slice(start + size)]));
+            }
+        }
+
+        for (let j = 0; j < items.length; j++) {
+            for (const candidate of shrinkItem(field, items[j])) {
+                const next = [...items];
+                next[j] = candidate;
+                yield replaceField(spec, values, i, rebuild(next));
+            }
+        }
+    }
+}
+
+// 贪心缩小：依次尝试候选，只要仍然失败就接受并从头再来，直到没有更小的失败输入或用完尝试次数 / 时间
+async function shrink<T, F>(initial: T, initialFailure: F, candidates: (value: T) => Iterable<T>, fails: (value: T) => Promise<F | undefined>, deadline: number): Promise<{ value: T; failure: F; steps: number }> {
+    let value = initial;
+    let failure = initialFailure;
+    let steps = 0;
+    let attempts = 0;
+    let improved = true;
+    while (improved && attempts < MAX_SHRINK_ATTEMPTS && Date.now() < deadline) {
+        improved = false;
+        for (const candidate of candidates(value)) {
+            if (attempts++ >= MAX_SHRINK_ATTEMPTS || Date.now() >= deadline) {
+                break;
+            }
+            const candidateFailure = await fails(candidate);
+            if (candidateFailure) {
+                value = candidate;
+                failure = candidateFailure;
+                steps++;
+                improved = true;
+                break;
+            }
+        }
+    }
+    return { value, failure, steps };
+}
+
+type Mismatch = Omit<StressCounterexample, 'originalInput' | 'shrinkSteps'>;
+
+// 对拍：compile 学生代码、参考解（和生成器程序），用随机输入比较两者输出
+export async function stressTest(
+    code: string,
+    languageId: string,
+    reference: { language: string; code: string },
+    generator: GeneratorSpec,
+    checker: unknown,
+    options: StressOptions
+): Promise<StressResult> {
+    const seed = options.seed ?? Math.floor(Math.random() * 0x7fffffff);
+    const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+    const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+    const tempDir = path.join(os.tmpdir(), `smartcoder-stress-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    let completed = 0;
+    let skipped = 0;
+
+    try {
+        const build = async (label: string, source: string, language: string) => {
+            try {
+                return await buildProgram(path.join(tempDir, label), source, language, options.limits);
+            } catch (error: any) {
+                throw new Error(`${label === 'Student' ? '学生代码' : label === 'Reference' ? '参考解' : '生成器'}${error.message || error}`);
+            }
+        };
+
+        let runStudent: (input: string) => Promise<CaseRunResult>;
+        let runReference: (input: string) => Promise<CaseRunResult>;
+        let runGenerator: ((input: string) => Promise<CaseRunResult>) | undefined;
+        try {
+            runStudent = await build('Student', code, languageId);
+            runReference = await build('Reference', reference.code, reference.language);
+            if (generator.type === 'program') {
+                runGenerator = await build('Generator', generator.source, generator.language || 'csharp');
+            }
+        } catch (error: any) {
+            return { status: 'error', iterations: 0, skipped: 0, seed, errorMessage: error.message };
+        }
+
+        const compareSpec = referenceComparisonSpec(checker);
+        const referenceCache = new Map<string, CaseRunResult>();
+
+        // 比较一组输入：不一致时返回反例；参考解本身失败的输入视为无效，返回 undefined
+        const compare = async (input: string): Promise<Mismatch | undefined> => {
+            let expected = referenceCache.get(input);
+            if (!expected) {
+                expected = await runReference(input);
+                referenceCache.set(input, expected);
+            }
+            if (expected.status !== 'Accepted') {
+                return undefined;
+            }
+            const actual = await runStudent(input);
+            if (actual.status !== 'Accepted') {
+                return { input, expected: expected.output, actual: actual.output, status: actual.status, message: actual.message };
+            }
+            const check = runBuiltinChecker(compareSpec, expected.output, actual.output);
+            return check.passed
+                ? undefined
+                : { input, expected: expected.output, actual: actual.output, status: 'Wrong Answer', message: check.message };
+        };
+
+        // 生成器程序：输入为 "<seed> <size>"
+        const generateWithProgram = async (caseSeed: number, size: number): Promise<string> => {
+            const result = await runGenerator!(`${caseSeed} ${size}\n`);
+            if (result.status !== 'Accepted') {
+                throw new Error(`生成器运行失败（seed=${caseSeed}, size=${size}）：${result.status} ${result.message}`);
+            }
+            return result.output + '\n';
+        };
+
+        const maxSize = generator.type === 'program' ? (generator.maxSize || DEFAULT_MAX_SIZE) : 0;
+        for (let k = 0; k < iterations && Date.now() < deadline; k++) {
+            const caseSeed = seed + k;
+            let input: string;
+            let values: FieldValue[] | undefined;
+            let size = 0;
+            try {
+                if (generator.type === 'spec') {
+                    values = generateFromSpec(generator, caseSeed);
+                    input = renderInput(values);
+                } else {
+                    // size 从小到大增长，先试小输入，发现的反例通常已经比较小
+                    size = 1 + Math.floor(k * maxSize / Math.max(1, iterations));
+                    input = await generateWithProgram(caseSeed, size);
+                }
+            } catch (error: any) {
+                return { status: 'error', iterations: completed, skipped, seed, errorMessage: error.message };
+            }
+
+            const mismatch = await compare(input);
+            completed++;
+            options.onProgress?.(completed, iterations);
+            if (referenceCache.get(input)!.status !== 'Accepted') {
+                skipped++;
+                continue;
+            }
+            if (!mismatch) {
+                continue;
+            }
+
+            // 找到反例：缩小后报告
+            let shrunk: { failure: Mismatch; steps: number };
+            if (values) {
+                const spec = generator as SpecGenerator;
+                shrunk = await shrink(values, mismatch,
+                    current => (function* () {
+                        for (const candidate of specShrinkCandidates(spec, current)) {
+                            if (isValid(spec, candidate)) {
+                                yield candidate;
+                            }
+                        }
+                    })(),
+                    candidate => compare(renderInput(candidate)),
+                    deadline);
+            } else {
+                // 只接受输入更短的反例，避免 size 变小但输入没有变短时来回跳
+                let shortest = input.length;
+                shrunk = await shrink({ caseSeed, size }, mismatch,
+                    current => [1, Math.floor(current.size / 2), current.size - 1]
+                        .filter((s, i, all) => s >= 1 && s < current.size && all.indexOf(s) === i)
+                        .flatMap(s => [0, 1, 2].map(offset => ({ caseSeed: current.caseSeed + offset, size: s }))),
+                    async candidate => {
+                        const candidateInput = await generateWithProgram(candidate.caseSeed, candidate.size).catch(() => undefined);
+                        if (candidateInput === undefined || candidateInput.length >= shortest) {
+                            return undefined;
+                        }
+                        const candidateMismatch = await compare(candidateInput);
+                        if (candidateMismatch) {
+                            shortest = candidateInput.length;
+                        }
+                        return candidateMismatch;
+                    },
+                    deadline);
+            }
+
+            return {
+                status: 'failed',
+                iterations: completed,
+                skipped,
+                seed,
+                counterexample: { ...shrunk.failure, originalInput: input, shrinkSteps: shrunk.steps }
+            };
+        }
+
+        return { status: 'passed', iterations: completed, skipped, seed };
+    } finally {
+        try {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        } catch (cleanupError) {
+            console.error('清理临时目录失败:', cleanupError);
+        }
+    }
+}
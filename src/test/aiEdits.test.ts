@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { normalizeAiEdits, resolveFileEdits } from '../aiEdits';
+
+suite('AI Edits Test Suite', () => {
+	test('normalizeAiEdits keeps well-formed edits and drops the rest', () => {
+		const edits = normalizeAiEdits([
+			{ file: 'a.cs', range: { startLine: '2', endLine: 3 }, newText: 'x' },
+			{ file: 'b.cs', anchor: 'int n;', newText: 'long n;' },
+			{ file: 'c.cs', newText: 'class C {}' },
+			{ file: '', newText: 'x' },
+			{ file: 'd.cs' },
+			'bogus'
+		]);
+		assert.deepStrictEqual(edits, [
+			{ file: 'a.cs', range: { startLine: 2, endLine: 3 }, newText: 'x' },
+			{ file: 'b.cs', anchor: 'int n;', newText: 'long n;' },
+			{ file: 'c.cs', newText: 'class C {}' }
+		]);
+		assert.deepStrictEqual(normalizeAiEdits(undefined), []);
+	});
+
+	test('resolveFileEdits locates line ranges and anchors and rejects overlaps', () => {
+		const text = 'line1\r\n    int n = 0;\r\nline3\r\nline4';
+		const { hunks, failures } = resolveFileEdits(text, [
+			{ file: 'a.cs', range: { startLine: 3, endLine: 4 }, newText: 'x' },
+			{ file: 'a.cs', anchor: 'int n = 0;\n', newText: 'long n = 0;' },
+			{ file: 'a.cs', range: { startLine: 4, endLine: 4 }, newText: 'y' },
+			{ file: 'a.cs', anchor: 'missing', newText: 'z' },
+			{ file: 'a.cs', range: { startLine: 5, endLine: 6 }, newText: 'z' }
+		]);
+
+		// 锚点的行尾换行不一致时按行匹配，替换整行
+		assert.deepStrictEqual(hunks.map(h => text.substring(h.start, h.end)), ['    int n = 0;', 'line3\r\nline4']);
+		assert.deepStrictEqual(failures.map(f => f.reason), [
+			'在文件中找不到锚点原文',
+			'行范围 5-6 超出文件（共 4 行）',
+			'与同一文件中的另一处修改重叠'
+		]);
+
+		const created = resolveFileEdits(null, [{ file: 'New.cs', newText: 'class New {}' }]);
+		assert.strictEqual(created.hunks[0].wholeFile, true);
+		assert.deepStrictEqual(resolveFileEdits(null, [{ file: 'New.cs', anchor: 'x', newText: 'y' }]).failures.map(f => f.reason), ['文件不存在']);
+	});
+});
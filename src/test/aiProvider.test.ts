@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { ChatMessage, ChatOptions, extractStreamingAnalysis, OpenAiCompatibleProvider, parseAiJson } from '../aiProvider';
+
+// 不发请求，直接把给定的字节块作为 SSE 响应返回
+class FakeStreamProvider extends OpenAiCompatibleProvider {
+	constructor(private readonly _chunks: Uint8Array[], private readonly _status = 200) {
+		super({ kind: 'local', baseUrl: 'http://localhost', model: 'test', temperature: 0, timeoutMs: 10000 });
+	}
+
+	protected async _post(_messages: ChatMessage[], _options: ChatOptions, _stream: boolean, _signal: AbortSignal): Promise<Response> {
+		const chunks = this._chunks;
+		return new Response(new ReadableStream<Uint8Array>({
+			start(controller) {
+				chunks.forEach(chunk => controller.enqueue(chunk));
+				controller.close();
+			}
+		}), { status: this._status });
+	}
+}
+
+suite('AI Provider Test Suite', () => {
+	test('parseAiJson parses fenced JSON and falls back to raw text', () => {
+		assert.deepStrictEqual(parseAiJson('```json\n{"analysis":"ok","code":null}\n```'), { analysis: 'ok', code: null });
+		assert.deepStrictEqual(parseAiJson('plain text'), { analysis: 'plain text', code: null });
+	});
+
+	test('extractStreamingAnalysis reads a partially streamed analysis field', () => {
+		assert.strictEqual(extractStreamingAnalysis('{"analysis": "第一行\\n第二'), '第一行\n第二');
+		assert.strictEqual(extractStreamingAnalysis('{"analysis": "say \\"hi\\"", "code": "x'), 'say "hi"');
+		assert.strictEqual(extractStreamingAnalysis('{"analysis": "tail\\'), 'tail');
+		assert.strictEqual(extractStreamingAnalysis('{"ana'), '');
+		assert.strictEqual(extractStreamingAnalysis('not json'), 'not json');
+	});
+
+	test('chatStream parses a final data line without a trailing newline', async () => {
+		const bytes = new TextEncoder().encode('data: {"choices":[{"delta":{"content":"你"}}]}\ndata: {"choices":[{"delta":{"content":"好"}}]}');
+		// 在多字节字符中间切开，最后一行也没有换行符
+		const split = bytes.length - 7;
+		const provider = new FakeStreamProvider([bytes.slice(0, split), bytes.slice(split)]);
+		const deltas: string[] = [];
+		const text = await provider.chatStream([], delta => deltas.push(delta));
+		assert.strictEqual(text, '你好');
+		assert.deepStrictEqual(deltas, ['你', '好']);
+	});
+
+	test('chat reports the HTTP status when the error response is not JSON', async () => {
+		const provider = new FakeStreamProvider([new TextEncoder().encode('<html>502 Bad Gateway</html>')], 502);
+		await assert.rejects(provider.chat([]), { message: 'API Error (502)' });
+	});
+});
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseBuildErrors } from '../buildCheck';
+
+suite('Build Check Test Suite', () => {
+	test('parseBuildErrors reads MSBuild error lines and drops duplicates and warnings', () => {
+		const projectDir = path.resolve('/work/App');
+		const output = [
+			'Program.cs(5,13): error CS0103: The name \'x\' does not exist in the current context [/work/App/App.csproj]',
+			'Program.cs(3,9): warning CS0168: The variable \'e\' is declared but never used [/work/App/App.csproj]',
+			'Program.cs(5,13): error CS0103: The name \'x\' does not exist in the current context [/work/App/App.csproj]',
+			'Utils/Math.cs(10,1): error CS1513: } expected'
+		].join('\r\n');
+
+		assert.deepStrictEqual(parseBuildErrors(output, projectDir), [
+			{ file: path.join(projectDir, 'Program.cs'), line: 5, column: 13, code: 'CS0103', message: 'The name \'x\' does not exist in the current context' },
+			{ file: path.join(projectDir, 'Utils/Math.cs'), line: 10, column: 1, code: 'CS1513', message: '} expected' }
+		]);
+	});
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { normalizeCheckerSpec, runBuiltinChecker } from '../checker';
+
+suite('Checker Test Suite', () => {
+	test('normalizeCheckerSpec defaults to line-wise comparison', () => {
+		assert.deepStrictEqual(normalizeCheckerSpec(undefined), { type: 'lines' });
+		assert.deepStrictEqual(normalizeCheckerSpec('tokens'), { type: 'tokens' });
+		assert.deepStrictEqual(normalizeCheckerSpec({ type: 'bogus' }), { type: 'lines' });
+	});
+
+	test('lines checker ignores trailing whitespace and CRLF', () => {
+		assert.ok(runBuiltinChecker({ type: 'lines' }, '1 2\n3', '1 2   \r\n3\r\n\r\n').passed);
+		assert.ok(!runBuiltinChecker({ type: 'lines' }, '1 2\n3', '1  2\n3').passed);
+	});
+
+	test('tokens checker ignores whitespace layout', () => {
+		assert.ok(runBuiltinChecker({ type: 'tokens' }, '1 2\n3', '1\n2 3').passed);
+		assert.ok(!runBuiltinChecker({ type: 'tokens' }, '1 2 3', '1 2').passed);
+	});
+
+	test('float checker accepts answers within epsilon', () => {
+		assert.ok(runBuiltinChecker({ type: 'float', absEpsilon: 1e-3 }, '3.1416', '3.14159').passed);
+		assert.ok(!runBuiltinChecker({ type: 'float', absEpsilon: 1e-6, relEpsilon: 0 }, '3.1416', '3.14').passed);
+		assert.ok(runBuiltinChecker({ type: 'float', absEpsilon: 0, relEpsilon: 1e-6 }, '1000000', '1000000.5').passed);
+	});
+
+	test('unordered checker ignores order of lines or tokens', () => {
+		assert.ok(runBuiltinChecker({ type: 'unordered' }, 'a\nb', 'b\na\n').passed);
+		assert.ok(runBuiltinChecker({ type: 'unordered', unit: 'tokens' }, '0 1', '1 0').passed);
+		assert.ok(!runBuiltinChecker({ type: 'unordered', unit: 'tokens' }, '0 1', '1 1').passed);
+	});
+});
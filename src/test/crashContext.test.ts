@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { buildCrashContext, CrashSourceFile, truncateToTokens } from '../crashContext';
+
+const PROGRAM = [
+	'using System;',
+	'',
+	'class Program',
+	'{',
+	'    static int Solve(int[] a)',
+	'    {',
+	'        int sum = 0;',
+	'        for (int i = 0; i <= a.Length; i++)',
+	'        {',
+	'            sum += a[i];',
+	'        }',
+	'        return sum;',
+	'    }',
+	'',
+	'    static void Main()',
+	'    {',
+	'        Console.WriteLine(Solve(new[] { 1, 2, 3 }));',
+	'    }',
+	'}'
+].join('\n');
+
+suite('Crash Context Test Suite', () => {
+	test('buildCrashContext includes the methods of the call chain with line numbers', () => {
+		const file: CrashSourceFile = { path: 'src/Program.cs', languageId: 'csharp', text: PROGRAM };
+		const context = buildCrashContext([
+			{ frame: { file: '/tmp/run/Program.cs', line: 10, method: 'Program.Solve(Int32[] a)', text: '' }, file },
+			{ frame: { file: '/tmp/run/Program.cs', line: 17, method: 'Program.Main()', text: '' }, file }
+		], 4000);
+
+		assert.ok(context.text.includes('1. Program.Solve(Int32[] a) — src/Program.cs:10'));
+		assert.ok(context.text.includes('// src/Program.cs 第 5-13 行 · Solve'));
+		assert.ok(context.text.includes('>>10 |             sum += a[i];'));
+		assert.ok(context.text.includes('// src/Program.cs 第 15-18 行 · Main'));
+		assert.ok(!context.text.includes('using System;'));
+		assert.strictEqual(context.includedFrames, 2);
+		assert.strictEqual(context.omittedFrames, 0);
+	});
+
+	test('buildCrashContext shrinks or omits methods that exceed the budget', () => {
+		const file: CrashSourceFile = { path: 'Program.cs', languageId: 'csharp', text: PROGRAM };
+		const context = buildCrashContext([
+			{ frame: { file: 'Program.cs', line: 10, method: 'Program.Solve', text: '' }, file },
+			{ frame: { file: 'Program.cs', line: 17, method: 'Program.Main', text: '' }, file }
+		], 160);
+
+		assert.ok(context.tokens <= 160);
+		assert.ok(context.text.includes('第 7-13 行 · Solve'));
+		assert.strictEqual(context.omittedFrames, 1);
+
+		const truncated = truncateToTokens(['Unhandled exception.', ...Array(200).fill('   at Frame()'), 'Last line'].join('\n'), 50);
+		assert.ok(truncated.startsWith('Unhandled exception.'));
+		assert.ok(truncated.endsWith('Last line'));
+		assert.ok(truncated.includes('行）…'));
+	});
+});
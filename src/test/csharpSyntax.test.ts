@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { flattenSymbols, parseCSharpOutline, symbolPathAt } from '../csharpSyntax';
+
+suite('C# Syntax Test Suite', () => {
+	const source = [
+		'using System;',
+		'namespace Demo;',
+		'public record Point(int X, int Y);',
+		'public class Calc<T> where T : class',
+		'{',
+		'    private string brace = "}{"; // }',
+		'    private string text = $"{(brace.Length > 0 ? "}" : "{")} {{";',
+		'    public static Dictionary<int, List<string>> Build<TKey>(Dictionary<int, string> map, ref int n) where TKey : struct',
+		'    {',
+		'        /* } */ return new();',
+		'    }',
+		'    public int Sum(int a, int b = 3) => a + b;',
+		'}'
+	].join('\n');
+
+	test('outline ignores braces in strings and comments and handles generics, records and expression bodies', () => {
+		const outline = parseCSharpOutline(source);
+		const symbols = flattenSymbols(outline.symbols);
+		assert.deepStrictEqual(symbols.map(s => `${s.kind}:${s.name}`), ['namespace:Demo', 'record:Point', 'class:Calc', 'method:Build', 'method:Sum']);
+
+		const build = symbols.find(s => s.name === 'Build')!;
+		assert.strictEqual(build.returnType, 'Dictionary<int, List<string>>');
+		assert.deepStrictEqual(build.parameters, [{ type: 'Dictionary<int, string>', name: 'map' }, { type: 'int', name: 'n' }]);
+		assert.ok(source.substring(build.start, build.end).endsWith('return new();\n    }'));
+
+		const sum = symbols.find(s => s.name === 'Sum')!;
+		assert.strictEqual(sum.expressionBodied, true);
+		assert.strictEqual(source.substring(sum.start, sum.end), 'public int Sum(int a, int b = 3) => a + b;');
+		assert.deepStrictEqual(symbolPathAt(outline.symbols, source.indexOf('return new')).map(s => s.name), ['Demo', 'Calc', 'Build']);
+	});
+
+	test('top-level statements are detected and calls are not mistaken for declarations', () => {
+		const outline = parseCSharpOutline('using System;\nConsole.WriteLine("{");\nint Add(int a, int b) { return a + b; }\nif (Add(1, 2) > 0) { Console.WriteLine(1); }');
+		assert.strictEqual(outline.hasTopLevelStatements, true);
+		assert.deepStrictEqual(flattenSymbols(outline.symbols).map(s => s.name), ['Add']);
+	});
+});
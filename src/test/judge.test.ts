@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import { judgeCode, runWithInput, verifyWithReference } from '../judge';
+
+suite('Judge Test Suite', () => {
+	const limits = { timeLimitMs: 2000, memoryLimitMb: 256 };
+	const sumProgram = 'const [a, b] = require("fs").readFileSync(0, "utf8").trim().split(/\\s+/).map(Number); console.log(a + b);';
+
+	test('judgeCode accepts a correct JavaScript solution', async () => {
+		const result = await judgeCode(sumProgram, 'javascript', [{ input: '1 2', expected: '3' }, { input: '5 5', expected: '10' }], undefined, { limits, parallelism: 1 });
+		assert.strictEqual(result.status, 'Accepted');
+		assert.strictEqual(result.caseResults?.length, 2);
+	});
+
+	test('judgeCode reports the first failing case', async () => {
+		const result = await judgeCode(sumProgram, 'javascript', [{ input: '1 2', expected: '3' }, { input: '5 5', expected: '11' }], undefined, { limits, parallelism: 1 });
+		assert.strictEqual(result.status, 'Wrong Answer');
+		assert.strictEqual(result.failedCase, 2);
+	});
+
+	test('judgeCode reports every case with details when continuing after a failure', async () => {
+		const testCases = [{ input: '5 5', expected: '11' }, { input: '1 2', expected: '3' }];
+		const result = await judgeCode(sumProgram, 'javascript', testCases, undefined, { limits, parallelism: 1, continueAfterFailure: true });
+		assert.strictEqual(result.failedCase, 1);
+		assert.deepStrictEqual(result.caseResults?.map(c => c.status), ['Wrong Answer', 'Accepted']);
+		assert.strictEqual(result.caseResults?.[0].actual, '10');
+
+		const rerun = await judgeCode(sumProgram, 'javascript', testCases, undefined, { limits, caseNumbers: [2] });
+		assert.deepStrictEqual(rerun.caseResults?.map(c => c.caseNumber), [2]);
+	});
+
+	test('judgeCode does not reveal the expected output of a hidden case', async () => {
+		const result = await judgeCode(sumProgram, 'javascript', [{ input: '5 5', expected: '11', visibility: 'hidden' }], undefined, { limits, parallelism: 1 });
+		assert.strictEqual(result.status, 'Wrong Answer');
+		assert.ok(!result.errorMessage?.includes('11'));
+	});
+
+	test('judgeCode does not reveal the stderr of a hidden case', async () => {
+		const leak = 'const input = require("fs").readFileSync(0, "utf8"); console.error("LEAK:" + input); process.exit(1);';
+		const result = await judgeCode(leak, 'javascript', [{ input: 'secret-input', expected: '', visibility: 'hidden' }], undefined, { limits, parallelism: 1 });
+		assert.strictEqual(result.status, 'Runtime Error');
+		assert.ok(!JSON.stringify(result).includes('secret-input'), JSON.stringify(result));
+	});
+
+	test('judgeCode rejects unsupported languages as Compile Error', async () => {
+		const result = await judgeCode('fn main() {}', 'rust', undefined, undefined, { limits });
+		assert.strictEqual(result.status, 'Compile Error');
+	});
+
+	test('verifyWithReference rewrites or drops cases whose expected output disagrees with the reference', async () => {
+		const testCases = [{ input: '1 2', expected: '3' }, { input: '5 5', expected: '11', visibility: 'hidden' as const }];
+		const rewritten = await verifyWithReference(sumProgram, 'javascript', testCases, undefined, 'rewrite', limits);
+		assert.deepStrictEqual(rewritten.testCases, [{ input: '1 2', expected: '3' }, { input: '5 5', expected: '10', visibility: 'hidden' }]);
+		assert.deepStrictEqual(rewritten.report.map(r => r.action), ['kept', 'rewritten']);
+
+		const filtered = await verifyWithReference(sumProgram, 'javascript', testCases, undefined, 'filter', limits);
+		assert.deepStrictEqual(filtered.testCases, [{ input: '1 2', expected: '3' }]);
+	});
+
+	test('verifyWithReference reports a reference that does not compile', async () => {
+		const result = await verifyWithReference('int main( {', 'cpp', [{ input: '', expected: '' }], undefined, 'rewrite', limits);
+		assert.strictEqual(result.compiled, false);
+		assert.ok(result.errorMessage);
+	});
+
+	test('runWithInput runs once with custom stdin and separates stdout and stderr', async () => {
+		const result = await runWithInput(`${sumProgram} console.error("debug");`, 'javascript', '40 2', limits);
+		assert.strictEqual(result.status, 'Accepted');
+		assert.strictEqual(result.stdout.trim(), '42');
+		assert.strictEqual(result.stderr, 'debug');
+		assert.ok(result.runtime >= 0);
+	});
+
+	test('runWithInput reports the real line number of a C# crash', async function () {
+		try {
+			execFileSync('dotnet', ['--version'], { stdio: 'ignore', timeout: 10000 });
+		} catch {
+			this.skip();
+		}
+		this.timeout(300000);
+		const result = await runWithInput('var a = new int[1];\nvar i = 5;\nSystem.Console.WriteLine(a[i]);', 'csharp', '', limits);
+		assert.strictEqual(result.status, 'Runtime Error');
+		assert.ok(/Program\.cs:line 3\b/.test(result.message), result.message);
+	});
+});
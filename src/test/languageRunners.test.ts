@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getLanguageRunner, getSupportedLanguageIds } from '../languageRunners';
+
+suite('Language Runner Test Suite', () => {
+	test('registry is keyed by VS Code language id', () => {
+		assert.deepStrictEqual(getSupportedLanguageIds().sort(), ['cpp', 'csharp', 'java', 'javascript', 'python']);
+		assert.strictEqual(getLanguageRunner('rust'), undefined);
+	});
+
+	test('csharp runner measures through a harness entry point without rewriting the source', () => {
+		const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'smartcoder-test-'));
+		try {
+			const code = 'await System.Threading.Tasks.Task.Delay(1);\nSystem.Console.WriteLine(1);';
+			const program = getLanguageRunner('csharp')!.prepare(workDir, code, { timeLimitMs: 1000, memoryLimitMb: 64 });
+			assert.strictEqual(fs.readFileSync(path.join(workDir, 'Program.cs'), 'utf8'), code);
+			assert.ok(fs.readFileSync(path.join(workDir, 'SmartCoderHarness', 'Harness.cs'), 'utf8').includes('===SMARTCODER_PERF_START==='));
+			assert.ok(fs.readFileSync(path.join(workDir, 'CodeProject.csproj'), 'utf8').includes('SmartCoderHarness/**'));
+			assert.strictEqual(program.compile?.command, 'dotnet');
+			assert.ok(program.run.args[0].endsWith('SmartCoderHarness.dll'));
+		} finally {
+			fs.rmSync(workDir, { recursive: true, force: true });
+		}
+	});
+
+	test('python runner strips harness frames from tracebacks', () => {
+		const stderr = [
+			'Traceback (most recent call last):',
+			'  File "/tmp/x/smartcoder_runner.py", line 5, in <module>',
+			'    runpy.run_path("main.py")',
+			'  File "main.py", line 1, in <module>',
+			'    1 / 0',
+			'ZeroDivisionError: division by zero'
+		].join('\n');
+		const message = getLanguageRunner('python')!.parseRuntimeError(stderr, 1, null);
+		assert.ok(message && message.includes('ZeroDivisionError'));
+		assert.ok(message && !message.includes('smartcoder_runner.py'));
+	});
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { diffLines, diffTextRows, shiftLineRange } from '../lineDiff';
+
+suite('Line Diff Test Suite', () => {
+	test('diffLines groups consecutive changes into hunks around unchanged lines', () => {
+		const oldLines = ['a', 'b', 'c', 'd', 'e'];
+		const newLines = ['a', 'B', 'c', 'd', 'x', 'e', 'f'];
+		assert.deepStrictEqual(diffLines(oldLines, newLines), [
+			{ oldStart: 1, oldLines: ['b'], newStart: 1, newLines: ['B'] },
+			{ oldStart: 4, oldLines: [], newStart: 4, newLines: ['x'] },
+			{ oldStart: 5, oldLines: [], newStart: 6, newLines: ['f'] }
+		]);
+		assert.deepStrictEqual(diffLines(oldLines, oldLines), []);
+		assert.deepStrictEqual(diffLines(['a', 'b'], []), [{ oldStart: 0, oldLines: ['a', 'b'], newStart: 0, newLines: [] }]);
+	});
+
+	test('diffTextRows keeps later lines aligned after an inserted line and ignores trailing spaces', () => {
+		assert.deepStrictEqual(diffTextRows('1\n2\n3', '1\nextra\n2 \n3'), [
+			{ kind: 'same', text: '1' },
+			{ kind: 'added', text: 'extra' },
+			{ kind: 'same', text: '2' },
+			{ kind: 'same', text: '3' }
+		]);
+		assert.deepStrictEqual(diffTextRows('a', 'b'), [{ kind: 'removed', text: 'a' }, { kind: 'added', text: 'b' }]);
+	});
+
+	test('shiftLineRange moves, grows and shrinks a range with the edits around and inside it', () => {
+		// 区间为第 5-7 行
+		assert.deepStrictEqual(shiftLineRange(5, 3, { startLine: 1, endLine: 2, insertedLines: 0 }), { start: 4, count: 3 });
+		assert.deepStrictEqual(shiftLineRange(5, 3, { startLine: 6, endLine: 6, insertedLines: 2 }), { start: 5, count: 5 });
+		assert.deepStrictEqual(shiftLineRange(5, 3, { startLine: 6, endLine: 9, insertedLines: 0 }), { start: 5, count: 2 });
+		assert.deepStrictEqual(shiftLineRange(5, 3, { startLine: 3, endLine: 6, insertedLines: 1 }), { start: 5, count: 1 });
+		assert.deepStrictEqual(shiftLineRange(5, 3, { startLine: 8, endLine: 8, insertedLines: 4 }), { start: 5, count: 3 });
+		assert.deepStrictEqual(shiftLineRange(5, 0, { startLine: 4, endLine: 4, insertedLines: 1 }), { start: 6, count: 0 });
+	});
+});
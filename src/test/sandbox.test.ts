@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { getLanguageRunner } from '../languageRunners';
+import { runInSandbox } from '../sandbox';
+
+function hasCommand(command: string, args: string[]): boolean {
+	try {
+		execFileSync(command, args, { stdio: 'ignore', timeout: 10000 });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+const limits = { timeLimitMs: 5000, memoryLimitMb: 256 };
+
+// 按评测的方式编译并在 prlimit 下运行一段 C# 代码
+async function runCSharp(code: string, input: string) {
+	const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'smartcoder-test-'));
+	try {
+		const runner = getLanguageRunner('csharp')!;
+		const program = runner.prepare(workDir, code, limits);
+		execFileSync(program.compile!.command, program.compile!.args, { cwd: workDir, stdio: 'ignore', timeout: 170000 });
+		return await runInSandbox(program.run.command, program.run.args, {
+			...limits,
+			cwd: workDir,
+			env: program.run.env,
+			input,
+			graceMs: runner.graceMs,
+			isolation: 'prlimit'
+		});
+	} finally {
+		fs.rmSync(workDir, { recursive: true, force: true });
+	}
+}
+
+function canRunCSharpUnderPrlimit(): boolean {
+	return process.platform === 'linux' && hasCommand('prlimit', ['--version']) && hasCommand('dotnet', ['--version']);
+}
+
+suite('Sandbox Test Suite', () => {
+	test('prlimit mode runs a C# program', async function () {
+		if (!canRunCSharpUnderPrlimit()) {
+			this.skip();
+		}
+		this.timeout(180000);
+		const result = await runCSharp('var n = int.Parse(System.Console.ReadLine()!);\nSystem.Console.WriteLine(n * 2);', '21\n');
+		assert.strictEqual(result.signal, null, result.stderr);
+		assert.strictEqual(result.verdict, 'OK', result.stderr);
+		assert.strictEqual(result.stdout.split('\n')[0].trim(), '42');
+	});
+});
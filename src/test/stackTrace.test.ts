@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { looksLikeRuntimeError, parseStackFrames, summarizeError } from '../stackTrace';
+
+suite('Stack Trace Test Suite', () => {
+	test('parseStackFrames reads C#, Python, Java, JavaScript and C++ frames', () => {
+		const output = [
+			'EXCEPTION: System.IndexOutOfRangeException: Index was outside the bounds of the array.',
+			'   at Program.Solve(Int32[] a) in /tmp/run1/Program.cs:line 12',
+			'  File "/src/main.py", line 3, in solve',
+			'  File "<frozen runpy>", line 88, in _run_code',
+			'\tat Main.solve(Main.java:15)',
+			'    at solve (C:\\src\\main.js:10:5)',
+			'    at node:internal/main/run_main_module:28:49',
+			'    #0 0x4011d6 in main /src/a.cpp:12:5'
+		].join('\n');
+
+		assert.deepStrictEqual(parseStackFrames(output).map(f => [f.file, f.line, f.column, f.method]), [
+			['/tmp/run1/Program.cs', 12, undefined, 'Program.Solve(Int32[] a)'],
+			['/src/main.py', 3, undefined, 'solve'],
+			['Main.java', 15, undefined, 'Main.solve'],
+			['C:\\src\\main.js', 10, 5, 'solve'],
+			['/src/a.cpp', 12, 5, 'main']
+		]);
+		assert.strictEqual(summarizeError(output), 'EXCEPTION: System.IndexOutOfRangeException: Index was outside the bounds of the array.');
+	});
+
+	test('summarizeError skips frames and looksLikeRuntimeError ignores plain failures', () => {
+		const traceback = 'Traceback (most recent call last):\n  File "main.py", line 2, in <module>\nZeroDivisionError: division by zero';
+		assert.strictEqual(summarizeError(traceback), 'ZeroDivisionError: division by zero');
+		assert.strictEqual(looksLikeRuntimeError(traceback), true);
+		assert.strictEqual(looksLikeRuntimeError('error CS0103: The name \'x\' does not exist'), false);
+	});
+});
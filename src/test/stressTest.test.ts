@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { generateFromSpec, renderInput, SpecGenerator, stressTest } from '../stressTest';
+
+suite('Stress Test Suite', function () {
+	// 对拍要反复编译运行程序，mocha 默认的 2 秒不够
+	this.timeout(60000);
+	const limits = { timeLimitMs: 2000, memoryLimitMb: 256 };
+	const arraySpec: SpecGenerator = {
+		type: 'spec',
+		fields: [
+			{ type: 'int', name: 'n', min: 1, max: 8 },
+			{ type: 'array', length: 'n', item: { type: 'int', min: -10, max: 10 } }
+		]
+	};
+	const readArray = 'const lines = require("fs").readFileSync(0, "utf8").trim().split("\\n"); const a = lines[1].split(" ").map(Number);';
+	const reference = { language: 'javascript', code: `${readArray} console.log(a.reduce((s, x) => s + x, 0));` };
+
+	test('generateFromSpec is reproducible and respects lengths and ranges', () => {
+		const values = generateFromSpec(arraySpec, 42);
+		assert.deepStrictEqual(generateFromSpec(arraySpec, 42), values);
+		const [n, items] = values as [number, number[]];
+		assert.strictEqual(items.length, n);
+		assert.ok(items.every(x => x >= -10 && x <= 10));
+		assert.strictEqual(renderInput(values), `${n}\n${items.join(' ')}\n`);
+	});
+
+	test('stressTest shrinks a failing input to a minimal counterexample', async () => {
+		// 错误解法：忽略了负数
+		const student = `${readArray} console.log(a.filter(x => x > 0).reduce((s, x) => s + x, 0));`;
+		const result = await stressTest(student, 'javascript', reference, arraySpec, undefined, { limits, iterations: 20, seed: 7 });
+		assert.strictEqual(result.status, 'failed');
+		assert.strictEqual(result.counterexample?.input, '1\n-1\n');
+	});
+
+	test('stressTest passes a correct solution', async () => {
+		const result = await stressTest(reference.code, 'javascript', reference, arraySpec, undefined, { limits, iterations: 5, seed: 1 });
+		assert.strictEqual(result.status, 'passed');
+		assert.strictEqual(result.iterations, 5);
+	});
+});